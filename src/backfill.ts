@@ -0,0 +1,247 @@
+/**
+ * Backfill Module
+ *
+ * Fetches a device's history beyond the 90-day API limit by splitting it into
+ * consecutive API-legal windows. Progress is checkpointed after every window
+ * so an interrupted backfill resumes where it stopped.
+ */
+
+import { TelraamClient, TelraamApiError } from './telraamClient.js';
+import { Storage } from './services/index.js';
+import { createTrafficSource } from './sources/index.js';
+import type {
+  CollectionResult,
+  CollectionState,
+  CollectionSummary,
+  DateRange,
+  DeviceConfig,
+} from './types.js';
+import {
+  COLLECTION,
+  createLogger,
+  LOG_NAMESPACES,
+  mapWithConcurrency,
+  splitDateRange,
+} from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.BACKFILL);
+
+/**
+ * Configuration for the backfiller
+ */
+export interface BackfillConfig {
+  /** API client instance */
+  client: TelraamClient;
+  /** Storage instance */
+  storage: Storage;
+  /** List of devices to backfill */
+  devices: DeviceConfig[];
+  /** Maximum number of devices, and windows per device, fetched concurrently */
+  concurrency: number;
+}
+
+/**
+ * Where a backfill should start
+ * - a fixed date, or
+ * - 'first-data' to start at the device's first transferred data package
+ */
+export type BackfillStart = Date | 'first-data';
+
+/**
+ * Fetches historical data for devices in API-sized windows
+ */
+export class Backfiller {
+  private readonly client: TelraamClient;
+  private readonly storage: Storage;
+  private readonly devices: DeviceConfig[];
+  private readonly concurrency: number;
+
+  constructor(config: BackfillConfig) {
+    this.client = config.client;
+    this.storage = config.storage;
+    this.devices = config.devices;
+    this.concurrency = config.concurrency;
+  }
+
+  /**
+   * Backfill all configured devices from the given start up to `end` (default: now)
+   *
+   * Device failures are isolated and reported in the summary (`failedDevices`)
+   */
+  async backfillAllDevices(start: BackfillStart, end?: Date): Promise<CollectionSummary> {
+    const startTime = new Date();
+    const startLabel = start === 'first-data' ? 'first data package' : start.toISOString();
+    const endLabel = end ? ` until ${end.toISOString()}` : '';
+
+    logger.info(
+      `Starting backfill for ${this.devices.length} devices since ${startLabel}${endLabel}`,
+    );
+
+    const state = await this.storage.loadCollectionState();
+    const results = await mapWithConcurrency(this.devices, this.concurrency, (device) =>
+      this.backfillDevice(device, start, end ?? startTime, state),
+    );
+
+    await this.storage.generateLandingPage();
+
+    const summary: CollectionSummary = {
+      totalDevices: results.length,
+      successfulDevices: results.filter((r) => r.success).length,
+      failedDevices: results.filter((r) => !r.success).length,
+      results,
+      startTime: startTime.toISOString(),
+      endTime: new Date().toISOString(),
+    };
+
+    const totalDataPoints = results.reduce((sum, r) => sum + r.dataPointsCollected, 0);
+    logger.info(
+      `Backfill complete: ${summary.successfulDevices}/${summary.totalDevices} devices, ${totalDataPoints} data points`,
+    );
+
+    if (summary.failedDevices > 0) {
+      results
+        .filter((r) => !r.success)
+        .forEach((result) => logger.error(`  - Device ${result.deviceId}: ${result.error}`));
+    }
+
+    return summary;
+  }
+
+  /**
+   * Backfill a single device, resuming from its checkpoint if one matches
+   */
+  private async backfillDevice(
+    device: DeviceConfig,
+    start: BackfillStart,
+    end: Date,
+    state: CollectionState,
+  ): Promise<CollectionResult> {
+    logger.info(`Backfilling device: ${device.name} (${device.id})`);
+
+    try {
+      const source = createTrafficSource(device, this.client);
+      const startDate = start === 'first-data' ? await source.findFirstDataPoint(device) : start;
+      if (!startDate) {
+        logger.warn(`No first data package known for device ${device.id}, skipping`);
+        return { deviceId: device.id, success: true, dataPointsCollected: 0 };
+      }
+
+      const checkpoint = state.backfill?.[device.id];
+      const resumeFrom =
+        checkpoint && checkpoint.start === startDate.toISOString()
+          ? new Date(checkpoint.completedUntil)
+          : startDate;
+
+      if (resumeFrom > startDate) {
+        logger.info(`Resuming backfill for device ${device.id} from ${resumeFrom.toISOString()}`);
+      }
+
+      if (resumeFrom >= end) {
+        logger.info(`Nothing to backfill for device ${device.id} before ${end.toISOString()}`);
+        return { deviceId: device.id, success: true, dataPointsCollected: 0 };
+      }
+
+      const range: DateRange = { start: resumeFrom, end };
+      const windows = splitDateRange(range, COLLECTION.MAX_DAYS_TO_FETCH);
+      let totalPoints = 0;
+
+      // Fetch a batch of windows concurrently, then save them in order so the
+      // checkpoint only ever covers a contiguous, fully saved range
+      for (let offset = 0; offset < windows.length; offset += this.concurrency) {
+        const batch = windows.slice(offset, offset + this.concurrency);
+        logger.info(
+          `Windows ${offset + 1}-${offset + batch.length}/${windows.length} for device ${device.id}`,
+        );
+
+        if (device.quarterHour) {
+          // Quarter-hour windows are fetched in order; the client already splits them further
+          for (const window of batch) {
+            const points = await this.client.fetchQuarterHourData(device.id, window);
+            if (points.length > 0) {
+              await this.storage.saveQuarterHourData(device.id, points);
+              totalPoints += points.length;
+            }
+            await this.saveCheckpoint(state, device.id, startDate, window.end);
+          }
+          continue;
+        }
+
+        const fetched = await mapWithConcurrency(batch, this.concurrency, (window) =>
+          source.fetchHourlyData(device, window),
+        );
+
+        for (let i = 0; i < batch.length; i++) {
+          if (fetched[i].length > 0) {
+            totalPoints += await this.storage.saveDeviceData(device.id, fetched[i]);
+          }
+          await this.saveCheckpoint(state, device.id, startDate, batch[i].end);
+        }
+      }
+
+      await this.clearCheckpoint(state, device.id);
+
+      return { deviceId: device.id, success: true, dataPointsCollected: totalPoints };
+    } catch (error) {
+      const errorMessage = this.formatError(error);
+      logger.error(`Failed to backfill device ${device.id}: ${errorMessage}`);
+
+      return {
+        deviceId: device.id,
+        success: false,
+        dataPointsCollected: 0,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Record backfill progress for a device
+   */
+  private async saveCheckpoint(
+    state: CollectionState,
+    deviceId: string,
+    start: Date,
+    completedUntil: Date,
+  ): Promise<void> {
+    const timestamp = new Date().toISOString();
+    state.backfill = {
+      ...state.backfill,
+      [deviceId]: {
+        start: start.toISOString(),
+        completedUntil: completedUntil.toISOString(),
+        updatedAt: timestamp,
+      },
+    };
+    state.lastUpdated = timestamp;
+    await this.storage.saveCollectionState(state);
+  }
+
+  /**
+   * Remove a device's checkpoint once its backfill has completed
+   */
+  private async clearCheckpoint(state: CollectionState, deviceId: string): Promise<void> {
+    if (!state.backfill?.[deviceId]) {
+      return;
+    }
+
+    delete state.backfill[deviceId];
+    if (Object.keys(state.backfill).length === 0) {
+      delete state.backfill;
+    }
+    state.lastUpdated = new Date().toISOString();
+    await this.storage.saveCollectionState(state);
+  }
+
+  /**
+   * Format error message for logging
+   */
+  private formatError(error: unknown): string {
+    if (error instanceof TelraamApiError) {
+      return `API Error (${error.statusCode || 'unknown'}): ${error.message}`;
+    }
+    if (error instanceof Error) {
+      return error.message;
+    }
+    return String(error);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Baseline Refresher Module
+ *
+ * Keeps a typical traffic baseline per device: the average counts by weekday
+ * and local hour from the advanced typical traffic API. Daily entries are
+ * annotated with their deviation from it when they are saved.
+ */
+
+import { TelraamClient } from './telraamClient.js';
+import type { Storage } from './services/index.js';
+import type {
+  BaselineCounts,
+  BaselineDay,
+  BaselineDuration,
+  BaselineHour,
+  BaselineMode,
+  DeviceConfig,
+  TrafficBaseline,
+  TypicalTrafficEntry,
+} from './types.js';
+import { COLLECTION, createLogger, LOG_NAMESPACES } from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.COLLECTOR);
+
+const BASELINE_MODES: BaselineMode[] = ['heavy', 'car', 'bike', 'pedestrian'];
+
+/**
+ * Fetches and stores typical traffic baselines
+ */
+export class BaselineRefresher {
+  constructor(
+    private readonly client: TelraamClient,
+    private readonly storage: Storage,
+  ) {}
+
+  /**
+   * Fetch a new baseline for a device if it opted in and the stored one is stale
+   *
+   * Failures are logged and keep the stored baseline, so baseline problems
+   * never fail a collection run.
+   */
+  async refresh(device: DeviceConfig): Promise<void> {
+    if (!device.baseline) {
+      return;
+    }
+
+    try {
+      const existing = await this.storage.loadBaseline(device.id);
+      if (existing && !this.isStale(existing, device.baseline)) {
+        logger.debug(`Baseline for device ${device.id} is up to date`);
+        return;
+      }
+
+      const entries = await this.client.fetchTypicalTraffic(device.id, device.baseline);
+      if (entries.length === 0) {
+        logger.warn(`No ${device.baseline} typical traffic available for device ${device.id}`);
+        return;
+      }
+
+      await this.storage.saveBaseline(this.buildBaseline(device.id, device.baseline, entries));
+    } catch (error) {
+      logger.warn(
+        `Could not refresh baseline for device ${device.id}, keeping the stored one: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * A baseline is stale when its duration changed or it is older than BASELINE_REFRESH_DAYS
+   */
+  private isStale(baseline: TrafficBaseline, duration: BaselineDuration): boolean {
+    const ageMs = Date.now() - new Date(baseline.lastUpdated).getTime();
+    return (
+      baseline.duration !== duration ||
+      !(ageMs < COLLECTION.BASELINE_REFRESH_DAYS * 24 * 60 * 60 * 1000)
+    );
+  }
+
+  /**
+   * Index typical traffic entries by day key and local hour
+   */
+  private buildBaseline(
+    deviceId: string,
+    duration: BaselineDuration,
+    entries: TypicalTrafficEntry[],
+  ): TrafficBaseline {
+    const profiles: TrafficBaseline['profiles'] = {};
+
+    for (const entry of entries) {
+      const hour = Number.parseInt(entry.time ?? '', 10);
+      if (!entry.day_of_week || Number.isNaN(hour)) continue;
+
+      const day: BaselineDay = entry.day_of_week;
+      profiles[day] ??= {};
+      profiles[day][hour] = this.toBaselineHour(entry);
+    }
+
+    return {
+      device_id: deviceId,
+      duration,
+      periodStart: entries[0].time_start ?? '',
+      periodEnd: entries[0].time_end ?? '',
+      lastUpdated: new Date().toISOString(),
+      profiles,
+    };
+  }
+
+  private toBaselineHour(entry: TypicalTrafficEntry): BaselineHour {
+    const avg: BaselineCounts = {};
+    const std: BaselineCounts = {};
+    const values = entry as Record<string, unknown>;
+
+    for (const mode of BASELINE_MODES) {
+      const mean = values[`avg_${mode}`];
+      const deviation = values[`std_${mode}`];
+      if (typeof mean === 'number') avg[mode] = mean;
+      if (typeof deviation === 'number') std[mode] = deviation;
+    }
+
+    return { avg, std, samplesize: entry.samplesize };
+  }
+}
@@ -0,0 +1,874 @@
+/**
+ * Command Line Interface
+ *
+ * Parses commands and flags, wires up services and dispatches to the
+ * collection, backfill, maintenance and export modules. Returns an exit code
+ * instead of exiting so the caller decides how the process ends.
+ */
+
+import { createWriteStream, promises as fs } from 'fs';
+import { finished } from 'stream/promises';
+import { parseArgs } from 'util';
+import { TelraamClient } from './telraamClient.js';
+import {
+  DataDirLock,
+  DeviceRegistry,
+  HttpRecorder,
+  RateLimiter,
+  SqliteStore,
+  Storage,
+} from './services/index.js';
+import { DataCollector } from './collector.js';
+import { Backfiller, type BackfillStart } from './backfill.js';
+import { DeviceDiscovery } from './discovery.js';
+import { LivePoller } from './livePoller.js';
+import { isTelraamDevice } from './sources/index.js';
+import { DataValidator } from './validator.js';
+import { DataExporter, type ExportFormat, type ExportLevel } from './exporter.js';
+import type { TableFormat } from './tabular.js';
+import { CsvImporter } from './csvImporter.js';
+import { SqliteSync } from './sqliteSync.js';
+import { buildRunReport } from './runReport.js';
+import { loadConfig, type AppConfig } from './config.js';
+import type {
+  CollectionSummary,
+  DateRange,
+  DeviceConfig,
+  DiscoveryArea,
+  JsonCompression,
+  MonthChanges,
+} from './types.js';
+import {
+  COLLECTION,
+  ConfigError,
+  createLogger,
+  createRunCancellation,
+  EXIT_CODES,
+  extractMonth,
+  FILESYSTEM,
+  isLogLevel,
+  isValidTimeZone,
+  LOG_NAMESPACES,
+  parseDateInput,
+  routeLogsToStderr,
+  setLogLevel,
+  shiftMonth,
+} from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.MAIN);
+
+/**
+ * Supported commands
+ */
+const COMMANDS = [
+  'collect',
+  'backfill',
+  'rebuild',
+  'validate',
+  'export',
+  'import',
+  'sync',
+  'migrate',
+  'discover',
+  'live',
+] as const;
+type Command = (typeof COMMANDS)[number];
+
+/** Commands that work on local files only and need no API key */
+const OFFLINE_COMMANDS: readonly Command[] = [
+  'rebuild',
+  'validate',
+  'export',
+  'import',
+  'sync',
+  'migrate',
+];
+
+/** Commands that merge into the data files; they are mirrored into SQLite with the sqlite backend */
+const WRITING_COMMANDS: readonly Command[] = ['collect', 'backfill', 'rebuild', 'import'];
+
+/** Commands that hold the data directory lock while running */
+const LOCKED_COMMANDS: readonly Command[] = [...WRITING_COMMANDS, 'sync', 'migrate'];
+
+/** Commands that read a --from/--to range (backfill reads its own start and end) */
+const RANGE_COMMANDS: readonly Command[] = ['collect', 'rebuild', 'export'];
+
+export const HELP_TEXT = `Usage: telraam-collector [command] [options]
+
+Commands:
+  collect                    Incremental collection from each device's high-water mark (default)
+                             With --from/--to, collect a fixed range of up to ${COLLECTION.MAX_DAYS_TO_FETCH} days instead
+  backfill <YYYY-MM-DD|first>
+                             Backfill history since a date or each device's first data package
+  rebuild                    Regenerate daily files and aggregates from the stored hourly files
+  validate                   Check the device registry and stored data files (offline)
+  export                     Write stored records to stdout or --output, or --publish tables (offline)
+  import <file.csv...>       Import telraam.net CSV exports for one --device (offline)
+  sync                       Rebuild the SQLite database from the data directory (offline)
+  migrate                    Rewrite stored month files in the configured --compression (offline)
+  discover                   Find active Telraam segments in an area
+  live                       Poll live counts into latest.json until stopped (Ctrl+C)
+
+Options:
+  -d, --device <id>          Only process these devices (repeatable or comma-separated)
+      --from <YYYY-MM-DD>    Start of the date range (inclusive)
+      --to <YYYY-MM-DD>      End of the date range (exclusive, default: now)
+      --data-dir <path>      Data directory (default: ${FILESYSTEM.DATA_DIR})
+      --registry <path>      Device registry file (default: TELRAAM_DEVICE_REGISTRY or config/devices.json)
+      --log-level <level>    error | warn | info | debug
+      --dry-run              Run without writing any files
+      --compression <mode>   Month files as none | gzip | both (default: TELRAAM_COMPRESSION or none)
+  -h, --help                 Show this help
+
+Export options:
+      --level <level>        hourly | daily (default: daily; both with --publish)
+      --format <format>      ndjson | json | csv | parquet (default: ndjson; csv and parquet with --publish)
+  -o, --output <file>        Write to a file instead of stdout
+      --publish              Write CSV/Parquet tables per month, per device and for all devices
+                             into the data directory
+
+Import options:
+      --timezone <zone>      Time zone of local timestamps in hourly exports (default: the export's
+                             timezone column, then the device's timezone, then UTC)
+
+Discover options:
+      --bbox <lon1,lat1,lon2,lat2> | --radius <lon,lat,km> | --polygon <geojson-file>
+      --location <label>     Location label for new devices
+      --write                Append new devices to the registry
+
+Live options:
+      --interval <seconds>   Seconds between polls (default: TELRAAM_LIVE_INTERVAL_SECONDS or ${COLLECTION.DEFAULT_LIVE_INTERVAL_SECONDS})
+      --once                 Poll once and exit
+
+Exit codes:
+  ${EXIT_CODES.SUCCESS}  success
+  ${EXIT_CODES.ERROR}  collection failure or data problems found
+  ${EXIT_CODES.CONFIG_ERROR}  invalid configuration or usage
+`;
+
+/**
+ * Parsed command line
+ */
+interface CliArgs {
+  command: Command;
+  positionals: string[];
+  values: ReturnType<typeof parseCommandLine>['values'];
+}
+
+/**
+ * Parse the raw argument list
+ */
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      device: { type: 'string', short: 'd', multiple: true },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'data-dir': { type: 'string' },
+      registry: { type: 'string' },
+      'log-level': { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      compression: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      level: { type: 'string' },
+      format: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      publish: { type: 'boolean' },
+      timezone: { type: 'string' },
+      bbox: { type: 'string' },
+      radius: { type: 'string' },
+      polygon: { type: 'string' },
+      location: { type: 'string' },
+      write: { type: 'boolean' },
+      interval: { type: 'string' },
+      once: { type: 'boolean' },
+    },
+  });
+}
+
+/**
+ * Parse argv into a command and its flags
+ * @throws {ConfigError} On unknown flags or commands
+ */
+function parseCli(argv: string[]): CliArgs {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error));
+  }
+
+  const [command = 'collect', ...positionals] = parsed.positionals;
+  if (!(COMMANDS as readonly string[]).includes(command)) {
+    throw new ConfigError(`Unknown command: ${command}`);
+  }
+
+  return { command: command as Command, positionals, values: parsed.values };
+}
+
+/**
+ * Parse a --from/--to pair into a date range (end defaults to now)
+ */
+function parseDateRange(from: string | undefined, to: string | undefined): DateRange | undefined {
+  if (!from && !to) {
+    return undefined;
+  }
+
+  const start = from ? parseDateInput(from) : null;
+  const end = to ? parseDateInput(to) : new Date();
+
+  if (!start) {
+    throw new ConfigError(from ? `Invalid --from date: ${from}` : '--to requires --from');
+  }
+  if (!end) {
+    throw new ConfigError(`Invalid --to date: ${to}`);
+  }
+  if (start >= end) {
+    throw new ConfigError('--from must be before --to');
+  }
+
+  return { start, end };
+}
+
+/**
+ * Parse the backfill start argument
+ */
+function parseBackfillStart(input: string | undefined): BackfillStart {
+  if (input === 'first') {
+    return 'first-data';
+  }
+
+  const date = input ? parseDateInput(input) : null;
+  if (!date) {
+    throw new ConfigError('Usage: backfill <YYYY-MM-DD|first> (or --from <YYYY-MM-DD>)');
+  }
+  return date;
+}
+
+/**
+ * Parse the optional backfill end (--to, exclusive)
+ */
+function parseBackfillEnd(input: string | undefined): Date | undefined {
+  if (!input) {
+    return undefined;
+  }
+
+  const date = parseDateInput(input);
+  if (!date) {
+    throw new ConfigError(`Invalid --to date: ${input}`);
+  }
+  return date;
+}
+
+/**
+ * Parse a comma-separated list of exactly `count` numbers
+ */
+function parseNumberList(input: string, count: number, label: string): number[] {
+  const values = input.split(',').map((value) => Number.parseFloat(value.trim()));
+  if (values.length !== count || values.some((value) => !Number.isFinite(value))) {
+    throw new ConfigError(`--${label} expects ${count} comma-separated numbers`);
+  }
+  return values;
+}
+
+/**
+ * Parse the discover command's area options
+ */
+async function parseDiscoveryArea(values: CliArgs['values']): Promise<DiscoveryArea> {
+  if (values.bbox) {
+    const [lon1, lat1, lon2, lat2] = parseNumberList(values.bbox, 4, 'bbox');
+    return { type: 'bbox', bbox: [lon1, lat1, lon2, lat2] };
+  }
+
+  if (values.radius) {
+    const [lon, lat, radiusKm] = parseNumberList(values.radius, 3, 'radius');
+    return { type: 'radius', lon, lat, radiusKm };
+  }
+
+  if (values.polygon) {
+    let geojson: {
+      coordinates?: number[][][];
+      geometry?: { coordinates?: number[][][] };
+    };
+    try {
+      geojson = JSON.parse(await fs.readFile(values.polygon, FILESYSTEM.ENCODING));
+    } catch (error) {
+      throw new ConfigError(
+        `Cannot read --polygon file ${values.polygon}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const coordinates = geojson.geometry?.coordinates ?? geojson.coordinates;
+    if (!coordinates) {
+      throw new ConfigError(`--polygon file ${values.polygon} contains no Polygon coordinates`);
+    }
+    return { type: 'polygon', coordinates };
+  }
+
+  throw new ConfigError(
+    'Usage: discover --bbox <lon1,lat1,lon2,lat2> | --radius <lon,lat,km> | --polygon <file>',
+  );
+}
+
+/**
+ * Parse an enumerated flag value
+ */
+function parseChoice<T extends string>(
+  value: string | undefined,
+  choices: readonly T[],
+  fallback: T,
+  label: string,
+): T {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new ConfigError(`--${label} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse the live poll interval in seconds
+ */
+function parseInterval(input: string | undefined, fallback: number): number {
+  if (input === undefined) {
+    return fallback;
+  }
+
+  const seconds = Number(input);
+  if (
+    !Number.isInteger(seconds) ||
+    seconds < COLLECTION.MIN_LIVE_INTERVAL_SECONDS ||
+    seconds > COLLECTION.MAX_LIVE_INTERVAL_SECONDS
+  ) {
+    throw new ConfigError(
+      `--interval must be a whole number of seconds between ${COLLECTION.MIN_LIVE_INTERVAL_SECONDS} and ${COLLECTION.MAX_LIVE_INTERVAL_SECONDS}`,
+    );
+  }
+  return seconds;
+}
+
+/**
+ * Poll live counts until SIGINT/SIGTERM (or once with --once)
+ *
+ * @returns Exit code: failure if the last poll failed
+ */
+async function runLive(
+  config: AppConfig,
+  storage: Storage,
+  devices: DeviceConfig[],
+  values: CliArgs['values'],
+  signal: AbortSignal,
+): Promise<number> {
+  // The live snapshot only covers Telraam segments
+  const poller = new LivePoller({
+    client: createClient(config, signal),
+    storage,
+    devices: devices.filter(isTelraamDevice),
+    intervalSeconds: parseInterval(values.interval, config.liveIntervalSeconds),
+  });
+
+  const succeeded = await poller.run(signal, { once: values.once });
+  return succeeded ? EXIT_CODES.SUCCESS : EXIT_CODES.ERROR;
+}
+
+/**
+ * Select the devices to process: all enabled devices, or the ones named by --device
+ */
+async function selectDevices(
+  registry: DeviceRegistry,
+  filter: string[] | undefined,
+): Promise<DeviceConfig[]> {
+  const ids = (filter ?? []).flatMap((value) => value.split(',')).map((id) => id.trim());
+  if (ids.length === 0) {
+    return registry.loadEnabled();
+  }
+
+  // Explicitly named devices are processed even if they are disabled in the registry
+  const devices = await registry.loadAll();
+  const byId = new Map(devices.map((device) => [device.id, device]));
+  const unknown = ids.filter((id) => !byId.has(id));
+  if (unknown.length > 0) {
+    throw new ConfigError(`Unknown device id(s): ${unknown.join(', ')}`);
+  }
+
+  return [...new Set(ids)].map((id) => byId.get(id)!);
+}
+
+/**
+ * Create a rate-limited API client whose requests stop when the run is cancelled
+ */
+function createClient(config: AppConfig, signal: AbortSignal): TelraamClient {
+  const recorder = config.httpMode
+    ? new HttpRecorder({
+        mode: config.httpMode,
+        fixturesDir: config.httpFixturesDir,
+        apiKey: config.apiKey,
+      })
+    : undefined;
+  if (recorder) {
+    logger.info(
+      recorder.mode === 'replay'
+        ? `Replaying API responses from ${config.httpFixturesDir}`
+        : `Recording API responses to ${config.httpFixturesDir}`,
+    );
+  }
+
+  // Replayed requests never reach the API, so they skip the rate limiter
+  const rateLimiter =
+    recorder?.mode === 'replay'
+      ? undefined
+      : new RateLimiter({
+          requestsPerSecond: config.requestsPerSecond,
+          requestsPerMinute: config.requestsPerMinute,
+        });
+  return new TelraamClient(config.apiUrl, config.apiKey, {
+    rateLimiter,
+    signal,
+    retryBudget: config.retryBudget,
+    recorder,
+  });
+}
+
+/**
+ * Persist the run report and log the footer for collection-style commands
+ *
+ * @returns Exit code: failure if any device failed
+ */
+async function finishRun(
+  command: Command,
+  summary: CollectionSummary,
+  client: TelraamClient,
+  storage: Storage,
+  config: AppConfig,
+  startTime: Date,
+): Promise<number> {
+  const report = buildRunReport(command, summary, storage.getMonthChanges(), client);
+  await storage.appendRunReport(report, config.runHistoryLimit);
+
+  const endTime = new Date();
+  const details = {
+    endTime: endTime.toISOString(),
+    durationSeconds: (endTime.getTime() - startTime.getTime()) / 1000,
+    pointsAdded: report.totals.pointsAdded,
+    pointsReplaced: report.totals.pointsReplaced,
+    apiRequests: report.totals.requests,
+    retries: report.totals.retries,
+    retryDecisions: report.retryDecisions,
+  };
+
+  if (!report.success) {
+    logger.error(`${command} completed with ${summary.failedDevices} error(s)`, details);
+    return EXIT_CODES.ERROR;
+  }
+
+  logger.info(`${command} completed successfully`, details);
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Print what a dry run would have changed on disk
+ */
+function logChangePreview(preview: MonthChanges[]): void {
+  if (preview.length === 0) {
+    logger.info('Dry run: no data files would change');
+    return;
+  }
+
+  logger.info(`Dry run: changes that would be written (${preview.length} month file(s)):`);
+  for (const entry of preview) {
+    const days =
+      entry.shiftedDays.length > 0
+        ? `daily totals shift on ${entry.shiftedDays.join(', ')}`
+        : 'no daily totals shift';
+    logger.info(
+      `  Device ${entry.deviceId}, ${entry.month}: ${entry.added} added, ${entry.replaced} replaced, ${entry.unchanged} unchanged; ${days}`,
+    );
+  }
+}
+
+/**
+ * Regenerate daily files and weekly, monthly and yearly aggregates from hourly files for the selected devices
+ */
+async function runRebuild(
+  storage: Storage,
+  devices: DeviceConfig[],
+  range: DateRange | undefined,
+): Promise<void> {
+  const firstMonth = range ? extractMonth(range.start.toISOString()) : undefined;
+  const lastMonth = range
+    ? extractMonth(new Date(range.end.getTime() - 1).toISOString())
+    : undefined;
+  let rebuiltMonths = 0;
+
+  for (const device of devices) {
+    // Local days at the edges of an hourly (UTC) month can fall into the neighbouring month
+    const hourlyMonths = await storage.listHourlyMonths(device.id);
+    const months = [
+      ...new Set(
+        hourlyMonths.flatMap((month) => [shiftMonth(month, -1), month, shiftMonth(month, 1)]),
+      ),
+    ]
+      .sort()
+      .filter(
+        (month) => (!firstMonth || month >= firstMonth) && (!lastMonth || month <= lastMonth),
+      );
+
+    for (const month of months) {
+      if ((await storage.rebuildDailyData(device.id, month)) > 0) {
+        rebuiltMonths++;
+      }
+    }
+    await storage.rebuildAggregateData(device.id);
+  }
+
+  logger.info(
+    `Rebuilt daily data for ${rebuiltMonths} month(s) across ${devices.length} device(s)`,
+  );
+}
+
+/**
+ * Export stored records to a file or stdout
+ */
+async function runExport(
+  storage: Storage,
+  devices: DeviceConfig[],
+  range: DateRange | undefined,
+  values: CliArgs['values'],
+): Promise<void> {
+  const exporter = new DataExporter(storage);
+
+  if (values.publish) {
+    if (values.output || range) {
+      throw new ConfigError(
+        '--publish writes whole months; it cannot be combined with --output, --from or --to',
+      );
+    }
+    const levels: ExportLevel[] = values.level
+      ? [parseChoice<ExportLevel>(values.level, ['hourly', 'daily'], 'daily', 'level')]
+      : ['hourly', 'daily'];
+    const formats: TableFormat[] = values.format
+      ? [parseChoice<TableFormat>(values.format, ['csv', 'parquet'], 'csv', 'format')]
+      : ['csv', 'parquet'];
+    await exporter.publish(devices, levels, formats);
+    return;
+  }
+
+  const level = parseChoice<ExportLevel>(values.level, ['hourly', 'daily'], 'daily', 'level');
+  const format = parseChoice<ExportFormat>(
+    values.format,
+    ['ndjson', 'json', 'csv', 'parquet'],
+    'ndjson',
+    'format',
+  );
+
+  if (!values.output) {
+    await exporter.export(devices, { level, format, range }, process.stdout);
+    return;
+  }
+
+  // Parquet is binary; the encoding only applies to string writes
+  const output = createWriteStream(values.output, { encoding: FILESYSTEM.ENCODING });
+  await exporter.export(devices, { level, format, range }, output);
+  output.end();
+  await finished(output);
+  logger.info(`Export written to ${values.output}`);
+}
+
+/**
+ * Import telraam.net CSV exports for a single device
+ */
+async function runImport(
+  storage: Storage,
+  devices: DeviceConfig[],
+  files: string[],
+  values: CliArgs['values'],
+): Promise<void> {
+  if (files.length === 0 || devices.length !== 1 || !values.device) {
+    throw new ConfigError('Usage: import <file.csv...> --device <id>');
+  }
+  if (values.timezone !== undefined && !isValidTimeZone(values.timezone)) {
+    throw new ConfigError(`Invalid --timezone: ${values.timezone}`);
+  }
+
+  await new CsvImporter(storage).importFiles(devices[0], files, { timeZone: values.timezone });
+}
+
+/**
+ * Rebuild the SQLite database from the JSON data tree
+ */
+async function runSync(config: AppConfig, storage: Storage, dryRun: boolean): Promise<void> {
+  const database = await SqliteStore.open(config.sqlitePath, { dryRun });
+  try {
+    await new SqliteSync(storage, database).sync();
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Rewrite month files in the configured compression
+ * Without --device, every device directory is converted, including devices no longer in the registry.
+ */
+async function runMigrate(
+  storage: Storage,
+  devices: DeviceConfig[],
+  values: CliArgs['values'],
+): Promise<void> {
+  const deviceIds = values.device
+    ? devices.map((device) => device.id)
+    : await storage.listStoredDeviceIds();
+
+  let files = 0;
+  for (const deviceId of deviceIds) {
+    files += await storage.migrateMonthFiles(deviceId);
+  }
+  logger.info(`Migrated ${files} month file(s) across ${deviceIds.length} device(s)`);
+}
+
+/**
+ * Run the dispatched command
+ *
+ * @returns Exit code
+ */
+async function runCommand(args: CliArgs, config: AppConfig, signal: AbortSignal): Promise<number> {
+  const { command, values } = args;
+  const startTime = new Date();
+  const dryRun = values['dry-run'] ?? false;
+  const registry = new DeviceRegistry(config.deviceRegistryPath);
+  const range = RANGE_COMMANDS.includes(command)
+    ? parseDateRange(values.from, values.to)
+    : undefined;
+
+  logger.info('Starting Telraam Data Collector', {
+    startTime: startTime.toISOString(),
+    command,
+    dataDir: config.dataDir,
+    deviceRegistry: config.deviceRegistryPath,
+    dryRun,
+  });
+
+  if (command === 'discover') {
+    const discovery = new DeviceDiscovery({
+      client: createClient(config, signal),
+      devices: await registry.loadAll(),
+    });
+    const report = await discovery.discover(await parseDiscoveryArea(values), {
+      location: values.location,
+    });
+
+    if (values.write && report.newDevices.length > 0) {
+      if (dryRun) {
+        logger.info(`Dry run: would add ${report.newDevices.length} device(s) to the registry`);
+      } else {
+        await registry.addDevices(report.newDevices);
+      }
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const devices = await selectDevices(registry, values.device);
+  logger.info(`Selected ${devices.length} device(s) from ${config.deviceRegistryPath}`);
+
+  const storage = new Storage(config.dataDir, {
+    dryRun,
+    compression: config.compression,
+    speedThresholds: config.speedThresholds,
+    // Registry time zones decide where daily totals are cut
+    devices: await registry.loadAll(),
+  });
+
+  // Dry runs write nothing, so they run without the lock
+  const writesDataDir =
+    LOCKED_COMMANDS.includes(command) || (command === 'export' && values.publish === true);
+  const lock = writesDataDir && !dryRun ? new DataDirLock(config.dataDir) : undefined;
+  if (lock) {
+    await lock.acquire(command);
+  }
+
+  try {
+    if (lock) {
+      // Nothing else writes while the lock is held, so leftovers of a crashed run can be settled
+      await storage.recoverInterruptedWrites();
+    }
+    if (config.storageBackend === 'sqlite' && WRITING_COMMANDS.includes(command)) {
+      await storage.openDatabase(config.sqlitePath);
+    }
+    return await runDeviceCommand(command, args, config, storage, devices, range, signal);
+  } finally {
+    try {
+      // Save the SQLite mirror before other processes may write again
+      await storage.close();
+    } finally {
+      await lock?.release();
+    }
+    if (signal.aborted && command !== 'live') {
+      logger.warn(
+        `${signal.reason instanceof Error ? signal.reason.message : 'Run cancelled'}; data saved so far is kept, run again to continue`,
+      );
+    }
+    if (dryRun && WRITING_COMMANDS.includes(command)) {
+      logChangePreview(storage.getMonthChanges());
+    }
+  }
+}
+
+/**
+ * Run a command that operates on the selected registry devices
+ *
+ * @returns Exit code
+ */
+async function runDeviceCommand(
+  command: Exclude<Command, 'discover'>,
+  args: CliArgs,
+  config: AppConfig,
+  storage: Storage,
+  devices: DeviceConfig[],
+  range: DateRange | undefined,
+  signal: AbortSignal,
+): Promise<number> {
+  const { positionals, values } = args;
+  const startTime = new Date();
+
+  switch (command) {
+    case 'collect': {
+      const maxRangeMs = COLLECTION.MAX_DAYS_TO_FETCH * 24 * 60 * 60 * 1000;
+      if (range && range.end.getTime() - range.start.getTime() > maxRangeMs) {
+        throw new ConfigError(
+          `collect --from/--to spans more than ${COLLECTION.MAX_DAYS_TO_FETCH} days; use backfill instead`,
+        );
+      }
+
+      const client = createClient(config, signal);
+      const collector = new DataCollector({
+        client,
+        storage,
+        devices,
+        daysToFetch: config.daysToFetch,
+        concurrency: config.concurrency,
+        overlapHours: config.overlapHours,
+        dateRange: range,
+      });
+      const summary = await collector.collectAllDevices();
+      return finishRun(command, summary, client, storage, config, startTime);
+    }
+
+    case 'backfill': {
+      const start = parseBackfillStart(positionals[0] ?? values.from);
+      const end = parseBackfillEnd(values.to);
+      if (start instanceof Date && end && start >= end) {
+        throw new ConfigError('The backfill start must be before --to');
+      }
+      const client = createClient(config, signal);
+      const backfiller = new Backfiller({
+        client,
+        storage,
+        devices,
+        concurrency: config.concurrency,
+      });
+      const summary = await backfiller.backfillAllDevices(start, end);
+      return finishRun(command, summary, client, storage, config, startTime);
+    }
+
+    case 'rebuild':
+      await runRebuild(storage, devices, range);
+      return EXIT_CODES.SUCCESS;
+
+    case 'validate': {
+      const report = await new DataValidator(storage).validateDevices(devices);
+      return report.issues.length > 0 ? EXIT_CODES.ERROR : EXIT_CODES.SUCCESS;
+    }
+
+    case 'export':
+      await runExport(storage, devices, range, values);
+      return EXIT_CODES.SUCCESS;
+
+    case 'import':
+      await runImport(storage, devices, positionals, values);
+      return EXIT_CODES.SUCCESS;
+
+    case 'sync':
+      await runSync(config, storage, values['dry-run'] ?? false);
+      return EXIT_CODES.SUCCESS;
+
+    case 'migrate':
+      await runMigrate(storage, devices, values);
+      return EXIT_CODES.SUCCESS;
+
+    case 'live':
+      return runLive(config, storage, devices, values, signal);
+  }
+}
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments after the script name
+ * @param env - Environment to read configuration from
+ * @returns Exit code: 0 on success, 1 on collection or data failures, 2 on configuration errors
+ */
+export async function runCli(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<number> {
+  try {
+    const args = parseCli(argv);
+
+    if (args.values.help) {
+      process.stdout.write(HELP_TEXT);
+      return EXIT_CODES.SUCCESS;
+    }
+
+    const logLevel = args.values['log-level'];
+    if (logLevel !== undefined) {
+      if (!isLogLevel(logLevel)) {
+        throw new ConfigError(`Invalid --log-level: ${logLevel}`);
+      }
+      setLogLevel(logLevel);
+    }
+
+    // Keep stdout clean for exported records
+    if (args.command === 'export' && !args.values.output && !args.values.publish) {
+      routeLogsToStderr();
+    }
+
+    const config = loadConfig(env, {
+      requireApiKey: !OFFLINE_COMMANDS.includes(args.command),
+    });
+    config.dataDir = args.values['data-dir'] ?? config.dataDir;
+    config.deviceRegistryPath = args.values.registry ?? config.deviceRegistryPath;
+    config.compression = parseChoice<JsonCompression>(
+      args.values.compression,
+      FILESYSTEM.COMPRESSION_MODES,
+      config.compression,
+      'compression',
+    );
+
+    // Offline commands only touch local files and keep Node's default signal handling
+    if (OFFLINE_COMMANDS.includes(args.command)) {
+      return await runCommand(args, config, new AbortController().signal);
+    }
+
+    // Live polling runs until stopped, so only the other commands get a deadline
+    const cancellation = createRunCancellation(
+      args.command === 'live' ? 0 : config.runDeadlineMinutes * 60_000,
+    );
+    try {
+      return await runCommand(args, config, cancellation.signal);
+    } finally {
+      cancellation.dispose();
+    }
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error(`Configuration error: ${error.message}`);
+      logger.error('Run with --help for usage');
+      return EXIT_CODES.CONFIG_ERROR;
+    }
+
+    logger.error('Run failed', error instanceof Error ? error : { error });
+    return EXIT_CODES.ERROR;
+  }
+}
@@ -7,15 +7,26 @@
 
 import { TelraamClient, TelraamApiError } from './telraamClient.js';
 import { Storage } from './services/index.js';
+import { BaselineRefresher } from './baselineRefresher.js';
+import { MetadataEnricher } from './metadataEnricher.js';
+import { createTrafficSource, isTelraamDevice } from './sources/index.js';
 import type {
+  CollectionState,
+  DateRange,
   DeviceConfig,
   DeviceMetadata,
-  MonthlyData,
   CollectionResult,
   CollectionSummary,
   TrafficDataPoint,
 } from './types.js';
-import { calculateDateRange, createLogger, LOG_NAMESPACES } from './utils/index.js';
+import {
+  calculateIncrementalRange,
+  COLLECTION,
+  createLogger,
+  LOG_NAMESPACES,
+  mapWithConcurrency,
+  resolveHighWaterMark,
+} from './utils/index.js';
 
 const logger = createLogger(LOG_NAMESPACES.COLLECTOR);
 
@@ -29,73 +40,78 @@ export interface CollectorConfig {
   storage: Storage;
   /** List of devices to collect data for */
   devices: DeviceConfig[];
-  /** Number of days to fetch (counting back from today) */
+  /** Number of days to fetch (counting back from today) for devices without a high-water mark */
   daysToFetch: number;
-  /** Delay between device requests in milliseconds */
-  requestDelayMs: number;
+  /** Maximum number of devices collected concurrently */
+  concurrency: number;
+  /** Hours re-fetched before each device's high-water mark to pick up late revisions */
+  overlapHours: number;
+  /** Fixed range to collect instead of each device's incremental range (leaves high-water marks untouched) */
+  dateRange?: DateRange;
 }
 
 /**
- * Manages data collection for multiple Telraam devices
+ * Manages data collection for multiple devices
  */
 export class DataCollector {
   private readonly client: TelraamClient;
   private readonly storage: Storage;
   private readonly devices: DeviceConfig[];
   private readonly daysToFetch: number;
-  private readonly requestDelayMs: number;
+  private readonly concurrency: number;
+  private readonly overlapHours: number;
+  private readonly dateRange?: DateRange;
+  private readonly metadataEnricher: MetadataEnricher;
+  private readonly baselineRefresher: BaselineRefresher;
 
   constructor(config: CollectorConfig) {
     this.client = config.client;
+    this.metadataEnricher = new MetadataEnricher(config.client);
     this.storage = config.storage;
+    this.baselineRefresher = new BaselineRefresher(config.client, config.storage);
     this.devices = config.devices;
     this.daysToFetch = config.daysToFetch;
-    this.requestDelayMs = config.requestDelayMs;
+    this.concurrency = config.concurrency;
+    this.overlapHours = config.overlapHours;
+    this.dateRange = config.dateRange;
   }
 
   /**
    * Collect data for all configured devices
-   * @throws {Error} If any device collection fails
+   *
+   * Device failures are isolated and reported in the summary (`failedDevices`)
    */
   async collectAllDevices(): Promise<CollectionSummary> {
     const startTime = new Date();
 
     logger.info(`Starting data collection for ${this.devices.length} devices`);
-    logger.info(`Fetching last ${this.daysToFetch} days of data`);
-    if (this.requestDelayMs > 0) {
-      logger.info(`Request delay: ${this.requestDelayMs}ms between devices`);
+    if (this.dateRange) {
+      logger.info(
+        `Fetching fixed range ${this.dateRange.start.toISOString()} to ${this.dateRange.end.toISOString()}`,
+      );
+    } else {
+      logger.info(
+        `Fetching from each device's high-water mark (overlap ${this.overlapHours}h, initial window ${this.daysToFetch} days)`,
+      );
     }
+    logger.info(`Concurrency: ${this.concurrency} device(s) at a time`);
 
-    const results: CollectionResult[] = [];
-    const deviceMetadata: DeviceMetadata[] = [];
     const existingMetadata = await this.storage.loadDeviceMetadata();
     const previousMetadataById = new Map(existingMetadata.map((meta) => [meta.id, meta]));
+    const collectionState = await this.storage.loadCollectionState();
 
-    for (let i = 0; i < this.devices.length; i++) {
-      const device = this.devices[i];
-      const result = await this.collectSingleDevice(device);
-      results.push(result);
-
-      const totalStoredPoints = await this.storage.getTotalHourlyDataPoints(device.id);
+    const collected = await mapWithConcurrency(this.devices, this.concurrency, (device) =>
+      this.processDevice(device, collectionState, previousMetadataById.get(device.id)),
+    );
 
-      // Create metadata entry
-      deviceMetadata.push({
-        id: device.id,
-        name: device.name,
-        location: device.location,
-        lastUpdated:
-          result.lastUpdated ??
-          previousMetadataById.get(device.id)?.lastUpdated ??
-          new Date().toISOString(),
-        totalDataPoints: totalStoredPoints,
-      });
+    const results: CollectionResult[] = collected.map((entry) => entry.result);
+    const collectedIds = new Set(this.devices.map((device) => device.id));
 
-      // Add delay between devices (except after the last one)
-      if (i < this.devices.length - 1 && this.requestDelayMs > 0) {
-        logger.debug(`Waiting ${this.requestDelayMs}ms before next device...`);
-        await this.delay(this.requestDelayMs);
-      }
-    }
+    // Keep metadata of devices outside this run (a --device selection, or retired devices whose data stays published)
+    const deviceMetadata: DeviceMetadata[] = [
+      ...collected.map((entry) => entry.metadata),
+      ...existingMetadata.filter((meta) => !collectedIds.has(meta.id)),
+    ];
 
     // Save device metadata
     await this.storage.saveDeviceMetadata(deviceMetadata);
@@ -107,24 +123,116 @@ export class DataCollector {
     // Report results
     this.logSummary(summary);
 
-    // Throw if any device failed
-    if (summary.failedDevices > 0) {
-      throw new Error(`Collection completed with ${summary.failedDevices} error(s)`);
-    }
-
     return summary;
   }
 
+  /**
+   * Collect a device, persist its new high-water mark and build its metadata entry
+   * Any error, including one while saving, fails only this device.
+   */
+  private async processDevice(
+    device: DeviceConfig,
+    collectionState: CollectionState,
+    previousMetadata: DeviceMetadata | undefined,
+  ): Promise<{ result: CollectionResult; metadata: DeviceMetadata }> {
+    try {
+      const previousMark = collectionState.devices[device.id]?.lastCompleteHour;
+      // Refresh the baseline first so the daily entries saved below are compared against it
+      await this.baselineRefresher.refresh(device);
+      const result = await this.collectSingleDevice(device, previousMark);
+
+      // Persist progress right away so an interrupted run keeps what it already saved
+      if (
+        !this.dateRange &&
+        result.success &&
+        result.lastCompleteHour &&
+        result.lastCompleteHour !== previousMark
+      ) {
+        await this.updateCollectionState(collectionState, device.id, result.lastCompleteHour);
+      }
+
+      const totalStoredPoints = await this.storage.getTotalHourlyDataPoints(device.id);
+      // Segment and camera details only exist for Telraam devices
+      const apiMetadata = isTelraamDevice(device)
+        ? await this.metadataEnricher.refresh(device, previousMetadata)
+        : {};
+
+      // Create metadata entry
+      const metadata: DeviceMetadata = {
+        id: device.id,
+        name: device.name,
+        location: device.location,
+        source: device.source,
+        lastUpdated:
+          result.lastUpdated ?? previousMetadata?.lastUpdated ?? new Date().toISOString(),
+        totalDataPoints: totalStoredPoints,
+        ...apiMetadata,
+      };
+
+      return { result, metadata };
+    } catch (error) {
+      const errorMessage = this.formatError(error);
+      logger.error(`Failed to process device ${device.id}: ${errorMessage}`);
+
+      return {
+        result: {
+          deviceId: device.id,
+          success: false,
+          dataPointsCollected: 0,
+          error: errorMessage,
+        },
+        metadata: {
+          ...previousMetadata,
+          id: device.id,
+          name: device.name,
+          location: device.location,
+          source: device.source,
+          lastUpdated: previousMetadata?.lastUpdated ?? new Date().toISOString(),
+          totalDataPoints: previousMetadata?.totalDataPoints ?? 0,
+        },
+      };
+    }
+  }
+
   /**
    * Collect data for a single device
    */
-  private async collectSingleDevice(device: DeviceConfig): Promise<CollectionResult> {
+  private async collectSingleDevice(
+    device: DeviceConfig,
+    previousMark: string | undefined,
+  ): Promise<CollectionResult> {
     logger.info(`Processing device: ${device.name} (${device.id})`);
 
     try {
-      const dateRange = calculateDateRange(this.daysToFetch);
-      const dataPoints = await this.client.fetchTrafficData(device.id, dateRange);
+      const requestedAt = new Date();
+      const dateRange =
+        this.dateRange ??
+        calculateIncrementalRange(
+          previousMark,
+          {
+            overlapHours: this.overlapHours,
+            fallbackDays: device.daysToFetch ?? this.daysToFetch,
+            maxDays: COLLECTION.MAX_DAYS_TO_FETCH,
+          },
+          requestedAt,
+        );
+      if (previousMark && !this.dateRange) {
+        logger.debug(`High-water mark for device ${device.id}: ${previousMark}`);
+      }
+
+      if (device.quarterHour) {
+        return await this.collectQuarterHours(device, dateRange, previousMark, requestedAt);
+      }
+
+      const source = createTrafficSource(device, this.client);
+      const dataPoints = await source.fetchHourlyData(device, dateRange);
       const lastDataTimestamp = this.getLatestDataTimestamp(dataPoints);
+      const lastCompleteHour = resolveHighWaterMark(
+        previousMark,
+        lastDataTimestamp,
+        dateRange,
+        requestedAt,
+      );
 
       if (dataPoints.length === 0) {
         logger.warn(`No data returned for device ${device.id}`);
@@ -133,17 +241,19 @@ export class DataCollector {
           success: true,
           dataPointsCollected: 0,
           lastUpdated: lastDataTimestamp,
+          lastCompleteHour,
         };
       }
 
       // Group data by month and save
-      const totalPoints = await this.saveDeviceData(device.id, dataPoints);
+      const totalPoints = await this.storage.saveDeviceData(device.id, dataPoints);
 
       return {
         deviceId: device.id,
         success: true,
         dataPointsCollected: totalPoints,
         lastUpdated: lastDataTimestamp,
+        lastCompleteHour,
       };
     } catch (error) {
       const errorMessage = this.formatError(error);
@@ -159,27 +269,54 @@ export class DataCollector {
   }
 
   /**
-   * Save device data grouped by month
+   * Collect quarter-hour data for a device that opted into the advanced tier
+   *
+   * The high-water mark follows the rolled-up hourly points, so an hour whose
+   * quarters are not all reported yet is fetched again on the next run.
    */
-  private async saveDeviceData(deviceId: string, dataPoints: TrafficDataPoint[]): Promise<number> {
-    const monthlyDataMap = this.storage.groupDataByMonth(dataPoints);
-
-    let totalPoints = 0;
-    for (const [month, monthData] of monthlyDataMap.entries()) {
-      const monthlyData: MonthlyData = {
-        device_id: deviceId,
-        month,
-        data: monthData,
-        lastUpdated: new Date().toISOString(),
-      };
-
-      await this.storage.saveMonthlyData(deviceId, monthlyData);
-      const dailyEntries = this.storage.buildDailyEntries(monthData);
-      await this.storage.saveDailyData(deviceId, month, dailyEntries);
-      totalPoints += monthData.length;
+  private async collectQuarterHours(
+    device: DeviceConfig,
+    dateRange: DateRange,
+    previousMark: string | undefined,
+    requestedAt: Date,
+  ): Promise<CollectionResult> {
+    const quarterPoints = await this.client.fetchQuarterHourData(device.id, dateRange);
+    const hourlyPoints =
+      quarterPoints.length > 0
+        ? await this.storage.saveQuarterHourData(device.id, quarterPoints)
+        : [];
+
+    if (quarterPoints.length === 0) {
+      logger.warn(`No quarter-hour data returned for device ${device.id}`);
     }
 
-    return totalPoints;
+    const lastDataTimestamp = this.getLatestDataTimestamp(hourlyPoints);
+    return {
+      deviceId: device.id,
+      success: true,
+      dataPointsCollected: quarterPoints.length,
+      lastUpdated: lastDataTimestamp,
+      lastCompleteHour: resolveHighWaterMark(
+        previousMark,
+        lastDataTimestamp,
+        dateRange,
+        requestedAt,
+      ),
+    };
+  }
+
+  /**
+   * Record a device's new high-water mark and persist the collection state
+   */
+  private async updateCollectionState(
+    state: CollectionState,
+    deviceId: string,
+    lastCompleteHour: string,
+  ): Promise<void> {
+    const timestamp = new Date().toISOString();
+    state.devices[deviceId] = { lastCompleteHour, lastRunAt: timestamp };
+    state.lastUpdated = timestamp;
+    await this.storage.saveCollectionState(state);
   }
 
   /**
@@ -265,11 +402,4 @@ export class DataCollector {
     }
     return String(error);
   }
-
-  /**
-   * Delay execution for a specified number of milliseconds
-   */
-  private async delay(ms: number): Promise<void> {
-    await new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
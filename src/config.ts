@@ -1,82 +1,217 @@
-import { DeviceConfig } from './types.js';
-import { API, COLLECTION, FILESYSTEM } from './utils/constants.js';
-import { validateConfiguration } from './utils/validation.js';
+import type { HttpMode, JsonCompression, StorageBackend } from './types.js';
+import { API, COLLECTION, DEVICE_REGISTRY, FILESYSTEM, SPEED, SQLITE } from './utils/constants.js';
+import { ConfigError, validateConfiguration } from './utils/validation.js';
 
 export interface AppConfig {
   apiUrl: string;
   apiKey: string;
   dataDir: string;
+  deviceRegistryPath: string;
   daysToFetch: number;
-  requestDelayMs: number;
+  overlapHours: number;
+  concurrency: number;
+  requestsPerSecond: number;
+  requestsPerMinute: number;
+  runHistoryLimit: number;
+  liveIntervalSeconds: number;
+  runDeadlineMinutes: number;
+  retryBudget: number;
+  /** Record or replay API responses (undefined: plain live requests) */
+  httpMode?: HttpMode;
+  httpFixturesDir: string;
+  /** 'sqlite' mirrors every write into the SQLite database as well */
+  storageBackend: StorageBackend;
+  sqlitePath: string;
+  /** How month files are written: plain JSON, gzip-compressed or both */
+  compression: JsonCompression;
+  /** Speeds (km/h) daily totals report the share of faster cars for */
+  speedThresholds: number[];
 }
 
-function resolveDaysToFetch(envValue: string | undefined): number {
+/**
+ * Parse an integer environment value and clamp it to [min, max]
+ */
+function resolveBoundedInt(
+  envValue: string | undefined,
+  min: number,
+  max: number,
+  fallback: number,
+): number {
   const parsed = envValue ? Number.parseInt(envValue, 10) : Number.NaN;
   if (Number.isFinite(parsed)) {
-    return Math.min(Math.max(parsed, COLLECTION.MIN_DAYS_TO_FETCH), COLLECTION.MAX_DAYS_TO_FETCH);
+    return Math.min(Math.max(parsed, min), max);
   }
-  return COLLECTION.DEFAULT_DAYS_TO_FETCH;
+  return fallback;
 }
 
-function resolveRequestDelay(envValue: string | undefined): number {
-  const parsed = envValue ? Number.parseInt(envValue, 10) : Number.NaN;
-  if (Number.isFinite(parsed)) {
-    return Math.min(
-      Math.max(parsed, COLLECTION.MIN_REQUEST_DELAY_MS),
-      COLLECTION.MAX_REQUEST_DELAY_MS,
+function resolveDaysToFetch(envValue: string | undefined): number {
+  return resolveBoundedInt(
+    envValue,
+    COLLECTION.MIN_DAYS_TO_FETCH,
+    COLLECTION.MAX_DAYS_TO_FETCH,
+    COLLECTION.DEFAULT_DAYS_TO_FETCH,
+  );
+}
+
+function resolveOverlapHours(envValue: string | undefined): number {
+  return resolveBoundedInt(
+    envValue,
+    COLLECTION.MIN_OVERLAP_HOURS,
+    COLLECTION.MAX_OVERLAP_HOURS,
+    COLLECTION.DEFAULT_OVERLAP_HOURS,
+  );
+}
+
+function resolveConcurrency(envValue: string | undefined): number {
+  return resolveBoundedInt(
+    envValue,
+    COLLECTION.MIN_CONCURRENCY,
+    COLLECTION.MAX_CONCURRENCY,
+    COLLECTION.DEFAULT_CONCURRENCY,
+  );
+}
+
+function resolveRunHistoryLimit(envValue: string | undefined): number {
+  return resolveBoundedInt(
+    envValue,
+    COLLECTION.MIN_RUN_HISTORY_LIMIT,
+    COLLECTION.MAX_RUN_HISTORY_LIMIT,
+    COLLECTION.DEFAULT_RUN_HISTORY_LIMIT,
+  );
+}
+
+function resolveLiveInterval(envValue: string | undefined): number {
+  return resolveBoundedInt(
+    envValue,
+    COLLECTION.MIN_LIVE_INTERVAL_SECONDS,
+    COLLECTION.MAX_LIVE_INTERVAL_SECONDS,
+    COLLECTION.DEFAULT_LIVE_INTERVAL_SECONDS,
+  );
+}
+
+function resolveRunDeadline(envValue: string | undefined): number {
+  return resolveBoundedInt(
+    envValue,
+    0,
+    COLLECTION.MAX_RUN_DEADLINE_MINUTES,
+    COLLECTION.DEFAULT_RUN_DEADLINE_MINUTES,
+  );
+}
+
+function resolveRetryBudget(envValue: string | undefined): number {
+  return resolveBoundedInt(envValue, 0, API.RETRY.MAX_RUN_BUDGET, API.RETRY.DEFAULT_RUN_BUDGET);
+}
+
+function resolveHttpMode(envValue: string | undefined): HttpMode | undefined {
+  if (!envValue) {
+    return undefined;
+  }
+  if (envValue === 'record' || envValue === 'replay') {
+    return envValue;
+  }
+  throw new ConfigError(`Invalid TELRAAM_HTTP_MODE: ${envValue} (expected record or replay)`);
+}
+
+function resolveStorageBackend(envValue: string | undefined): StorageBackend {
+  if (!envValue) {
+    return 'json';
+  }
+  if ((SQLITE.BACKENDS as readonly string[]).includes(envValue)) {
+    return envValue as StorageBackend;
+  }
+  throw new ConfigError(
+    `Invalid TELRAAM_STORAGE_BACKEND: ${envValue} (expected ${SQLITE.BACKENDS.join(' or ')})`,
+  );
+}
+
+function resolveCompression(envValue: string | undefined): JsonCompression {
+  if (!envValue) {
+    return 'none';
+  }
+  if ((FILESYSTEM.COMPRESSION_MODES as readonly string[]).includes(envValue)) {
+    return envValue as JsonCompression;
+  }
+  throw new ConfigError(
+    `Invalid TELRAAM_COMPRESSION: ${envValue} (expected ${FILESYSTEM.COMPRESSION_MODES.join(', ')})`,
+  );
+}
+
+function resolveSpeedThresholds(envValue: string | undefined): number[] {
+  if (!envValue) {
+    return [...SPEED.DEFAULT_THRESHOLDS];
+  }
+  const thresholds = envValue.split(',').map((value) => Number(value.trim()));
+  if (thresholds.some((threshold) => !Number.isFinite(threshold) || threshold <= 0)) {
+    throw new ConfigError(
+      `Invalid TELRAAM_SPEED_THRESHOLDS: ${envValue} (expected comma-separated speeds in km/h, e.g. 30,50)`,
     );
   }
-  return COLLECTION.DEFAULT_REQUEST_DELAY_MS;
-}
-
-export const devices: DeviceConfig[] = [
-  {
-    id: '9000008311',
-    name: 'Telraam 9000008311',
-    location: 'Karlsruhe, Germany',
-  },
-  {
-    id: '9000008322',
-    name: 'Telraam 9000008322',
-    location: 'Karlsruhe, Germany',
-  },
-  {
-    id: '9000008891',
-    name: 'Telraam 9000008891',
-    location: 'Rheinstetten, Germany',
-  },
-  {
-    id: '9000008652',
-    name: 'Telraam 9000008652',
-    location: 'Rheinstetten, Germany',
-  },
-];
+  return [...new Set(thresholds)].sort((a, b) => a - b);
+}
+
+function resolveRateLimit(envValue: string | undefined, fallback: number): number {
+  return resolveBoundedInt(envValue, 0, API.RATE_LIMIT.MAX_REQUESTS, fallback);
+}
+
+/**
+ * Options for loading configuration
+ */
+export interface LoadConfigOptions {
+  /** Whether a missing API key is an error (commands working offline skip it) */
+  requireApiKey?: boolean;
+}
 
 /**
  * Get configuration from environment
  * This function is called after dotenv.config() to ensure env vars are loaded
+ * @throws {ConfigError} If the configuration is invalid
  */
-export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  options: LoadConfigOptions = {},
+): AppConfig {
   const daysToFetch = resolveDaysToFetch(env.TELRAAM_DAYS_TO_FETCH);
-  const requestDelayMs = resolveRequestDelay(env.TELRAAM_REQUEST_DELAY_MS);
+  const overlapHours = resolveOverlapHours(env.TELRAAM_OVERLAP_HOURS);
+  const httpMode = resolveHttpMode(env.TELRAAM_HTTP_MODE);
 
   const config: AppConfig = {
-    apiUrl: API.BASE_URL,
+    apiUrl: env.TELRAAM_API_URL || API.BASE_URL,
     apiKey: env.TELRAAM_API_KEY || '',
     // Store under docs so GitHub Pages can serve the JSON output from the default docs root
     dataDir: FILESYSTEM.DATA_DIR,
+    deviceRegistryPath: env.TELRAAM_DEVICE_REGISTRY || DEVICE_REGISTRY.DEFAULT_PATH,
     daysToFetch,
-    requestDelayMs,
+    overlapHours,
+    concurrency: resolveConcurrency(env.TELRAAM_CONCURRENCY),
+    requestsPerSecond: resolveRateLimit(
+      env.TELRAAM_RATE_LIMIT_PER_SECOND,
+      API.RATE_LIMIT.DEFAULT_PER_SECOND,
+    ),
+    requestsPerMinute: resolveRateLimit(
+      env.TELRAAM_RATE_LIMIT_PER_MINUTE,
+      API.RATE_LIMIT.DEFAULT_PER_MINUTE,
+    ),
+    runHistoryLimit: resolveRunHistoryLimit(env.TELRAAM_RUN_HISTORY_LIMIT),
+    liveIntervalSeconds: resolveLiveInterval(env.TELRAAM_LIVE_INTERVAL_SECONDS),
+    runDeadlineMinutes: resolveRunDeadline(env.TELRAAM_RUN_DEADLINE_MINUTES),
+    retryBudget: resolveRetryBudget(env.TELRAAM_RETRY_BUDGET),
+    httpMode,
+    httpFixturesDir: env.TELRAAM_HTTP_FIXTURES_DIR || FILESYSTEM.HTTP_FIXTURES_DIR,
+    storageBackend: resolveStorageBackend(env.TELRAAM_STORAGE_BACKEND),
+    sqlitePath: env.TELRAAM_SQLITE_PATH || FILESYSTEM.SQLITE_PATH,
+    compression: resolveCompression(env.TELRAAM_COMPRESSION),
+    speedThresholds: resolveSpeedThresholds(env.TELRAAM_SPEED_THRESHOLDS),
   };
 
+  // Replayed responses need no key
+  const requireApiKey = options.requireApiKey !== false && httpMode !== 'replay';
   const validation = validateConfiguration({
-    apiKey: config.apiKey,
-    devices,
+    apiKey: requireApiKey ? config.apiKey : 'not-required',
     daysToFetch: config.daysToFetch,
   });
 
   if (!validation.valid) {
-    throw new Error(validation.errors.join('; '));
+    throw new ConfigError(validation.errors.join('; '));
   }
 
   return config;
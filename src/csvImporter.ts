@@ -0,0 +1,349 @@
+/**
+ * CSV Importer Module
+ *
+ * Imports CSV exports downloaded from telraam.net, so periods before the
+ * collector ran can be filled in. Imported hours never replace stored ones:
+ * hours already collected from the API are kept and reported as conflicts
+ * when the export disagrees.
+ */
+
+import { FileService, Storage, WriteBatch } from './services/index.js';
+import type { DeviceConfig, MonthlyData, TrafficDataPoint } from './types.js';
+import {
+  createLogger,
+  IMPORT,
+  isValidTimeZone,
+  LOG_NAMESPACES,
+  parseCsv,
+  parseLocalDateTime,
+} from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.IMPORTER);
+
+/**
+ * Layout of a Telraam CSV export
+ * - 'hourly': per-hour totals as shown on the segment page, timestamps in local time
+ * - 'advanced': traffic report columns with directions and speed histograms, timestamps in UTC
+ */
+export type CsvLayout = 'hourly' | 'advanced';
+
+/**
+ * Options for an import
+ */
+export interface ImportOptions {
+  /** Time zone of hourly-layout timestamps without a UTC offset (default: the export's timezone column, then the device's, then UTC) */
+  timeZone?: string;
+}
+
+/**
+ * A row that was not imported
+ */
+export interface SkippedRow {
+  file: string;
+  /** 1-based record number below the header */
+  row: number;
+  reason: string;
+}
+
+/**
+ * An imported hour whose counts differ from the stored hour, which is kept
+ */
+export interface ImportConflict {
+  date: string;
+  /** Differing counts as "field: stored → imported" */
+  differences: string[];
+}
+
+/**
+ * Outcome of importing CSV files for a device
+ */
+export interface ImportReport {
+  deviceId: string;
+  /** Data rows read across all files */
+  rows: number;
+  /** Hours added to the store */
+  imported: number;
+  /** Hours already stored with matching counts */
+  matched: number;
+  conflicts: ImportConflict[];
+  skipped: SkippedRow[];
+}
+
+/** Numeric traffic report columns copied from an export */
+const NUMERIC_FIELDS = [
+  'instance_id',
+  'segment_id',
+  'uptime',
+  'heavy',
+  'car',
+  'bike',
+  'pedestrian',
+  'night',
+  'heavy_lft',
+  'heavy_rgt',
+  'car_lft',
+  'car_rgt',
+  'bike_lft',
+  'bike_rgt',
+  'pedestrian_lft',
+  'pedestrian_rgt',
+  'night_lft',
+  'night_rgt',
+  'direction',
+  'v85',
+] as const satisfies readonly (keyof TrafficDataPoint)[];
+
+/** Speed histogram columns, exported as bracketed lists */
+const HISTOGRAM_FIELDS = [
+  'car_speed_hist_0to70plus',
+  'car_speed_hist_0to120plus',
+] as const satisfies readonly (keyof TrafficDataPoint)[];
+
+/** Counts compared against stored hours to detect conflicts */
+const COMPARED_FIELDS = ['heavy', 'car', 'bike', 'pedestrian'] as const;
+
+/** Columns that only appear in the advanced layout */
+const ADVANCED_COLUMNS = ['car_lft', 'car_rgt', 'instance_id', ...HISTOGRAM_FIELDS];
+
+/**
+ * Imports telraam.net CSV exports through the regular storage pipeline
+ */
+export class CsvImporter {
+  private readonly fileService = new FileService();
+
+  constructor(private readonly storage: Storage) {}
+
+  /**
+   * Import CSV files for a device
+   *
+   * New hours are merged into the hourly files and the daily totals of the
+   * touched days are rebuilt; stored hours are left untouched.
+   */
+  async importFiles(
+    device: DeviceConfig,
+    files: string[],
+    options: ImportOptions = {},
+  ): Promise<ImportReport> {
+    const report: ImportReport = {
+      deviceId: device.id,
+      rows: 0,
+      imported: 0,
+      matched: 0,
+      conflicts: [],
+      skipped: [],
+    };
+    const points = new Map<string, TrafficDataPoint>();
+
+    for (const file of files) {
+      const text = await this.fileService.readText(file, `reading CSV export ${file}`);
+      if (text === null) {
+        throw new Error(`CSV export not found: ${file}`);
+      }
+
+      const records = parseCsv(text, detectSeparator(text)).map(normalizeColumns);
+      const layout = detectLayout(records[0] ?? {});
+      logger.info(`Reading ${records.length} row(s) from ${file} (${layout} layout)`);
+      report.rows += records.length;
+
+      records.forEach((record, index) => {
+        const result = this.toDataPoint(record, layout, device, options);
+        if (typeof result === 'string') {
+          report.skipped.push({ file, row: index + 1, reason: result });
+        } else if (points.has(result.date!)) {
+          report.skipped.push({ file, row: index + 1, reason: `duplicate hour ${result.date}` });
+        } else {
+          points.set(result.date!, result);
+        }
+      });
+    }
+
+    const byMonth = this.storage.groupDataByMonth([...points.values()]);
+
+    for (const [month, monthPoints] of byMonth) {
+      const existing = await this.storage.loadMonthlyData(device.id, month);
+      const stored = new Map((existing?.data ?? []).map((point) => [point.date, point]));
+
+      const newPoints: TrafficDataPoint[] = [];
+      for (const point of monthPoints) {
+        const previous = stored.get(point.date);
+        if (!previous) {
+          newPoints.push(point);
+          continue;
+        }
+
+        const differences = compareCounts(previous, point);
+        if (differences.length === 0) {
+          report.matched++;
+        } else {
+          report.conflicts.push({ date: point.date!, differences });
+        }
+      }
+
+      if (newPoints.length === 0) {
+        continue;
+      }
+
+      const monthlyData: MonthlyData = {
+        device_id: device.id,
+        month,
+        data: newPoints,
+        lastUpdated: new Date().toISOString(),
+      };
+      // Publish the month's hourly and daily files together
+      const batch = new WriteBatch();
+      const merged = await this.storage.saveMonthlyData(device.id, monthlyData, batch);
+      await this.storage.stageDailyData(device.id, newPoints, batch, new Map([[month, merged]]));
+      await this.storage.commit(batch, `importing ${month} for device ${device.id}`);
+      report.imported += newPoints.length;
+    }
+
+    this.logReport(report);
+    return report;
+  }
+
+  /**
+   * Convert a CSV record into an hourly data point, or return why it was skipped
+   */
+  private toDataPoint(
+    record: Record<string, string>,
+    layout: CsvLayout,
+    device: DeviceConfig,
+    options: ImportOptions,
+  ): TrafficDataPoint | string {
+    if (!record.date) {
+      return 'missing date';
+    }
+
+    if (record.interval && record.interval !== 'hourly') {
+      return `interval "${record.interval}" is not hourly`;
+    }
+
+    if (record.timezone && !isValidTimeZone(record.timezone)) {
+      return `invalid timezone "${record.timezone}"`;
+    }
+
+    // The advanced export reports UTC like the API; the hourly export shows local time
+    const timeZone =
+      layout === 'advanced'
+        ? 'UTC'
+        : (options.timeZone ?? (record.timezone || undefined) ?? device.timezone ?? 'UTC');
+    // Complete short offsets such as "+00" to "+00:00"
+    const date = parseLocalDateTime(
+      record.date.replace(/(\d{2}:\d{2}(?::\d{2})?)([+-]\d{2})$/, '$1$2:00'),
+      timeZone,
+    );
+    if (!date) {
+      return `invalid date "${record.date}"`;
+    }
+    if (date.getTime() % IMPORT.MS_PER_HOUR !== 0) {
+      return `date ${date.toISOString()} is not on a full hour`;
+    }
+
+    const point: TrafficDataPoint = { date: date.toISOString(), interval: 'hourly' };
+
+    for (const field of NUMERIC_FIELDS) {
+      const value = record[field];
+      if (value === undefined || value.trim() === '') continue;
+
+      const number = Number(value);
+      if (!Number.isFinite(number) || (field !== 'direction' && number < 0)) {
+        return `invalid ${field} "${value}"`;
+      }
+      point[field] = number;
+    }
+
+    if (point.uptime !== undefined && point.uptime > 1) {
+      return `uptime ${point.uptime} is outside 0-1`;
+    }
+    if (point.segment_id !== undefined && String(point.segment_id) !== device.id) {
+      return `segment ${point.segment_id} is not device ${device.id}`;
+    }
+
+    for (const field of HISTOGRAM_FIELDS) {
+      const value = record[field];
+      if (value === undefined || value.trim() === '') continue;
+
+      const histogram = parseHistogram(value);
+      if (!histogram) {
+        return `invalid ${field}`;
+      }
+      point[field] = histogram;
+    }
+
+    point.timezone = record.timezone || device.timezone;
+    return point;
+  }
+
+  /**
+   * Log the import outcome, listing the first skipped rows and conflicts
+   */
+  private logReport(report: ImportReport): void {
+    logger.info(
+      `Imported ${report.imported} hour(s) for device ${report.deviceId} from ${report.rows} row(s): ${report.matched} already stored, ${report.conflicts.length} conflicting, ${report.skipped.length} skipped`,
+    );
+
+    report.skipped.slice(0, IMPORT.MAX_LOGGED_ROWS).forEach((row) => {
+      logger.warn(`  Skipped ${row.file} row ${row.row}: ${row.reason}`);
+    });
+    if (report.skipped.length > IMPORT.MAX_LOGGED_ROWS) {
+      logger.warn(
+        `  ... and ${report.skipped.length - IMPORT.MAX_LOGGED_ROWS} more skipped row(s)`,
+      );
+    }
+
+    report.conflicts.slice(0, IMPORT.MAX_LOGGED_ROWS).forEach((conflict) => {
+      logger.warn(
+        `  Kept stored data for ${conflict.date}, export differs: ${conflict.differences.join(', ')}`,
+      );
+    });
+    if (report.conflicts.length > IMPORT.MAX_LOGGED_ROWS) {
+      logger.warn(`  ... and ${report.conflicts.length - IMPORT.MAX_LOGGED_ROWS} more conflict(s)`);
+    }
+  }
+}
+
+/**
+ * Use semicolons for exports whose header has no commas (spreadsheet locales)
+ */
+function detectSeparator(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  return header.includes(';') && !header.includes(',') ? ';' : ',';
+}
+
+/**
+ * Lower-case column names and replace spaces and dashes with underscores
+ */
+function normalizeColumns(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record).map(([name, value]) => [
+      name.toLowerCase().replace(/[\s-]+/g, '_'),
+      value.trim(),
+    ]),
+  );
+}
+
+function detectLayout(record: Record<string, string>): CsvLayout {
+  return ADVANCED_COLUMNS.some((column) => column in record) ? 'advanced' : 'hourly';
+}
+
+/**
+ * Parse a speed histogram such as "[1.5, 2, 0]" or "1.5;2;0"
+ */
+function parseHistogram(value: string): number[] | null {
+  const parts = value
+    .replace(/^\[|\]$/g, '')
+    .split(/[\s,;]+/)
+    .filter((part) => part !== '');
+  const histogram = parts.map(Number);
+  return histogram.length > 0 && histogram.every(Number.isFinite) ? histogram : null;
+}
+
+/**
+ * List the exported counts that differ from the stored hour by more than export rounding
+ */
+function compareCounts(stored: TrafficDataPoint, imported: TrafficDataPoint): string[] {
+  return COMPARED_FIELDS.filter((field) => {
+    const value = imported[field];
+    return value !== undefined && Math.abs((stored[field] ?? 0) - value) > IMPORT.COUNT_TOLERANCE;
+  }).map((field) => `${field}: ${stored[field] ?? 0} → ${imported[field]}`);
+}
@@ -0,0 +1,195 @@
+/**
+ * Device Discovery Module
+ *
+ * Finds Telraam segments inside a geographic area, checks which of them have
+ * an active camera, and diffs the result against the configured devices.
+ */
+
+import { TelraamClient } from './telraamClient.js';
+import type {
+  CameraInstance,
+  Coordinates,
+  DeviceConfig,
+  DiscoveredSegment,
+  DiscoveryArea,
+  DiscoveryReport,
+  SegmentFeature,
+  SegmentsAreaRequest,
+} from './types.js';
+import { createLogger, LOG_NAMESPACES } from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.DISCOVERY);
+
+/**
+ * Configuration for device discovery
+ */
+export interface DiscoveryConfig {
+  /** API client instance */
+  client: TelraamClient;
+  /** All registry devices, including disabled ones */
+  devices: DeviceConfig[];
+}
+
+/**
+ * Options for turning discovered segments into device entries
+ */
+export interface DiscoveryOptions {
+  /** Location label for new devices (defaults to the segment centroid) */
+  location?: string;
+}
+
+/**
+ * Discovers Telraam devices in a geographic area
+ */
+export class DeviceDiscovery {
+  private readonly client: TelraamClient;
+  private readonly devices: DeviceConfig[];
+
+  constructor(config: DiscoveryConfig) {
+    this.client = config.client;
+    this.devices = config.devices;
+  }
+
+  /**
+   * List segments in an area and diff active ones against configured devices
+   */
+  async discover(area: DiscoveryArea, options: DiscoveryOptions = {}): Promise<DiscoveryReport> {
+    const features = await this.client.fetchSegmentsInArea(this.buildAreaRequest(area));
+    logger.info(`Found ${features.length} segment(s) in area`);
+
+    if (features.length === 0) {
+      return { segments: [], newDevices: [], inactiveConfigured: [] };
+    }
+
+    const instancesBySegment = this.groupInstancesBySegment(await this.client.fetchAllInstances());
+    const configuredIds = new Set(this.devices.map((device) => device.id));
+
+    const segments = features
+      .map((feature) => this.toDiscoveredSegment(feature, instancesBySegment, configuredIds))
+      .filter((segment): segment is DiscoveredSegment => segment !== null)
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    const newDevices = segments
+      .filter((segment) => segment.active && !segment.configured)
+      .map((segment) => this.toDeviceConfig(segment, options));
+
+    const inactiveConfigured = segments
+      .filter((segment) => !segment.active && segment.configured)
+      .map((segment) => segment.id);
+
+    this.logReport({ segments, newDevices, inactiveConfigured });
+
+    return { segments, newDevices, inactiveConfigured };
+  }
+
+  /**
+   * Build the segments-in-area request body for an area
+   */
+  private buildAreaRequest(area: DiscoveryArea): SegmentsAreaRequest {
+    switch (area.type) {
+      case 'bbox':
+        return { area: area.bbox.join(',') };
+      case 'radius':
+        return { area: `${area.lon},${area.lat},${area.radiusKm}` };
+      case 'polygon':
+        return { polygon: { type: 'Polygon', coordinates: area.coordinates } };
+    }
+  }
+
+  /**
+   * Index camera instances by segment identifier
+   */
+  private groupInstancesBySegment(instances: CameraInstance[]): Map<string, CameraInstance[]> {
+    const map = new Map<string, CameraInstance[]>();
+
+    for (const instance of instances) {
+      if (instance.segment_id === undefined) continue;
+
+      const key = String(instance.segment_id);
+      if (!map.has(key)) {
+        map.set(key, []);
+      }
+      map.get(key)!.push(instance);
+    }
+
+    return map;
+  }
+
+  /**
+   * Convert a segment feature into a discovery entry
+   */
+  private toDiscoveredSegment(
+    feature: SegmentFeature,
+    instancesBySegment: Map<string, CameraInstance[]>,
+    configuredIds: Set<string>,
+  ): DiscoveredSegment | null {
+    const segmentId = feature.properties?.segment_id;
+    if (segmentId === undefined) {
+      return null;
+    }
+
+    const id = String(segmentId);
+    const instances = instancesBySegment.get(id) ?? [];
+    const lastDataPackage = instances
+      .map((instance) => instance.last_data_package)
+      .filter((value): value is string => typeof value === 'string')
+      .sort()
+      .pop();
+
+    return {
+      id,
+      centroid: this.calculateCentroid(feature.geometry?.coordinates ?? []),
+      active: instances.some((instance) => instance.status === 'active'),
+      configured: configuredIds.has(id),
+      lastDataPackage,
+    };
+  }
+
+  /**
+   * Average all vertices of a MultiLineString into a centroid
+   */
+  private calculateCentroid(coordinates: number[][][]): Coordinates {
+    const points = coordinates.flat().filter((point) => point.length >= 2);
+    if (points.length === 0) {
+      return { lat: 0, lon: 0 };
+    }
+
+    const lon = points.reduce((sum, point) => sum + point[0], 0) / points.length;
+    const lat = points.reduce((sum, point) => sum + point[1], 0) / points.length;
+    return { lat, lon };
+  }
+
+  /**
+   * Build a device entry for a newly discovered segment
+   */
+  private toDeviceConfig(segment: DiscoveredSegment, options: DiscoveryOptions): DeviceConfig {
+    const { lat, lon } = segment.centroid;
+    return {
+      id: segment.id,
+      name: `Telraam ${segment.id}`,
+      location: options.location ?? `${lat.toFixed(5)}, ${lon.toFixed(5)}`,
+      coordinates: { lat: Number(lat.toFixed(6)), lon: Number(lon.toFixed(6)) },
+    };
+  }
+
+  /**
+   * Log the discovery diff
+   */
+  private logReport(report: DiscoveryReport): void {
+    const active = report.segments.filter((segment) => segment.active).length;
+    logger.info(`Active segments: ${active}/${report.segments.length}`);
+
+    if (report.newDevices.length === 0) {
+      logger.info('No new active devices found');
+    } else {
+      logger.info(`New active devices (${report.newDevices.length}):`);
+      report.newDevices.forEach((device) => {
+        logger.info(`  + ${device.id} (${device.location})`);
+      });
+    }
+
+    report.inactiveConfigured.forEach((id) => {
+      logger.warn(`  ! Configured device ${id} has no active camera instance`);
+    });
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Data Exporter Module
+ *
+ * Streams stored hourly or daily records for a set of devices and an optional
+ * date range as NDJSON, a JSON array, CSV or Parquet, and publishes CSV and
+ * Parquet tables next to the JSON files.
+ */
+
+import type { Writable } from 'stream';
+import { Storage } from './services/index.js';
+import {
+  buildDailyTable,
+  buildHourlyTable,
+  encodeCsv,
+  encodeParquet,
+  type DeviceRecord,
+  type Table,
+  type TableFormat,
+} from './tabular.js';
+import type { DailyEntry, DateRange, DeviceConfig, TrafficDataPoint } from './types.js';
+import {
+  createLogger,
+  extractMonth,
+  formatCsvRow,
+  getLocalDayRange,
+  LOG_NAMESPACES,
+  shiftMonth,
+} from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.EXPORTER);
+
+/**
+ * Which stored tier to export
+ */
+export type ExportLevel = 'hourly' | 'daily';
+
+/**
+ * Output encoding for exported records
+ */
+export type ExportFormat = 'ndjson' | 'json' | TableFormat;
+
+/**
+ * Options for an export
+ */
+export interface ExportOptions {
+  /** Tier to export */
+  level: ExportLevel;
+  /** Output encoding */
+  format: ExportFormat;
+  /** Only export records inside this range (all stored data if omitted) */
+  range?: DateRange;
+}
+
+/**
+ * Outcome of publishing tables
+ */
+export interface PublishReport {
+  /** Files written (or that would be written in a dry run) */
+  files: string[];
+  /** Rows in the combined tables, per level */
+  rows: Partial<Record<ExportLevel, number>>;
+}
+
+/**
+ * Writes stored device data to an output stream
+ */
+export class DataExporter {
+  constructor(private readonly storage: Storage) {}
+
+  /**
+   * Export records for the given devices
+   *
+   * @returns Number of records written
+   */
+  async export(devices: DeviceConfig[], options: ExportOptions, output: Writable): Promise<number> {
+    if (options.format === 'csv' || options.format === 'parquet') {
+      return this.exportTable(devices, options, output);
+    }
+
+    let count = 0;
+
+    const writeRecord = (record: Record<string, unknown>) => {
+      const line = JSON.stringify(record);
+      if (options.format === 'ndjson') {
+        output.write(`${line}\n`);
+      } else {
+        output.write(`${count === 0 ? '[\n' : ',\n'}  ${line}`);
+      }
+      count++;
+    };
+
+    for (const device of devices) {
+      const months = await this.listMonths(device.id, options);
+
+      for (const month of months) {
+        const records =
+          options.level === 'hourly'
+            ? await this.loadHourlyRecords(device.id, month, options.range)
+            : await this.loadDailyRecords(device.id, month, options.range);
+        records.forEach(writeRecord);
+      }
+    }
+
+    if (options.format === 'json') {
+      output.write(count === 0 ? '[]\n' : '\n]\n');
+    }
+
+    logger.info(`Exported ${count} ${options.level} record(s) for ${devices.length} device(s)`);
+    return count;
+  }
+
+  /**
+   * Write CSV and/or Parquet tables into the data directory
+   *
+   * Per level, the selected devices get a table per month (next to the month's
+   * JSON file) and one with their whole history. The combined table of the
+   * level always covers every device with stored data.
+   */
+  async publish(
+    devices: DeviceConfig[],
+    levels: ExportLevel[],
+    formats: TableFormat[],
+  ): Promise<PublishReport> {
+    const selected = new Set(devices.map((device) => device.id));
+    const report: PublishReport = { files: [], rows: {} };
+
+    const save = async (level: ExportLevel, table: Table, deviceId?: string, month?: string) => {
+      for (const format of formats) {
+        const content = format === 'csv' ? encodeCsv(table) : encodeParquet(table);
+        report.files.push(
+          await this.storage.saveTableFile(level, format, content, { deviceId, month }),
+        );
+      }
+    };
+
+    for (const level of levels) {
+      const combined: DeviceRecord<TrafficDataPoint | DailyEntry>[] = [];
+
+      for (const deviceId of await this.storage.listStoredDeviceIds()) {
+        const history: DeviceRecord<TrafficDataPoint | DailyEntry>[] = [];
+
+        for (const month of await this.listMonths(deviceId, { level })) {
+          const records = await this.loadTableRecords(level, deviceId, month, undefined);
+          if (selected.has(deviceId)) {
+            await save(level, this.buildTable(level, records), deviceId, month);
+          }
+          history.push(...records);
+        }
+
+        if (selected.has(deviceId) && history.length > 0) {
+          await save(level, this.buildTable(level, history), deviceId);
+        }
+        combined.push(...history);
+      }
+
+      await save(level, this.buildTable(level, combined));
+      report.rows[level] = combined.length;
+    }
+
+    logger.info(
+      `Published ${report.files.length} ${formats.join('/')} file(s) for ${selected.size} device(s)`,
+      report.rows,
+    );
+    return report;
+  }
+
+  /**
+   * Export records as one CSV or Parquet table
+   * CSV is streamed month by month; Parquet is written once all rows are loaded.
+   */
+  private async exportTable(
+    devices: DeviceConfig[],
+    options: ExportOptions,
+    output: Writable,
+  ): Promise<number> {
+    const rows: DeviceRecord<TrafficDataPoint | DailyEntry>[] = [];
+    let count = 0;
+
+    for (const device of devices) {
+      for (const month of await this.listMonths(device.id, options)) {
+        const records = await this.loadTableRecords(options.level, device.id, month, options.range);
+
+        if (options.format === 'parquet') {
+          rows.push(...records);
+          continue;
+        }
+
+        const table = this.buildTable(options.level, records);
+        if (count === 0) {
+          output.write(`${formatCsvRow(table.columns.map((column) => column.name))}\n`);
+        }
+        for (const row of table.rows) {
+          output.write(`${formatCsvRow(row)}\n`);
+        }
+        count += table.rows.length;
+      }
+    }
+
+    if (options.format === 'parquet') {
+      output.write(encodeParquet(this.buildTable(options.level, rows)));
+      count = rows.length;
+    } else if (count === 0) {
+      // Keep the header so empty exports still load with the expected columns
+      output.write(encodeCsv(this.buildTable(options.level, [])));
+    }
+
+    logger.info(
+      `Exported ${count} ${options.level} row(s) as ${options.format} for ${devices.length} device(s)`,
+    );
+    return count;
+  }
+
+  private buildTable(
+    level: ExportLevel,
+    records: DeviceRecord<TrafficDataPoint | DailyEntry>[],
+  ): Table {
+    return level === 'hourly'
+      ? buildHourlyTable(records as DeviceRecord<TrafficDataPoint>[])
+      : buildDailyTable(records as DeviceRecord<DailyEntry>[]);
+  }
+
+  /**
+   * Load a month's hourly points or daily entries inside the range, tagged with the device
+   */
+  private async loadTableRecords(
+    level: ExportLevel,
+    deviceId: string,
+    month: string,
+    range: DateRange | undefined,
+  ): Promise<DeviceRecord<TrafficDataPoint | DailyEntry>[]> {
+    const records =
+      level === 'hourly'
+        ? await this.loadHourlyPoints(deviceId, month, range)
+        : await this.loadDailyEntries(deviceId, month, range);
+    return records.map((record) => ({ deviceId, record }));
+  }
+
+  /**
+   * List the stored months overlapping the requested range
+   */
+  private async listMonths(
+    deviceId: string,
+    options: Pick<ExportOptions, 'level' | 'range'>,
+  ): Promise<string[]> {
+    const months =
+      options.level === 'hourly'
+        ? await this.storage.listHourlyMonths(deviceId)
+        : await this.storage.listDailyMonths(deviceId);
+
+    if (!options.range) {
+      return months;
+    }
+
+    let firstMonth = extractMonth(options.range.start.toISOString());
+    let lastMonth = extractMonth(new Date(options.range.end.getTime() - 1).toISOString());
+    if (options.level === 'daily') {
+      // Daily files hold local days, which can reach into the neighbouring UTC month
+      firstMonth = shiftMonth(firstMonth, -1);
+      lastMonth = shiftMonth(lastMonth, 1);
+    }
+    return months.filter((month) => month >= firstMonth && month <= lastMonth);
+  }
+
+  /**
+   * Load hourly points of a month that fall inside the range
+   */
+  private async loadHourlyRecords(
+    deviceId: string,
+    month: string,
+    range: DateRange | undefined,
+  ): Promise<Record<string, unknown>[]> {
+    const points = await this.loadHourlyPoints(deviceId, month, range);
+    return points.map((point) => ({ device_id: deviceId, ...point }));
+  }
+
+  private async loadHourlyPoints(
+    deviceId: string,
+    month: string,
+    range: DateRange | undefined,
+  ): Promise<TrafficDataPoint[]> {
+    const monthly = await this.storage.loadMonthlyData(deviceId, month);
+
+    return (monthly?.data ?? []).filter(
+      (point) => !range || (point.date && this.isInRange(new Date(point.date), range)),
+    );
+  }
+
+  /**
+   * Load daily entries of a month whose day starts inside the range
+   */
+  private async loadDailyRecords(
+    deviceId: string,
+    month: string,
+    range: DateRange | undefined,
+  ): Promise<Record<string, unknown>[]> {
+    const entries = await this.loadDailyEntries(deviceId, month, range);
+    return entries.map((entry) => ({ device_id: deviceId, date: entry.date, ...entry.totals }));
+  }
+
+  private async loadDailyEntries(
+    deviceId: string,
+    month: string,
+    range: DateRange | undefined,
+  ): Promise<DailyEntry[]> {
+    const daily = await this.storage.loadDailyData(deviceId, month);
+    return (daily?.days ?? []).filter(
+      (entry) => !range || this.isDayInRange(entry.date, daily?.timezone ?? 'UTC', range),
+    );
+  }
+
+  private isInRange(date: Date, range: DateRange): boolean {
+    return date >= range.start && date < range.end;
+  }
+
+  /**
+   * A day is included if any part of it (in the daily file's time zone) overlaps the range
+   */
+  private isDayInRange(day: string, timeZone: string, range: DateRange): boolean {
+    const { start, end } = getLocalDayRange(day, timeZone);
+    return end > range.start && start < range.end;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Live Poller Module
+ *
+ * Polls the live traffic snapshot on an interval and writes the most recent
+ * counts of each configured device to latest.json, so dashboards do not have
+ * to wait for the nightly collection.
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import { TelraamClient } from './telraamClient.js';
+import type { Storage } from './services/index.js';
+import type {
+  DeviceConfig,
+  LatestDeviceCounts,
+  LatestSnapshot,
+  LiveSnapshotFeature,
+} from './types.js';
+import { createLogger, LOG_NAMESPACES, RunCancelledError } from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.LIVE);
+
+/**
+ * Configuration for the live poller
+ */
+export interface LivePollerConfig {
+  /** API client instance */
+  client: TelraamClient;
+  /** Storage instance */
+  storage: Storage;
+  /** Devices to include in latest.json */
+  devices: DeviceConfig[];
+  /** Seconds between polls */
+  intervalSeconds: number;
+}
+
+/**
+ * Polls live counts until stopped
+ */
+export class LivePoller {
+  private readonly client: TelraamClient;
+  private readonly storage: Storage;
+  private readonly devices: DeviceConfig[];
+  private readonly intervalSeconds: number;
+  private previous = new Map<string, LatestDeviceCounts>();
+
+  constructor(config: LivePollerConfig) {
+    this.client = config.client;
+    this.storage = config.storage;
+    this.devices = config.devices;
+    this.intervalSeconds = config.intervalSeconds;
+  }
+
+  /**
+   * Poll until the signal is aborted (or once)
+   *
+   * A failed poll is logged and retried on the next interval; latest.json
+   * keeps the counts of the last successful poll meanwhile.
+   *
+   * @returns Whether the last poll succeeded
+   */
+  async run(signal: AbortSignal, options: { once?: boolean } = {}): Promise<boolean> {
+    const stored = await this.storage.loadLatestSnapshot();
+    this.previous = new Map((stored?.devices ?? []).map((device) => [device.id, device]));
+
+    logger.info(
+      options.once
+        ? `Polling live snapshot once for ${this.devices.length} device(s)`
+        : `Polling live snapshot every ${this.intervalSeconds}s for ${this.devices.length} device(s)`,
+    );
+
+    let succeeded = false;
+    while (!signal.aborted) {
+      const polled = await this.poll();
+      // A poll cut short by stopping does not count as failed
+      if (signal.aborted) break;
+      succeeded = polled;
+      if (options.once) break;
+
+      try {
+        await sleep(this.intervalSeconds * 1000, undefined, { signal });
+      } catch {
+        // Aborted while waiting for the next poll
+      }
+    }
+
+    if (signal.aborted) {
+      logger.info('Live polling stopped');
+    }
+    return succeeded;
+  }
+
+  /**
+   * Fetch one snapshot and write latest.json
+   */
+  private async poll(): Promise<boolean> {
+    // The retry budget is per poll, so a long-running poller never uses it up for good
+    this.client.resetRetryDecisions();
+
+    let features: LiveSnapshotFeature[];
+    try {
+      features = await this.client.fetchLiveSnapshot();
+    } catch (error) {
+      if (error instanceof RunCancelledError) {
+        return false;
+      }
+      logger.error(
+        `Live snapshot failed, keeping the previous latest.json: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return false;
+    }
+
+    const bySegment = new Map(
+      features
+        .filter((feature) => feature.properties?.segment_id !== undefined)
+        .map((feature) => [String(feature.properties!.segment_id), feature]),
+    );
+
+    const snapshot: LatestSnapshot = {
+      lastUpdated: new Date().toISOString(),
+      devices: this.devices.map((device) => this.toDeviceCounts(device, bySegment.get(device.id))),
+    };
+
+    await this.storage.saveLatestSnapshot(snapshot);
+    this.previous = new Map(snapshot.devices.map((device) => [device.id, device]));
+
+    const live = snapshot.devices.filter((device) => device.status === 'live').length;
+    logger.info(`Live snapshot: ${live}/${snapshot.devices.length} device(s) live`);
+    return true;
+  }
+
+  /**
+   * Build a device's latest.json entry
+   * Devices without current counts keep the counts of the last poll that had them.
+   */
+  private toDeviceCounts(
+    device: DeviceConfig,
+    feature: LiveSnapshotFeature | undefined,
+  ): LatestDeviceCounts {
+    const properties = feature?.properties;
+    const base = { id: device.id, name: device.name };
+
+    if (!properties?.date) {
+      const previous = this.previous.get(device.id);
+      return {
+        ...previous,
+        ...base,
+        status: feature ? 'offline' : 'missing',
+        lastDataPackage: properties?.last_data_package ?? previous?.lastDataPackage,
+      };
+    }
+
+    return {
+      ...base,
+      status: 'live',
+      date: properties.date,
+      period: properties.period,
+      uptime: properties.uptime,
+      heavy: properties.heavy,
+      car: properties.car,
+      bike: properties.bike,
+      pedestrian: properties.pedestrian,
+      night: properties.night,
+      v85: properties.v85,
+      lastDataPackage: properties.last_data_package,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Metadata Enricher Module
+ *
+ * Refreshes device metadata from the instances and segment-by-id APIs:
+ * camera status, hardware version, first/last data package, segment
+ * geometry and labels for the two counting directions.
+ */
+
+import { TelraamClient } from './telraamClient.js';
+import type {
+  CameraInstance,
+  DeviceApiMetadata,
+  DeviceConfig,
+  DeviceMetadata,
+  DirectionLabels,
+  SegmentByIdFeature,
+  SegmentGeometry,
+} from './types.js';
+import { createLogger, LOG_NAMESPACES } from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.COLLECTOR);
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+/**
+ * Builds the API-derived part of device metadata
+ */
+export class MetadataEnricher {
+  constructor(private readonly client: TelraamClient) {}
+
+  /**
+   * Fetch fresh API metadata for a device
+   *
+   * A failed refresh is logged and falls back to the previously stored values,
+   * so metadata problems never fail a collection run.
+   */
+  async refresh(
+    device: DeviceConfig,
+    previous: DeviceMetadata | undefined,
+  ): Promise<DeviceApiMetadata & Pick<DeviceMetadata, 'directionLabels'>> {
+    try {
+      const [instances, segment] = await Promise.all([
+        this.client.fetchInstances(device.id),
+        this.client.fetchSegment(device.id),
+      ]);
+
+      const current = this.selectCurrentInstance(instances);
+      const geometry = this.extractGeometry(segment);
+
+      return {
+        cameraStatus: current?.status,
+        hardwareVersion: current?.hardware_version,
+        firstDataPackage: this.pickTimestamp(
+          [segment?.properties?.first_data_package, ...instances.map((i) => i.first_data_package)],
+          'earliest',
+        ),
+        lastDataPackage: this.pickTimestamp(
+          [segment?.properties?.last_data_package, ...instances.map((i) => i.last_data_package)],
+          'latest',
+        ),
+        geometry,
+        directionLabels:
+          device.directionLabels ?? (geometry ? this.deriveDirectionLabels(geometry) : undefined),
+        metadataRefreshedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      logger.warn(
+        `Could not refresh metadata for device ${device.id}, keeping previous values: ${error instanceof Error ? error.message : String(error)}`,
+      );
+
+      return {
+        cameraStatus: previous?.cameraStatus,
+        hardwareVersion: previous?.hardwareVersion,
+        firstDataPackage: previous?.firstDataPackage,
+        lastDataPackage: previous?.lastDataPackage,
+        geometry: previous?.geometry,
+        directionLabels: device.directionLabels ?? previous?.directionLabels,
+        metadataRefreshedAt: previous?.metadataRefreshedAt,
+      };
+    }
+  }
+
+  /**
+   * Pick the instance that describes the camera today: an open instance
+   * (no time_end), otherwise the most recently added one
+   */
+  private selectCurrentInstance(instances: CameraInstance[]): CameraInstance | undefined {
+    const byAdded = [...instances].sort((a, b) =>
+      (b.time_added ?? '').localeCompare(a.time_added ?? ''),
+    );
+    return byAdded.find((instance) => !instance.time_end) ?? byAdded[0];
+  }
+
+  /**
+   * Earliest or latest valid timestamp of a list
+   */
+  private pickTimestamp(
+    values: (string | null | undefined)[],
+    which: 'earliest' | 'latest',
+  ): string | undefined {
+    const times = values
+      .filter((value): value is string => typeof value === 'string')
+      .map((value) => new Date(value))
+      .filter((date) => !Number.isNaN(date.getTime()))
+      .map((date) => date.getTime());
+
+    if (times.length === 0) {
+      return undefined;
+    }
+
+    const time = which === 'earliest' ? Math.min(...times) : Math.max(...times);
+    return new Date(time).toISOString();
+  }
+
+  private extractGeometry(segment: SegmentByIdFeature | null): SegmentGeometry | undefined {
+    const coordinates = segment?.geometry?.coordinates;
+    if (!coordinates?.length) {
+      return undefined;
+    }
+    return { type: segment?.geometry?.type ?? 'MultiLineString', coordinates };
+  }
+
+  /**
+   * Label both directions with their compass heading
+   *
+   * Assumes Telraam's convention that `_rgt` counts traffic travelling along
+   * the segment's coordinate chain and `_lft` traffic travelling against it.
+   * Set `directionLabels` in the registry where that does not hold.
+   */
+  private deriveDirectionLabels(geometry: SegmentGeometry): DirectionLabels | undefined {
+    const points = geometry.coordinates.flat().filter((point) => point.length >= 2);
+    if (points.length < 2) {
+      return undefined;
+    }
+
+    const [lon1, lat1] = points[0];
+    const [lon2, lat2] = points[points.length - 1];
+    const bearing = this.calculateBearing(lat1, lon1, lat2, lon2);
+
+    return {
+      rgt: `towards ${this.toCompassPoint(bearing)}`,
+      lft: `towards ${this.toCompassPoint(bearing + 180)}`,
+    };
+  }
+
+  /**
+   * Initial great-circle bearing in degrees (0 = north, clockwise)
+   */
+  private calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const phi1 = toRadians(lat1);
+    const phi2 = toRadians(lat2);
+    const deltaLon = toRadians(lon2 - lon1);
+
+    const y = Math.sin(deltaLon) * Math.cos(phi2);
+    const x =
+      Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLon);
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+  }
+
+  private toCompassPoint(bearing: number): string {
+    const index = Math.round((((bearing % 360) + 360) % 360) / 45) % COMPASS_POINTS.length;
+    return COMPASS_POINTS[index];
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * Mock Telraam API Server
+ *
+ * Local stand-in for the Telraam API that serves the traffic, instances and
+ * segments endpoints of api-spec/telraam-openapi.yaml with synthetic data.
+ * Failures (429, 5xx, slow responses, malformed bodies) can be injected at
+ * configurable rates to exercise the client's retries and the collector
+ * end to end.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { setTimeout as sleep } from 'timers/promises';
+import type {
+  AllInstancesDownload,
+  AllInstancesResponse,
+  CameraInstance,
+  InstancesResponse,
+  SegmentByIdResponse,
+  SegmentFeature,
+  SegmentsAreaRequest,
+  SegmentsResponse,
+  TrafficReportRequest,
+  TrafficReportResponse,
+} from '../types.js';
+import { API, createLogger, LOG_NAMESPACES, MOCK_API } from '../utils/index.js';
+import { createSeededRandom, SyntheticDataGenerator } from './syntheticData.js';
+
+const logger = createLogger(LOG_NAMESPACES.MOCK);
+
+/**
+ * Failure injection rates (0-1 per request) and their parameters
+ */
+export interface FailureInjection {
+  /** Share of requests answered with 429 and a Retry-After header */
+  rateLimited: number;
+  /** Share of requests answered with 500, 502 or 503 */
+  serverError: number;
+  /** Share of requests delayed by `slowMs` before they are answered */
+  slow: number;
+  /** Share of successful responses whose JSON body is cut off */
+  malformed: number;
+  /** Delay of slow responses in milliseconds */
+  slowMs: number;
+  /** Retry-After of 429 responses in seconds */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Configuration for the mock server
+ */
+export interface MockServerConfig {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Seed of the synthetic data and the failure sequence */
+  seed: number;
+  /** Segments listed by the segments and instances APIs */
+  segmentCount: number;
+  failures: FailureInjection;
+}
+
+/**
+ * Counters of served requests
+ */
+export interface MockServerStats {
+  requests: number;
+  rateLimited: number;
+  serverErrors: number;
+  slow: number;
+  malformed: number;
+}
+
+/**
+ * Response produced by a route
+ */
+interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Failure injection that never fails a request
+ */
+export const NO_FAILURES: FailureInjection = {
+  rateLimited: 0,
+  serverError: 0,
+  slow: 0,
+  malformed: 0,
+  slowMs: MOCK_API.DEFAULT_SLOW_MS,
+  retryAfterSeconds: MOCK_API.DEFAULT_RETRY_AFTER_SECONDS,
+};
+
+/**
+ * HTTP server answering like the Telraam API
+ *
+ * @example
+ * const server = new MockTelraamServer({ port: 0, seed: 1, segmentCount: 10, failures: NO_FAILURES });
+ * const baseUrl = await server.start();
+ * const client = new TelraamClient(baseUrl, 'any-key');
+ */
+export class MockTelraamServer {
+  private readonly server: Server;
+  private readonly data: SyntheticDataGenerator;
+  private readonly failureRandom: () => number;
+  private readonly stats: MockServerStats = {
+    requests: 0,
+    rateLimited: 0,
+    serverErrors: 0,
+    slow: 0,
+    malformed: 0,
+  };
+  private baseUrl = '';
+
+  constructor(private readonly config: MockServerConfig) {
+    this.data = new SyntheticDataGenerator(config.seed);
+    this.failureRandom = createSeededRandom(`${config.seed}:failures`);
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        logger.error('Mock request failed', error instanceof Error ? error : { error });
+        if (!response.headersSent) {
+          this.send(response, { status: 500, body: { message: 'Internal server error' } });
+        } else {
+          response.destroy();
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening
+   * @returns Base URL to configure the client with
+   */
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    logger.info(`Mock Telraam API listening on ${this.baseUrl}`, {
+      seed: this.config.seed,
+      segments: this.config.segmentCount,
+      failures: this.config.failures,
+    });
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    logger.info('Mock Telraam API stopped', { ...this.stats });
+  }
+
+  /**
+   * Requests served so far, by injected failure
+   */
+  getStats(): MockServerStats {
+    return { ...this.stats };
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    this.stats.requests++;
+    const method = request.method ?? 'GET';
+    const { pathname } = new URL(request.url ?? '/', this.baseUrl);
+    const body = await readBody(request);
+    const { failures } = this.config;
+
+    if (this.failureRandom() < failures.slow) {
+      this.stats.slow++;
+      logger.debug(`Delaying ${method} ${pathname} by ${failures.slowMs}ms`);
+      await sleep(failures.slowMs);
+      // The client may have given up meanwhile
+      if (response.destroyed) return;
+    }
+
+    if (this.failureRandom() < failures.rateLimited) {
+      this.stats.rateLimited++;
+      return this.send(response, {
+        status: 429,
+        body: { message: 'Too Many Requests' },
+        headers: { 'Retry-After': String(failures.retryAfterSeconds) },
+      });
+    }
+
+    if (this.failureRandom() < failures.serverError) {
+      this.stats.serverErrors++;
+      const status = [500, 502, 503][Math.floor(this.failureRandom() * 3)];
+      return this.send(response, { status, body: { message: 'Internal server error' } });
+    }
+
+    // Download links are pre-signed and need no API key
+    const result =
+      pathname !== MOCK_API.DOWNLOAD_PATH && !request.headers['x-api-key']
+        ? { status: 403, body: { message: 'Forbidden' } }
+        : this.route(method, pathname, body);
+    logger.debug(`${method} ${pathname} → ${result.status}`);
+
+    if (result.status < 300 && this.failureRandom() < failures.malformed) {
+      this.stats.malformed++;
+      const json = JSON.stringify(result.body);
+      response.writeHead(result.status, { 'Content-Type': 'application/json' });
+      response.end(json.slice(0, Math.floor(json.length / 2)));
+      return;
+    }
+
+    this.send(response, result);
+  }
+
+  private route(method: string, pathname: string, body: unknown): MockResponse {
+    const segmentMatch = /^\/v1\/(instances\/segment|segments\/id)\/(\d+)$/.exec(pathname);
+    const instanceMatch = /^\/v1\/instances\/id\/(\d+)$/.exec(pathname);
+
+    if (method === 'POST' && pathname === API.ENDPOINTS.TRAFFIC) {
+      return this.traffic(body as TrafficReportRequest | undefined);
+    }
+    if (method === 'POST' && pathname === API.ENDPOINTS.SEGMENTS_AREA) {
+      return this.segmentsInArea(body as SegmentsAreaRequest | undefined);
+    }
+    if (method !== 'GET') {
+      return notFound();
+    }
+
+    if (pathname === API.ENDPOINTS.INSTANCES) {
+      const download: AllInstancesDownload = {
+        status_code: 201,
+        message:
+          'Download the response using the provided link. (Data is too large for direct API access.)',
+        download_url: `${this.baseUrl}${MOCK_API.DOWNLOAD_PATH}`,
+      };
+      return { status: 201, body: download };
+    }
+    if (pathname === MOCK_API.DOWNLOAD_PATH) {
+      const full: AllInstancesResponse = {
+        status_code: 200,
+        message: 'ok',
+        cameras: this.allInstances(),
+      };
+      return { status: 200, body: full };
+    }
+    if (instanceMatch) {
+      const instanceId = Number(instanceMatch[1]);
+      const camera = this.allInstances().filter((instance) => instance.instance_id === instanceId);
+      return camera.length > 0
+        ? { status: 200, body: { status_code: 200, message: 'ok', camera } }
+        : notFound('instance not found');
+    }
+    if (segmentMatch?.[1] === 'instances/segment') {
+      const instances: InstancesResponse = {
+        status_code: 200,
+        message: 'ok',
+        camera: this.data.createInstances(Number(segmentMatch[2])),
+      };
+      return { status: 200, body: instances };
+    }
+    if (segmentMatch?.[1] === 'segments/id') {
+      const segment: SegmentByIdResponse = {
+        status_code: 200,
+        message: 'ok',
+        type: 'FeatureCollection',
+        features: [this.data.createSegmentById(Number(segmentMatch[2]))],
+      };
+      return { status: 200, body: segment };
+    }
+    if (pathname === '/v1/segments') {
+      return { status: 200, body: this.featureCollection(this.listedSegments()) };
+    }
+
+    return notFound();
+  }
+
+  private traffic(request: TrafficReportRequest | undefined): MockResponse {
+    if (request?.level !== 'segments' || request.format !== 'per-hour') {
+      return badRequest('The mock API serves level "segments" with format "per-hour" only');
+    }
+
+    const segmentId = Number(request.id);
+    const start = parseApiTime(request.time_start);
+    const end = parseApiTime(request.time_end);
+    if (!Number.isInteger(segmentId) || !start || !end || start >= end) {
+      return badRequest(
+        'id, time_start and time_end are required, with time_start before time_end',
+      );
+    }
+    if (end.getTime() - start.getTime() > MOCK_API.MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return badRequest(`The time interval is limited to ${MOCK_API.MAX_RANGE_DAYS} days`);
+    }
+
+    const report: TrafficReportResponse = {
+      status_code: 200,
+      message: 'ok',
+      report: this.data.createHourlyReport(segmentId, start, end),
+    };
+    return { status: 200, body: report };
+  }
+
+  /**
+   * Listed segments whose geometry touches the requested bounding box, circle or polygon
+   */
+  private segmentsInArea(request: SegmentsAreaRequest | undefined): MockResponse {
+    const area = request as { area?: string; polygon?: { coordinates?: number[][][] } } | undefined;
+    const ring = area?.polygon?.coordinates?.[0];
+    const values = area?.area?.split(',').map(Number) ?? [];
+
+    let contains: ((lon: number, lat: number) => boolean) | undefined;
+    if (ring && ring.length >= 3) {
+      contains = (lon, lat) => isInsidePolygon(lon, lat, ring);
+    } else if (values.length === 4 && values.every(Number.isFinite)) {
+      const [lon1, lat1, lon2, lat2] = values;
+      contains = (lon, lat) =>
+        lon >= Math.min(lon1, lon2) &&
+        lon <= Math.max(lon1, lon2) &&
+        lat >= Math.min(lat1, lat2) &&
+        lat <= Math.max(lat1, lat2);
+    } else if (values.length === 3 && values.every(Number.isFinite)) {
+      const [centerLon, centerLat, radiusKm] = values;
+      contains = (lon, lat) => distanceKm(centerLon, centerLat, lon, lat) <= radiusKm;
+    }
+
+    if (!contains) {
+      return badRequest('Provide "area" as a bounding box or circle, or a "polygon"');
+    }
+
+    const inside = this.listedSegments().filter((segment) =>
+      (segment.geometry?.coordinates ?? []).flat().some(([lon, lat]) => contains(lon, lat)),
+    );
+    return { status: 200, body: this.featureCollection(inside) };
+  }
+
+  private listedSegments(): SegmentFeature[] {
+    return this.data
+      .listSegmentIds(this.config.segmentCount)
+      .map((segmentId) => this.data.createSegment(segmentId));
+  }
+
+  private allInstances(): CameraInstance[] {
+    return this.data
+      .listSegmentIds(this.config.segmentCount)
+      .flatMap((segmentId) => this.data.createInstances(segmentId));
+  }
+
+  private featureCollection(features: SegmentFeature[]): SegmentsResponse {
+    return { status_code: 200, message: 'ok', type: 'FeatureCollection', features };
+  }
+
+  private send(response: ServerResponse, result: MockResponse): void {
+    response.writeHead(result.status, { 'Content-Type': 'application/json', ...result.headers });
+    response.end(JSON.stringify(result.body));
+  }
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8');
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse an API timestamp such as "2024-06-12 11:00:00Z"
+ */
+function parseApiTime(value: string | undefined): Date | null {
+  const date = new Date((value ?? '').replace(' ', 'T'));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function notFound(message = 'Not found'): MockResponse {
+  return { status: 404, body: { message } };
+}
+
+function badRequest(message: string): MockResponse {
+  return { status: 400, body: { message } };
+}
+
+/**
+ * Ray casting point-in-polygon test
+ */
+function isInsidePolygon(lon: number, lat: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+    if (latI > lat !== latJ > lat && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Haversine distance in kilometres
+ */
+function distanceKm(lon1: number, lat1: number, lon2: number, lat2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(lat2 - lat1);
+  const deltaLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(deltaLon / 2) ** 2;
+  return 6_371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
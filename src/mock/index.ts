@@ -0,0 +1,100 @@
+/**
+ * Mock Telraam API Entry Point
+ *
+ * Starts the mock server until Ctrl+C. Point the collector at it with
+ * TELRAAM_API_URL=http://127.0.0.1:8787 and any TELRAAM_API_KEY.
+ */
+
+import { parseArgs } from 'util';
+import { MockTelraamServer, NO_FAILURES, type FailureInjection } from './MockTelraamServer.js';
+import { createLogger, EXIT_CODES, LOG_NAMESPACES, MOCK_API } from '../utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.MOCK);
+
+const HELP_TEXT = `Usage: node dist/mock/index.js [options]
+
+Options:
+      --port <port>          Port to listen on (default: ${MOCK_API.DEFAULT_PORT}, 0 = any free port)
+      --seed <n>             Seed of the synthetic data and failure sequence (default: ${MOCK_API.DEFAULT_SEED})
+      --segments <n>         Segments listed by the segments and instances APIs (default: ${MOCK_API.DEFAULT_SEGMENT_COUNT})
+      --rate-limited <rate>  Share of requests answered with 429 (0-1, default: 0)
+      --server-errors <rate> Share of requests answered with 500/502/503 (0-1, default: 0)
+      --slow <rate>          Share of requests delayed by --slow-ms (0-1, default: 0)
+      --slow-ms <ms>         Delay of slow requests (default: ${MOCK_API.DEFAULT_SLOW_MS})
+      --malformed <rate>     Share of successful responses with a cut-off JSON body (0-1, default: 0)
+      --retry-after <s>      Retry-After of 429 responses (default: ${MOCK_API.DEFAULT_RETRY_AFTER_SECONDS})
+  -h, --help                 Show this help
+`;
+
+/**
+ * Parse a non-negative number option
+ * @throws {Error} If the value is not a number in range
+ */
+function parseNumber(value: string | undefined, name: string, fallback: number, max = Infinity) {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > max) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string' },
+      seed: { type: 'string' },
+      segments: { type: 'string' },
+      'rate-limited': { type: 'string' },
+      'server-errors': { type: 'string' },
+      slow: { type: 'string' },
+      'slow-ms': { type: 'string' },
+      malformed: { type: 'string' },
+      'retry-after': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(HELP_TEXT);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const failures: FailureInjection = {
+    rateLimited: parseNumber(values['rate-limited'], 'rate-limited', NO_FAILURES.rateLimited, 1),
+    serverError: parseNumber(values['server-errors'], 'server-errors', NO_FAILURES.serverError, 1),
+    slow: parseNumber(values.slow, 'slow', NO_FAILURES.slow, 1),
+    malformed: parseNumber(values.malformed, 'malformed', NO_FAILURES.malformed, 1),
+    slowMs: parseNumber(values['slow-ms'], 'slow-ms', NO_FAILURES.slowMs),
+    retryAfterSeconds: parseNumber(
+      values['retry-after'],
+      'retry-after',
+      NO_FAILURES.retryAfterSeconds,
+    ),
+  };
+
+  const server = new MockTelraamServer({
+    port: parseNumber(values.port, 'port', MOCK_API.DEFAULT_PORT, 65_535),
+    seed: parseNumber(values.seed, 'seed', MOCK_API.DEFAULT_SEED),
+    segmentCount: parseNumber(values.segments, 'segments', MOCK_API.DEFAULT_SEGMENT_COUNT),
+    failures,
+  });
+  await server.start();
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+  await server.stop();
+  return EXIT_CODES.SUCCESS;
+}
+
+try {
+  process.exitCode = await main(process.argv.slice(2));
+} catch (error) {
+  logger.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = EXIT_CODES.CONFIG_ERROR;
+}
@@ -0,0 +1,368 @@
+/**
+ * Synthetic Telraam Data
+ *
+ * Deterministic stand-in data for the mock API: segments, camera instances
+ * and hourly traffic that look like real Telraam output. Counts exist only
+ * for daylight hours, uptime stays below 1 and every hour carries car speed
+ * histograms. The same seed, segment and hour always give the same values.
+ */
+
+import type {
+  CameraInstance,
+  SegmentByIdFeature,
+  SegmentFeature,
+  TrafficDataPoint,
+} from '../types.js';
+import { addHours, floorToHour, getLocalWeekdayHour, MOCK_API } from '../utils/index.js';
+
+/**
+ * Stable per-segment characteristics
+ */
+interface SegmentProfile {
+  segmentId: number;
+  /** Start of the segment's coordinate chain */
+  origin: [number, number];
+  /** Cars per hour at the daily peak */
+  peakCars: number;
+  /** Share of bikes and pedestrians relative to cars */
+  bikeShare: number;
+  pedestrianShare: number;
+  /** Mean car speed and its spread in km/h */
+  meanSpeed: number;
+  speedSpread: number;
+  /** Share of traffic in the `_lft` direction */
+  leftShare: number;
+  /** Telraam V1 (1) or S2 (2) */
+  hardwareVersion: 1 | 2;
+  firstDataPackage: Date;
+}
+
+/**
+ * Relative traffic volume by local hour on weekdays: morning and evening peaks
+ */
+const WEEKDAY_PROFILE = [
+  0.05, 0.03, 0.02, 0.02, 0.04, 0.15, 0.45, 0.9, 1.0, 0.7, 0.55, 0.6, 0.65, 0.6, 0.6, 0.7, 0.9,
+  0.95, 0.75, 0.5, 0.35, 0.25, 0.15, 0.08,
+];
+
+/**
+ * Relative traffic volume by local hour on weekends: one broad midday hump
+ */
+const WEEKEND_PROFILE = [
+  0.08, 0.05, 0.04, 0.03, 0.03, 0.05, 0.1, 0.2, 0.35, 0.5, 0.6, 0.65, 0.65, 0.6, 0.6, 0.6, 0.55,
+  0.5, 0.45, 0.35, 0.3, 0.25, 0.18, 0.12,
+];
+
+/**
+ * Generates deterministic synthetic Telraam data
+ *
+ * Any numeric segment ID is accepted, so a real device registry can be
+ * collected against the mock API unchanged.
+ */
+export class SyntheticDataGenerator {
+  constructor(private readonly seed: number) {}
+
+  /**
+   * IDs of the segments listed by the segments APIs
+   */
+  listSegmentIds(count: number): number[] {
+    return Array.from({ length: count }, (_, index) => MOCK_API.FIRST_SEGMENT_ID + index);
+  }
+
+  /**
+   * Segment feature as returned by the segments and segments-in-area APIs
+   */
+  createSegment(segmentId: number): SegmentFeature {
+    return {
+      type: 'Feature',
+      geometry: { type: 'MultiLineString', coordinates: [this.createCoordinates(segmentId)] },
+      properties: { segment_id: segmentId },
+    };
+  }
+
+  /**
+   * Segment feature as returned by the segment-by-id API
+   */
+  createSegmentById(segmentId: number): SegmentByIdFeature {
+    const profile = this.getProfile(segmentId);
+    return {
+      type: 'Feature',
+      geometry: { type: 'MultiLineString', coordinates: [this.createCoordinates(segmentId)] },
+      properties: {
+        oidn: segmentId,
+        first_data_package: profile.firstDataPackage.toISOString(),
+        last_data_package: this.getLastDataPackage().toISOString(),
+        timezone: MOCK_API.TIMEZONE,
+      },
+    };
+  }
+
+  /**
+   * Camera instances of a segment: the active camera, and for some segments a
+   * replaced camera that was closed when the active one was added
+   */
+  createInstances(segmentId: number): CameraInstance[] {
+    const profile = this.getProfile(segmentId);
+    const random = this.createRandom(segmentId, 'instances');
+    const lastDataPackage = this.getLastDataPackage().toISOString();
+    const base = {
+      user_id: 1_000 + Math.floor(random() * 9_000),
+      segment_id: segmentId,
+      direction: random() < 0.5,
+      manual: false,
+      pedestrians_left: true,
+      pedestrians_right: true,
+      bikes_left: true,
+      bikes_right: true,
+      cars_left: true,
+      cars_right: true,
+      private: false,
+    };
+
+    const active: CameraInstance = {
+      ...base,
+      instance_id: (segmentId % 100_000) * 10 + 1,
+      mac: 350_000_000_000_000 + (segmentId % 1_000_000),
+      status: 'active',
+      status_detailed: 'active',
+      hardware_version: profile.hardwareVersion,
+      is_calibration_done: 'yes',
+      time_added: profile.firstDataPackage.toISOString(),
+      time_end: undefined,
+      first_data_package: profile.firstDataPackage.toISOString(),
+      last_data_package: lastDataPackage,
+    };
+
+    if (profile.hardwareVersion === 2) {
+      return [active];
+    }
+
+    // V1 segments got a replacement camera half way through
+    const replacedAt = new Date(
+      (profile.firstDataPackage.getTime() + this.getLastDataPackage().getTime()) / 2,
+    );
+    return [
+      {
+        ...active,
+        instance_id: active.instance_id! + 1,
+        mac: active.mac! + 1,
+        time_added: replacedAt.toISOString(),
+        first_data_package: replacedAt.toISOString(),
+      },
+      {
+        ...active,
+        status: 'stopped',
+        status_detailed: 'stopped',
+        time_end: replacedAt.toISOString(),
+        last_data_package: replacedAt.toISOString(),
+      },
+    ];
+  }
+
+  /**
+   * Hourly report for [start, end), limited to hours that already ended and
+   * to daylight hours after the segment's first data package
+   */
+  createHourlyReport(segmentId: number, start: Date, end: Date): TrafficDataPoint[] {
+    const profile = this.getProfile(segmentId);
+    const lastHour = floorToHour(new Date());
+    const report: TrafficDataPoint[] = [];
+
+    for (let hour = floorToHour(start); hour < end && hour < lastHour; hour = addHours(hour, 1)) {
+      if (hour < profile.firstDataPackage) continue;
+
+      const daylight = this.getDaylightFraction(hour, profile.origin);
+      if (daylight === 0) continue;
+
+      report.push(this.createHour(profile, hour, daylight));
+    }
+
+    return report;
+  }
+
+  private createHour(profile: SegmentProfile, hour: Date, daylight: number): TrafficDataPoint {
+    const random = this.createRandom(profile.segmentId, hour.toISOString());
+    const { weekday, hour: localHour } = getLocalWeekdayHour(hour, MOCK_API.TIMEZONE);
+    const weekend = weekday === 'sat' || weekday === 'sun';
+    const shape = (weekend ? WEEKEND_PROFILE : WEEKDAY_PROFILE)[localHour];
+    const noise = () => 0.8 + random() * 0.4;
+
+    // Counts are extrapolated to the full hour, like the real API does
+    const car = round(profile.peakCars * shape * noise());
+    const heavy = round(car * 0.06 * noise());
+    const bike = round(car * profile.bikeShare * (weekend ? 1.4 : 1) * noise());
+    const pedestrian = round(car * profile.pedestrianShare * (weekend ? 1.6 : 1) * noise());
+
+    const maxUptime = profile.hardwareVersion === 2 ? 0.99 : 0.8;
+    const uptime = round(daylight * (maxUptime - random() * 0.15), 10);
+
+    const left = profile.leftShare;
+    const meanSpeed = profile.meanSpeed * (0.9 + (1 - shape) * 0.2);
+    const hist120 = createSpeedHistogram(meanSpeed, profile.speedSpread, 5, 25);
+
+    return {
+      instance_id: -1,
+      segment_id: profile.segmentId,
+      date: hour.toISOString(),
+      interval: 'hourly',
+      uptime,
+      heavy,
+      car,
+      bike,
+      pedestrian,
+      night: 0,
+      heavy_lft: round(heavy * left),
+      heavy_rgt: round(heavy * (1 - left)),
+      car_lft: round(car * left),
+      car_rgt: round(car * (1 - left)),
+      bike_lft: round(bike * left),
+      bike_rgt: round(bike * (1 - left)),
+      pedestrian_lft: round(pedestrian * left),
+      pedestrian_rgt: round(pedestrian * (1 - left)),
+      night_lft: 0,
+      night_rgt: 0,
+      direction: 1,
+      car_speed_hist_0to70plus: createSpeedHistogram(meanSpeed, profile.speedSpread, 10, 8),
+      car_speed_hist_0to120plus: hist120,
+      timezone: MOCK_API.TIMEZONE,
+      v85: car > 0 ? estimateV85(hist120, 5) : undefined,
+    };
+  }
+
+  private getProfile(segmentId: number): SegmentProfile {
+    const random = this.createRandom(segmentId, 'profile');
+    const [origin] = this.createCoordinates(segmentId);
+    const startOffsetDays = Math.floor(random() * MOCK_API.DATA_START_SPREAD_DAYS);
+
+    return {
+      segmentId,
+      origin,
+      peakCars: 80 + random() * 600,
+      bikeShare: 0.05 + random() * 0.4,
+      pedestrianShare: 0.05 + random() * 0.3,
+      meanSpeed: 25 + random() * 25,
+      speedSpread: 6 + random() * 6,
+      leftShare: 0.35 + random() * 0.3,
+      hardwareVersion: random() < 0.7 ? 2 : 1,
+      firstDataPackage: addHours(new Date(MOCK_API.DATA_START), startOffsetDays * 24),
+    };
+  }
+
+  /**
+   * A short street around the mock API's centre, 2-4 vertices long
+   */
+  private createCoordinates(segmentId: number): [number, number][] {
+    const random = this.createRandom(segmentId, 'geometry');
+    const lon = MOCK_API.CENTER.lon + (random() - 0.5) * 0.1;
+    const lat = MOCK_API.CENTER.lat + (random() - 0.5) * 0.06;
+    const bearing = random() * 2 * Math.PI;
+    const vertices = 2 + Math.floor(random() * 3);
+
+    return Array.from({ length: vertices }, (_, index): [number, number] => [
+      round(lon + Math.sin(bearing) * index * 0.0008, 9),
+      round(lat + Math.cos(bearing) * index * 0.0005, 9),
+    ]);
+  }
+
+  /**
+   * Cameras report up to the last full hour
+   */
+  private getLastDataPackage(): Date {
+    return floorToHour(new Date());
+  }
+
+  /**
+   * Share of an hour between sunrise and sunset (0 at night)
+   * Uses the solar declination approximation, which is accurate to a few minutes.
+   */
+  private getDaylightFraction(hour: Date, [lon, lat]: [number, number]): number {
+    const startOfYear = Date.UTC(hour.getUTCFullYear(), 0, 1);
+    const dayOfYear = Math.floor((hour.getTime() - startOfYear) / 86_400_000) + 1;
+    const declination = (-23.44 * Math.PI * Math.cos((2 * Math.PI * (dayOfYear + 10)) / 365)) / 180;
+    const latitude = (lat * Math.PI) / 180;
+    const cosHourAngle = Math.min(1, Math.max(-1, -Math.tan(latitude) * Math.tan(declination)));
+    const dayLengthHours = (2 * ((Math.acos(cosHourAngle) * 180) / Math.PI)) / 15;
+
+    const solarNoon = 12 - lon / 15;
+    const sunrise = solarNoon - dayLengthHours / 2;
+    const sunset = solarNoon + dayLengthHours / 2;
+    const from = hour.getUTCHours();
+
+    return Math.max(0, Math.min(from + 1, sunset) - Math.max(from, sunrise));
+  }
+
+  /**
+   * Random numbers for one segment and purpose, independent of request order
+   */
+  private createRandom(segmentId: number, purpose: string): () => number {
+    return createSeededRandom(`${this.seed}:${segmentId}:${purpose}`);
+  }
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+/**
+ * Percentage of cars per speed bin for a normal speed distribution; the
+ * last bin collects everything above
+ */
+function createSpeedHistogram(mean: number, spread: number, binWidth: number, bins: number) {
+  const shares = Array.from({ length: bins }, (_, index) => {
+    const lower = index === 0 ? -Infinity : index * binWidth;
+    const upper = index === bins - 1 ? Infinity : (index + 1) * binWidth;
+    return normalCdf((upper - mean) / spread) - normalCdf((lower - mean) / spread);
+  });
+  return shares.map((share) => round(share * 100, 10));
+}
+
+/**
+ * Speed that 85% of cars stay under, interpolated inside its histogram bin
+ */
+function estimateV85(histogram: number[], binWidth: number): number {
+  let cumulative = 0;
+  for (const [index, share] of histogram.entries()) {
+    if (cumulative + share >= 85) {
+      return round((index + (85 - cumulative) / share) * binWidth, 1);
+    }
+    cumulative += share;
+  }
+  return histogram.length * binWidth;
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun approximation)
+ */
+function normalCdf(z: number): number {
+  if (z === Infinity) return 1;
+  if (z === -Infinity) return 0;
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+function hashString(value: string): number {
+  let hash = 2_166_136_261;
+  for (let index = 0; index < value.length; index++) {
+    hash = Math.imul(hash ^ value.charCodeAt(index), 16_777_619);
+  }
+  return hash >>> 0;
+}
+
+function round(value: number, decimals = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,54 @@
+/**
+ * Run Report Module
+ *
+ * Combines a collection summary with the storage change counters and the API
+ * usage counters and retry decisions into the report persisted in the run
+ * history.
+ */
+
+import { TelraamClient } from './telraamClient.js';
+import type { CollectionSummary, DeviceRunReport, MonthChanges, RunReport } from './types.js';
+
+/**
+ * Build the run report for a finished collect or backfill run
+ */
+export function buildRunReport(
+  command: string,
+  summary: CollectionSummary,
+  changes: MonthChanges[],
+  client: TelraamClient,
+): RunReport {
+  const devices: DeviceRunReport[] = summary.results.map((result) => {
+    const deviceChanges = changes.filter((entry) => entry.deviceId === result.deviceId);
+
+    return {
+      deviceId: result.deviceId,
+      success: result.success,
+      pointsFetched: result.dataPointsCollected,
+      pointsAdded: deviceChanges.reduce((sum, entry) => sum + entry.added, 0),
+      pointsReplaced: deviceChanges.reduce((sum, entry) => sum + entry.replaced, 0),
+      ...client.getUsage(result.deviceId),
+      lastCompleteHour: result.lastCompleteHour,
+      error: result.error,
+    };
+  });
+
+  const sum = (field: 'pointsFetched' | 'pointsAdded' | 'pointsReplaced') =>
+    devices.reduce((total, device) => total + device[field], 0);
+
+  return {
+    command,
+    startTime: summary.startTime,
+    endTime: summary.endTime,
+    success: summary.failedDevices === 0,
+    devices,
+    totals: {
+      pointsFetched: sum('pointsFetched'),
+      pointsAdded: sum('pointsAdded'),
+      pointsReplaced: sum('pointsReplaced'),
+      ...client.getUsage(),
+      errors: summary.failedDevices,
+    },
+    retryDecisions: client.getRetryDecisions(),
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Circuit Breaker Service
+ *
+ * Stops sending requests after repeated transient failures, shared by all
+ * devices of a run, so an API outage fails the remaining work fast instead
+ * of retrying every device into the same outage.
+ */
+
+import type { CircuitState } from '../types.js';
+import { createLogger, LOG_NAMESPACES } from '../utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.CLIENT);
+
+/**
+ * Configuration for the circuit breaker
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failed requests that open the circuit */
+  failureThreshold: number;
+  /** Milliseconds the circuit stays open before one trial request is let through */
+  cooldownMs: number;
+}
+
+/**
+ * Circuit breaker decisions so far
+ */
+export interface CircuitBreakerStats {
+  /** Current state */
+  state: CircuitState;
+  /** Times the circuit opened */
+  opened: number;
+  /** Requests rejected while the circuit was open */
+  rejected: number;
+}
+
+/**
+ * Error thrown for requests rejected by an open circuit; never retried
+ */
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Closed → open after `failureThreshold` consecutive failures; open →
+ * half-open after `cooldownMs`, where one trial request decides whether the
+ * circuit closes again or reopens.
+ *
+ * @example
+ * const breaker = new CircuitBreaker({ failureThreshold: 5, cooldownMs: 60_000 });
+ * breaker.beforeRequest();
+ * try { await fetch(...); breaker.recordSuccess(); } catch { breaker.recordFailure(); }
+ *
+ * Every request let through must end in `recordSuccess()`, `recordFailure()`
+ * or `recordInconclusive()`, or a half-open circuit rejects requests for good.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private opened = 0;
+  private rejected = 0;
+
+  constructor(private readonly config: CircuitBreakerConfig) {}
+
+  /**
+   * Check that a request may be sent
+   * @throws {CircuitOpenError} While the circuit is open or a trial request is in flight
+   */
+  beforeRequest(): void {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.cooldownMs) {
+      logger.info('Circuit breaker half-open, sending a trial request');
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'closed') {
+      return;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    this.rejected++;
+    const retryInMs = Math.max(0, this.openedAt + this.config.cooldownMs - Date.now());
+    throw new CircuitOpenError(
+      `Circuit breaker open after ${this.consecutiveFailures} consecutive failures, not sending requests for another ${Math.ceil(retryInMs / 1000)}s`,
+    );
+  }
+
+  /**
+   * Record a request that reached the API
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit breaker closed, API is responding again');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a transient failure (timeout, network error, 5xx, 429)
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      if (this.state !== 'open') {
+        this.opened++;
+        logger.warn(
+          `Circuit breaker opened after ${this.consecutiveFailures} consecutive failures, pausing requests for ${Math.round(this.config.cooldownMs / 1000)}s`,
+        );
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Record a request that failed without telling whether the API works
+   * (cancelled, invalid data); if it was the trial, the next request becomes the trial.
+   */
+  recordInconclusive(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Forget the decisions so far; the state is kept
+   */
+  resetStats(): void {
+    this.opened = 0;
+    this.rejected = 0;
+  }
+
+  /**
+   * Current state and decisions so far
+   */
+  getStats(): CircuitBreakerStats {
+    return { state: this.state, opened: this.opened, rejected: this.rejected };
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Data Directory Lock Service
+ *
+ * Keeps two writing processes (a scheduled collection and a manual backfill,
+ * say) from merging into the same data directory at once. The lock file
+ * records its owner; a lock left behind by a process that no longer runs on
+ * this host is taken over.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import { FILESYSTEM } from '../utils/constants.js';
+import { createLogger, LOG_NAMESPACES } from '../utils/index.js';
+import { isFileSystemError } from '../utils/validation.js';
+import { PathManager } from './PathManager.js';
+
+const logger = createLogger(LOG_NAMESPACES.STORAGE);
+
+/**
+ * Contents of the lock file
+ */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  command: string;
+  acquiredAt: string;
+}
+
+/**
+ * Error thrown when another process holds the data directory lock
+ */
+export class DataDirLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataDirLockedError';
+  }
+}
+
+/**
+ * Exclusive lock on a data directory, held for the duration of a writing command
+ *
+ * @example
+ * const lock = new DataDirLock('./docs/data');
+ * await lock.acquire('collect');
+ * try { ... } finally { await lock.release(); }
+ */
+export class DataDirLock {
+  private readonly lockPath: string;
+  private held = false;
+
+  constructor(private readonly dataDir: string) {
+    this.lockPath = new PathManager(dataDir).getLockFilePath();
+  }
+
+  /**
+   * Take the lock, replacing a stale one
+   * @throws {DataDirLockedError} If a running process holds the lock
+   */
+  async acquire(command: string): Promise<void> {
+    const owner: LockOwner = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      command,
+      acquiredAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(this.dataDir, { recursive: true });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (await this.tryCreate(owner)) {
+        this.held = true;
+        logger.debug(`Acquired data directory lock ${this.lockPath}`);
+        return;
+      }
+
+      const current = await this.readOwner();
+      if (current && !this.isStale(current)) {
+        throw new DataDirLockedError(
+          `Data directory is locked by "${current.command}" (pid ${current.pid} on ${current.hostname}) since ${current.acquiredAt}; if no such process is running, delete ${this.lockPath}`,
+        );
+      }
+
+      logger.warn(
+        current
+          ? `Taking over stale lock of "${current.command}" (pid ${current.pid}) from ${current.acquiredAt}`
+          : `Replacing unreadable lock file ${this.lockPath}`,
+      );
+      await fs.rm(this.lockPath, { force: true });
+    }
+
+    throw new DataDirLockedError(`Could not acquire data directory lock ${this.lockPath}`);
+  }
+
+  /**
+   * Release the lock if this process holds it
+   */
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+
+    this.held = false;
+    await fs.rm(this.lockPath, { force: true });
+    logger.debug(`Released data directory lock ${this.lockPath}`);
+  }
+
+  /**
+   * Create the lock file unless it exists
+   *
+   * The owner is written to a temporary file that is then hard-linked into
+   * place: the link fails if the lock exists, and a lock file is never seen
+   * without its contents.
+   */
+  private async tryCreate(owner: LockOwner): Promise<boolean> {
+    const tempPath = `${this.lockPath}.${process.pid}${FILESYSTEM.TEMP_SUFFIX}`;
+    await fs.writeFile(tempPath, JSON.stringify(owner, null, FILESYSTEM.JSON_INDENT));
+
+    try {
+      await fs.link(tempPath, this.lockPath);
+      return true;
+    } catch (error) {
+      if (isFileSystemError(error) && error.code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  private async readOwner(): Promise<LockOwner | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.lockPath, FILESYSTEM.ENCODING)) as LockOwner;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * A lock is stale if its process no longer runs on this host
+   * Locks of other hosts (shared directories) are never considered stale.
+   */
+  private isStale(owner: LockOwner): boolean {
+    if (owner.hostname !== os.hostname()) {
+      return false;
+    }
+
+    try {
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      return isFileSystemError(error) && error.code === 'ESRCH';
+    }
+  }
+}
@@ -5,29 +5,103 @@
  * Provides pure functions for combining datasets.
  */
 
-import type { TrafficDataPoint, DailyEntry, DailyTotals } from '../types.js';
-import { createLogger, LOG_NAMESPACES } from '../utils/index.js';
-import { extractMonth } from '../utils/datetime.js';
+import { isDeepStrictEqual } from 'util';
+import type {
+  TrafficDataPoint,
+  AggregateTier,
+  BaselineCounts,
+  BaselineDay,
+  BaselineDeviation,
+  BaselineHour,
+  BaselineMode,
+  DailyAverages,
+  DailyEntry,
+  DailyTotals,
+  PeriodEntry,
+  QuarterHourDataPoint,
+  TrafficBaseline,
+} from '../types.js';
+import { createLogger, isValidTimeZone, LOG_NAMESPACES, SPEED } from '../utils/index.js';
+import {
+  addDays,
+  extractMonth,
+  getIsoWeek,
+  getIsoWeekStart,
+  getLocalDate,
+  getLocalDayRange,
+  getLocalWeekdayHour,
+  shiftMonth,
+} from '../utils/datetime.js';
 
 const logger = createLogger(LOG_NAMESPACES.STORAGE);
 
+/**
+ * Minimal shape of a point that can be merged (hourly or quarter-hour)
+ */
+type MergeablePoint = { date?: string; interval?: string };
+
+/** Count fields summed into daily totals */
+const DAILY_COUNT_FIELDS: (keyof DailyAverages)[] = [
+  'heavy',
+  'car',
+  'bike',
+  'pedestrian',
+  'night',
+  'heavy_lft',
+  'heavy_rgt',
+  'car_lft',
+  'car_rgt',
+  'bike_lft',
+  'bike_rgt',
+  'pedestrian_lft',
+  'pedestrian_rgt',
+  'night_lft',
+  'night_rgt',
+];
+
+/** Speed histograms, finest first, with their bin width in km/h; the last bin is open-ended */
+const SPEED_HISTOGRAMS = [
+  { field: 'car_speed_hist_0to120plus', binWidth: 5 },
+  { field: 'car_speed_hist_0to70plus', binWidth: 10 },
+] as const;
+
+/**
+ * Car count and speed histograms of an hourly point or a day
+ */
+type SpeedRecord = Pick<DailyTotals, 'car' | (typeof SPEED_HISTOGRAMS)[number]['field']>;
+
+/** Numeric fields that describe a point rather than count traffic, so they are not summed in roll-ups */
+const NON_ADDITIVE_FIELDS = new Set([
+  'device_id',
+  'instance_id',
+  'segment_id',
+  'uptime',
+  'direction',
+  'v85',
+]);
+
+const QUARTERS_PER_HOUR = 4;
+
+const BASELINE_MODES: BaselineMode[] = ['heavy', 'car', 'bike', 'pedestrian'];
+
 /**
  * Service for merging and aggregating traffic data
  */
 export class DataMerger {
+  /**
+   * @param speedThresholds - Speeds (km/h) daily totals report the share of faster cars for
+   */
+  constructor(private readonly speedThresholds: readonly number[] = SPEED.DEFAULT_THRESHOLDS) {}
+
   /**
    * Merge existing and new data points, removing duplicates
-   * Uses ISO timestamp as unique key
-   */
-  mergeDataPoints(
-    deviceId: string,
-    existing: TrafficDataPoint[],
-    incoming: TrafficDataPoint[],
-  ): TrafficDataPoint[] {
-    const dataMap = new Map<string, TrafficDataPoint>();
+   * Uses interval and ISO timestamp as unique key
+   */
+  mergeDataPoints<T extends MergeablePoint>(deviceId: string, existing: T[], incoming: T[]): T[] {
+    const dataMap = new Map<string, T>();
     let skippedMissingDate = 0;
 
-    const addPoint = (point: TrafficDataPoint) => {
+    const addPoint = (point: T) => {
       const key = this.createDataPointKey(point);
       if (!key) {
         skippedMissingDate += 1;
@@ -60,17 +134,149 @@ export class DataMerger {
   }
 
   /**
-   * Create a unique key for a data point based on its ISO timestamp
+   * Classify incoming points against existing ones without merging
+   */
+  diffDataPoints<T extends MergeablePoint>(
+    existing: T[],
+    incoming: T[],
+  ): { added: number; replaced: number; unchanged: number } {
+    const existingByKey = new Map<string, T>();
+    existing.forEach((point) => {
+      const key = this.createDataPointKey(point);
+      if (key) existingByKey.set(key, point);
+    });
+
+    const diff = { added: 0, replaced: 0, unchanged: 0 };
+    for (const point of incoming) {
+      const key = this.createDataPointKey(point);
+      if (!key) continue;
+
+      const previous = existingByKey.get(key);
+      if (!previous) {
+        diff.added++;
+      } else if (isDeepStrictEqual(previous, point)) {
+        diff.unchanged++;
+      } else {
+        diff.replaced++;
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * List the dates whose daily totals would be new or different after merging
+   */
+  diffDailyEntries(existing: DailyEntry[], incoming: DailyEntry[]): string[] {
+    const existingByDate = new Map(existing.map((entry) => [entry.date, entry.totals]));
+
+    return incoming
+      .filter((entry) => !isDeepStrictEqual(existingByDate.get(entry.date), entry.totals))
+      .map((entry) => entry.date);
+  }
+
+  /**
+   * Create a unique key for a data point from its interval and ISO timestamp
+   * The interval keeps quarter-hour points from ever colliding with hourly ones.
    */
-  private createDataPointKey(point: TrafficDataPoint): string | null {
-    return point.date ?? null;
+  private createDataPointKey(point: MergeablePoint): string | null {
+    return point.date ? `${point.interval ?? 'hourly'}@${point.date}` : null;
+  }
+
+  /**
+   * Roll quarter-hour points up into hourly points
+   *
+   * Only hours with all four quarters are rolled up, so a partially reported
+   * hour never replaces a complete one. Counts are summed, uptime is averaged
+   * and speed histograms are averaged weighted by car count. v85 cannot be
+   * derived from quarter values and is left empty.
+   */
+  rollUpQuarterHours(points: QuarterHourDataPoint[]): TrafficDataPoint[] {
+    const byHour = new Map<string, Map<string, QuarterHourDataPoint>>();
+
+    for (const point of points) {
+      if (!point.date) continue;
+      const date = new Date(point.date);
+      if (Number.isNaN(date.getTime())) continue;
+
+      const quarterKey = date.toISOString();
+      date.setUTCMinutes(0, 0, 0);
+      const hourKey = date.toISOString();
+
+      if (!byHour.has(hourKey)) {
+        byHour.set(hourKey, new Map());
+      }
+      byHour.get(hourKey)!.set(quarterKey, point);
+    }
+
+    const hourly: TrafficDataPoint[] = [];
+    for (const [hour, quarters] of byHour.entries()) {
+      if (quarters.size === QUARTERS_PER_HOUR) {
+        hourly.push(this.rollUpHour(hour, Array.from(quarters.values())));
+      }
+    }
+
+    return hourly.sort((a, b) => (a.date ?? '').localeCompare(b.date ?? ''));
+  }
+
+  /**
+   * Combine the four quarters of one hour into an hourly point
+   */
+  private rollUpHour(hour: string, quarters: QuarterHourDataPoint[]): TrafficDataPoint {
+    const rolled: Record<string, unknown> = { ...quarters[0], date: hour, interval: 'hourly' };
+    delete rolled.device_id;
+    const cars = quarters.map((quarter) => quarter.car ?? 0);
+    const totalCars = cars.reduce((sum, value) => sum + value, 0);
+
+    for (const [field, firstValue] of Object.entries(quarters[0])) {
+      const values = quarters.map((quarter) => (quarter as Record<string, unknown>)[field]);
+
+      if (field === 'uptime') {
+        const uptimes = values.filter((v): v is number => typeof v === 'number');
+        rolled[field] =
+          uptimes.length > 0 ? uptimes.reduce((sum, v) => sum + v, 0) / uptimes.length : null;
+      } else if (field === 'v85') {
+        rolled[field] = null;
+      } else if (Array.isArray(firstValue)) {
+        rolled[field] = this.weightedHistogram(values, cars, totalCars);
+      } else if (
+        !NON_ADDITIVE_FIELDS.has(field) &&
+        values.some((value) => typeof value === 'number')
+      ) {
+        rolled[field] = values.reduce<number>(
+          (sum, value) => sum + (typeof value === 'number' ? value : 0),
+          0,
+        );
+      }
+    }
+
+    return rolled as TrafficDataPoint;
+  }
+
+  /**
+   * Average histograms bin by bin, weighted by the car count of each quarter
+   */
+  private weightedHistogram(values: unknown[], weights: number[], totalWeight: number): number[] {
+    const histograms = values.map((value) => (Array.isArray(value) ? (value as number[]) : []));
+    const length = Math.max(...histograms.map((histogram) => histogram.length));
+
+    return Array.from({ length }, (_, bin) => {
+      if (totalWeight === 0) {
+        return 0;
+      }
+      const weighted = histograms.reduce(
+        (sum, histogram, i) => sum + (histogram[bin] ?? 0) * weights[i],
+        0,
+      );
+      return weighted / totalWeight;
+    });
   }
 
   /**
    * Group data points by month (YYYY-MM)
    */
-  groupByMonth(data: TrafficDataPoint[]): Map<string, TrafficDataPoint[]> {
-    const monthMap = new Map<string, TrafficDataPoint[]>();
+  groupByMonth<T extends MergeablePoint>(data: T[]): Map<string, T[]> {
+    const monthMap = new Map<string, T[]>();
 
     for (const point of data) {
       if (!point.date) continue;
@@ -87,15 +293,15 @@ export class DataMerger {
   }
 
   /**
-   * Group data points by day (YYYY-MM-DD)
+   * Group data points by calendar day (YYYY-MM-DD) in a time zone
    */
-  groupByDay(data: TrafficDataPoint[]): Map<string, TrafficDataPoint[]> {
+  groupByDay(data: TrafficDataPoint[], timeZone = 'UTC'): Map<string, TrafficDataPoint[]> {
     const dayMap = new Map<string, TrafficDataPoint[]>();
 
     for (const point of data) {
       if (!point.date) continue;
 
-      const day = point.date.substring(0, 10);
+      const day = getLocalDate(new Date(point.date), timeZone);
 
       if (!dayMap.has(day)) {
         dayMap.set(day, []);
@@ -107,16 +313,41 @@ export class DataMerger {
   }
 
   /**
-   * Build aggregated daily entries from hourly data points
+   * Time zone to cut days in: the device's configured one, else that of the latest point naming one, else UTC
    */
-  buildDailyEntries(points: TrafficDataPoint[]): DailyEntry[] {
-    const grouped = this.groupByDay(points);
+  resolveTimeZone(points: TrafficDataPoint[], deviceTimeZone?: string): string {
+    if (deviceTimeZone && isValidTimeZone(deviceTimeZone)) {
+      return deviceTimeZone;
+    }
+
+    let latest: TrafficDataPoint | undefined;
+    for (const point of points) {
+      if (point.date && point.timezone && (!latest || point.date > latest.date!)) {
+        latest = point;
+      }
+    }
+
+    return latest && isValidTimeZone(latest.timezone) ? latest.timezone! : 'UTC';
+  }
+
+  /**
+   * Build aggregated daily entries from hourly data points, one per calendar day in the time zone
+   * With a baseline, each entry also records its deviation from typical traffic.
+   */
+  buildDailyEntries(
+    points: TrafficDataPoint[],
+    baseline?: TrafficBaseline | null,
+    timeZone = 'UTC',
+  ): DailyEntry[] {
+    const grouped = this.groupByDay(points, timeZone);
     const entries: DailyEntry[] = [];
 
     for (const [date, dayPoints] of grouped.entries()) {
+      const deviation = baseline ? this.compareWithBaseline(dayPoints, baseline) : null;
       entries.push({
         date,
         totals: this.aggregateDay(dayPoints),
+        ...(deviation && { deviation }),
       });
     }
 
@@ -140,6 +371,203 @@ export class DataMerger {
     return Array.from(map.values()).sort((a, b) => a.date.localeCompare(b.date));
   }
 
+  /**
+   * Period of a tier (ISO week, month or year) a calendar day belongs to
+   */
+  getPeriod(day: string, tier: AggregateTier): string {
+    switch (tier) {
+      case 'weekly':
+        return getIsoWeek(day);
+      case 'monthly':
+        return day.substring(0, 7);
+      case 'yearly':
+        return day.substring(0, 4);
+    }
+  }
+
+  /**
+   * First and last calendar day (YYYY-MM-DD) of a period
+   */
+  getPeriodDays(period: string, tier: AggregateTier): { start: string; end: string } {
+    switch (tier) {
+      case 'weekly': {
+        const start = getIsoWeekStart(period);
+        return { start, end: addDays(start, 6) };
+      }
+      case 'monthly':
+        return { start: `${period}-01`, end: addDays(`${shiftMonth(period, 1)}-01`, -1) };
+      case 'yearly':
+        return { start: `${period}-01-01`, end: `${period}-12-31` };
+    }
+  }
+
+  /**
+   * Aggregate daily entries into the periods of a tier
+   *
+   * Totals are summed; averages are per day with data, and coverage relates
+   * the days and hours with data to the whole period.
+   *
+   * @param timeZone - Time zone the days are cut in, for the length of DST days
+   */
+  buildPeriodEntries(entries: DailyEntry[], tier: AggregateTier, timeZone: string): PeriodEntry[] {
+    const grouped = new Map<string, DailyEntry[]>();
+    for (const entry of entries) {
+      const period = this.getPeriod(entry.date, tier);
+      if (!grouped.has(period)) {
+        grouped.set(period, []);
+      }
+      grouped.get(period)!.push(entry);
+    }
+
+    const periods: PeriodEntry[] = [];
+    for (const [period, days] of grouped.entries()) {
+      const { start, end } = this.getPeriodDays(period, tier);
+      const totals = this.sumDailyTotals(days.map((entry) => entry.totals));
+
+      const avgPerDay: DailyAverages = {};
+      for (const field of DAILY_COUNT_FIELDS) {
+        const total = totals[field];
+        if (total !== undefined) {
+          avgPerDay[field] = Math.round((total / days.length) * 10) / 10;
+        }
+      }
+
+      const calendarDays = Math.round((Date.parse(end) - Date.parse(start)) / 86_400_000) + 1;
+      const periodHours =
+        (getLocalDayRange(end, timeZone).end.getTime() -
+          getLocalDayRange(start, timeZone).start.getTime()) /
+        3_600_000;
+
+      periods.push({
+        period,
+        start,
+        end,
+        totals,
+        avgPerDay,
+        coverage: {
+          days: days.length,
+          calendarDays,
+          dayShare: Math.round((days.length / calendarDays) * 1000) / 1000,
+          hourShare: Math.round((totals.hours / periodHours) * 1000) / 1000,
+        },
+      });
+    }
+
+    return periods.sort((a, b) => a.period.localeCompare(b.period));
+  }
+
+  /**
+   * Merge existing and new period entries by period
+   */
+  mergePeriodEntries(existing: PeriodEntry[], incoming: PeriodEntry[]): PeriodEntry[] {
+    const map = new Map<string, PeriodEntry>();
+
+    for (const entry of [...existing, ...incoming]) {
+      map.set(entry.period, entry);
+    }
+
+    return Array.from(map.values()).sort((a, b) => a.period.localeCompare(b.period));
+  }
+
+  /**
+   * Compare a day's hourly points with the typical traffic for the same local hours
+   *
+   * Only hours with a typical value are compared, so partially covered days are
+   * measured against the typical traffic of the hours that were counted.
+   *
+   * @returns The deviation, or null if no hour could be matched to the baseline
+   */
+  private compareWithBaseline(
+    points: TrafficDataPoint[],
+    baseline: TrafficBaseline,
+  ): BaselineDeviation | null {
+    const expected: BaselineCounts = {};
+    const actual: BaselineCounts = {};
+    let hours = 0;
+
+    for (const point of points) {
+      const typical = point.date ? this.findBaselineHour(point, baseline) : undefined;
+      if (!typical) continue;
+
+      hours++;
+      for (const mode of BASELINE_MODES) {
+        // Modes the baseline has no value for are left out rather than expected as 0
+        const average = typical.avg[mode];
+        if (typeof average === 'number') {
+          expected[mode] = (expected[mode] ?? 0) + average;
+          actual[mode] = (actual[mode] ?? 0) + (point[mode] ?? 0);
+        }
+      }
+    }
+
+    if (hours === 0) {
+      return null;
+    }
+
+    const deviation: BaselineDeviation = {
+      baselinePeriodEnd: baseline.periodEnd,
+      hours,
+      expected: {},
+      relative: {},
+    };
+    for (const mode of BASELINE_MODES) {
+      const typical = expected[mode];
+      if (typical === undefined) continue;
+
+      const measured = actual[mode] ?? 0;
+      deviation.expected[mode] = Math.round(typical * 10) / 10;
+      deviation.relative[mode] =
+        typical > 0 ? Math.round(((measured - typical) / typical) * 1000) / 1000 : null;
+    }
+
+    return deviation;
+  }
+
+  /**
+   * Look up the typical traffic for a point's local weekday and hour
+   * Falls back to the weekday/weekend profile used by monthly baselines.
+   */
+  private findBaselineHour(
+    point: TrafficDataPoint,
+    baseline: TrafficBaseline,
+  ): BaselineHour | undefined {
+    // Typical traffic is calculated in local time, hourly data is in UTC
+    const { weekday, hour } = getLocalWeekdayHour(new Date(point.date!), point.timezone ?? 'UTC');
+    const dayType: BaselineDay = weekday === 'sat' || weekday === 'sun' ? 'wend' : 'wday';
+
+    return baseline.profiles[weekday as BaselineDay]?.[hour] ?? baseline.profiles[dayType]?.[hour];
+  }
+
+  /**
+   * Sum daily totals, averaging uptime weighted by each day's hours
+   */
+  private sumDailyTotals(days: DailyTotals[]): DailyTotals {
+    const totals: DailyTotals = { hours: 0 };
+    let uptimeHours = 0;
+    let uptimeSum = 0;
+
+    for (const day of days) {
+      totals.hours += day.hours;
+      for (const field of DAILY_COUNT_FIELDS) {
+        const value = day[field];
+        if (typeof value === 'number') {
+          totals[field] = (totals[field] ?? 0) + value;
+        }
+      }
+      if (typeof day.uptime_avg === 'number') {
+        uptimeHours += day.hours;
+        uptimeSum += day.uptime_avg * day.hours;
+      }
+    }
+
+    if (uptimeHours > 0) {
+      totals.uptime_avg = uptimeSum / uptimeHours;
+    }
+
+    this.addSpeedFigures(totals, days);
+    return totals;
+  }
+
   /**
    * Aggregate hourly points into daily totals
    */
@@ -148,26 +576,8 @@ export class DataMerger {
       hours: points.length,
     };
 
-    const numericFields: (keyof DailyTotals)[] = [
-      'heavy',
-      'car',
-      'bike',
-      'pedestrian',
-      'night',
-      'heavy_lft',
-      'heavy_rgt',
-      'car_lft',
-      'car_rgt',
-      'bike_lft',
-      'bike_rgt',
-      'pedestrian_lft',
-      'pedestrian_rgt',
-      'night_lft',
-      'night_rgt',
-    ];
-
     for (const point of points) {
-      for (const field of numericFields) {
+      for (const field of DAILY_COUNT_FIELDS) {
         const value = point[field as keyof TrafficDataPoint];
         if (typeof value === 'number') {
           totals[field] = (totals[field] ?? 0) + value;
@@ -181,6 +591,84 @@ export class DataMerger {
       totals.uptime_avg = uptimes.reduce((sum, u) => sum + u, 0) / uptimes.length;
     }
 
+    this.addSpeedFigures(totals, points);
     return totals;
   }
+
+  /**
+   * Add car-weighted speed histograms, the estimated v85 and the share of cars above each speed threshold
+   * Records without cars or without a histogram are left out of the weighting.
+   */
+  private addSpeedFigures(totals: DailyTotals, records: SpeedRecord[]): void {
+    for (const { field } of SPEED_HISTOGRAMS) {
+      const weighted = records.filter(
+        (record) => (record.car ?? 0) > 0 && (record[field]?.length ?? 0) > 0,
+      );
+      const cars = weighted.map((record) => record.car!);
+      const totalCars = cars.reduce((sum, value) => sum + value, 0);
+      if (totalCars > 0) {
+        totals[field] = this.weightedHistogram(
+          weighted.map((record) => record[field]),
+          cars,
+          totalCars,
+        ).map((share) => Math.round(share * 100) / 100);
+      }
+    }
+
+    // The finest histogram gives the closest estimates
+    const finest = SPEED_HISTOGRAMS.find(({ field }) => totals[field]);
+    const histogram = finest ? totals[finest.field]! : [];
+    const total = histogram.reduce((sum, share) => sum + share, 0);
+    if (!finest || total <= 0) {
+      return;
+    }
+
+    // Rounded shares need not add up to exactly 100
+    const percentages = histogram.map((share) => (share / total) * 100);
+    totals.v85 = estimateSpeedPercentile(percentages, finest.binWidth, SPEED.V85_PERCENTILE);
+
+    // Thresholds inside the open-ended last bin cannot be split
+    const openBinStart = (histogram.length - 1) * finest.binWidth;
+    const shares = this.speedThresholds
+      .filter((threshold) => threshold <= openBinStart)
+      .map((threshold) => [
+        String(threshold),
+        Math.round(shareAbove(percentages, finest.binWidth, threshold) * 10) / 10,
+      ]);
+    if (shares.length > 0) {
+      totals.car_speed_above = Object.fromEntries(shares);
+    }
+  }
+}
+
+/**
+ * Speed a percentage of cars stay under, interpolated inside its histogram bin
+ */
+function estimateSpeedPercentile(
+  percentages: number[],
+  binWidth: number,
+  percentile: number,
+): number {
+  let cumulative = 0;
+  for (const [index, share] of percentages.entries()) {
+    if (share > 0 && cumulative + share >= percentile) {
+      return Math.round((index + (percentile - cumulative) / share) * binWidth * 10) / 10;
+    }
+    cumulative += share;
+  }
+  return percentages.length * binWidth;
+}
+
+/**
+ * Percentage of cars faster than a speed, assuming speeds spread evenly inside each bin
+ * The open-ended last bin counts as faster; the speed must not lie inside it.
+ */
+function shareAbove(percentages: number[], binWidth: number, speed: number): number {
+  return percentages.reduce((sum, share, index) => {
+    if (index === percentages.length - 1) {
+      return sum + share;
+    }
+    const fasterPart = ((index + 1) * binWidth - speed) / binWidth;
+    return sum + share * Math.min(Math.max(fasterPart, 0), 1);
+  }, 0);
 }
@@ -0,0 +1,83 @@
+/**
+ * Device Registry Service
+ *
+ * Loads, validates and updates the versioned device registry file.
+ * Replaces the hardcoded device list so sensors can be added or retired
+ * without rebuilding.
+ */
+
+import type { DeviceConfig, DeviceRegistryFile } from '../types.js';
+import { createLogger, DEVICE_REGISTRY, LOG_NAMESPACES } from '../utils/index.js';
+import { ConfigError, validateDeviceRegistry } from '../utils/validation.js';
+import { FileService } from './FileService.js';
+
+const logger = createLogger(LOG_NAMESPACES.REGISTRY);
+
+/**
+ * Access to the device registry file
+ */
+export class DeviceRegistry {
+  private readonly fileService = new FileService();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Load and validate all registry entries, including disabled devices
+   * @throws {ConfigError} If the file is missing or any entry is invalid
+   */
+  async loadAll(): Promise<DeviceConfig[]> {
+    const data = await this.fileService.readJson<unknown>(
+      this.filePath,
+      `loading device registry ${this.filePath}`,
+    );
+
+    if (data === null) {
+      throw new ConfigError(`Device registry not found: ${this.filePath}`);
+    }
+
+    const validation = validateDeviceRegistry(data);
+    if (!validation.valid) {
+      throw new ConfigError(
+        `Invalid device registry ${this.filePath}: ${validation.errors.join('; ')}`,
+      );
+    }
+
+    return (data as DeviceRegistryFile).devices;
+  }
+
+  /**
+   * Load the devices that should be collected
+   */
+  async loadEnabled(): Promise<DeviceConfig[]> {
+    const devices = await this.loadAll();
+    const enabled = devices.filter((device) => device.enabled !== false);
+
+    logger.debug(
+      `Loaded ${devices.length} device(s) from ${this.filePath}, ${enabled.length} enabled`,
+    );
+
+    return enabled;
+  }
+
+  /**
+   * Append devices whose ids are not in the registry yet
+   *
+   * @returns Number of devices added
+   */
+  async addDevices(newDevices: DeviceConfig[]): Promise<number> {
+    const existing = await this.loadAll();
+    const knownIds = new Set(existing.map((device) => device.id));
+    const additions = newDevices.filter((device) => !knownIds.has(device.id));
+
+    if (additions.length > 0) {
+      const registry: DeviceRegistryFile = {
+        version: DEVICE_REGISTRY.VERSION,
+        devices: [...existing, ...additions],
+      };
+      await this.fileService.writeJson(this.filePath, registry, 'updating device registry');
+    }
+
+    logger.info(`Added ${additions.length} device(s) to ${this.filePath}`);
+    return additions.length;
+  }
+}
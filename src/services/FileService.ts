@@ -3,20 +3,57 @@
  *
  * Low-level file system operations with consistent error handling.
  * Provides atomic file operations and directory management.
+ *
+ * Every write goes to a temporary file next to its target and is renamed
+ * into place, so readers and crashes never see a half-written file. Writes
+ * staged in a `WriteBatch` are published together through a journal: a
+ * crash while renaming is completed by `recoverJournals()` on the next run.
+ *
+ * JSON files may be stored gzip-compressed as `<name>.json.gz`, instead of or
+ * next to `<name>.json`; `readJson()` reads either form.
  */
 
+import { randomBytes } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import type { JsonCompression } from '../types.js';
 import { FILESYSTEM } from '../utils/constants.js';
 import { createLogger, LOG_NAMESPACES } from '../utils/index.js';
 import { isFileSystemError } from '../utils/validation.js';
 
 const logger = createLogger(LOG_NAMESPACES.STORAGE);
 
+/**
+ * Writes collected by `writeJson`/`deleteFile` and published together by `FileService.commit()`
+ * Reads do not see staged writes before the commit.
+ */
+export class WriteBatch {
+  /** Staged changes: path → serialized (or gzipped) content, null = delete */
+  readonly changes = new Map<string, string | Uint8Array | null>();
+}
+
+/**
+ * Commit journal: the renames (and deletes) that publish a batch
+ */
+interface CommitJournal {
+  createdAt: string;
+  renames: { from: string; to: string }[];
+  deletes: string[];
+}
+
 /**
  * Handles all file system I/O operations
  */
 export class FileService {
+  /** Dry-run writes (path → serialized content, null = deleted) served back by readJson */
+  private readonly pendingWrites = new Map<string, string | null>();
+
+  /**
+   * @param dryRun - When true, writes and deletes are kept in memory instead of touching disk
+   */
+  constructor(private readonly dryRun = false) {}
+
   /**
    * Ensure a directory exists, creating it if necessary
    */
@@ -32,45 +69,208 @@ export class FileService {
   }
 
   /**
-   * Write JSON data to a file atomically
+   * Write JSON data to a file atomically, or stage it in a batch
+   *
+   * @param compression - 'gzip' writes `<filePath>.gz` and removes `filePath`; 'both' writes
+   *   both files; 'none' (default) writes `filePath` and removes a `.gz` left by an earlier mode
    */
-  async writeJson<T>(filePath: string, data: T, context: string): Promise<void> {
-    await this.ensureDirectory(path.dirname(filePath));
+  async writeJson<T>(
+    filePath: string,
+    data: T,
+    context: string,
+    batch?: WriteBatch,
+    compression: JsonCompression = 'none',
+  ): Promise<void> {
+    const changes = encodeJsonFiles(filePath, data, compression);
+
+    if (batch) {
+      for (const [targetPath, content] of changes) {
+        batch.changes.set(targetPath, content);
+      }
+      return;
+    }
+
+    if (this.dryRun) {
+      for (const [targetPath, content] of changes) {
+        this.pendingWrites.set(targetPath, content === null ? null : JSON.stringify(data));
+      }
+      logger.debug(`Dry run: skipped ${context} (${filePath})`);
+      return;
+    }
+
+    // The file that is removed comes last, so readers always find one of the two
+    for (const [targetPath, content] of changes) {
+      if (content === null) {
+        await fs.rm(targetPath, { force: true });
+      } else {
+        await this.writeAtomic(targetPath, content, context);
+      }
+    }
+  }
+
+  /**
+   * Publish the staged writes and deletes of a batch together
+   *
+   * All files are written to temporary files first; the journal listing
+   * their renames is written before any target changes and removed after
+   * the last one, so an interrupted commit is either invisible or completed
+   * by `recoverJournals()`.
+   *
+   * @param journalDir - Directory for commit journals (inside the locked data directory)
+   */
+  async commit(batch: WriteBatch, journalDir: string, context: string): Promise<void> {
+    if (batch.changes.size === 0) {
+      return;
+    }
+
+    if (this.dryRun) {
+      for (const [filePath, content] of batch.changes) {
+        this.pendingWrites.set(
+          filePath,
+          content instanceof Uint8Array
+            ? gunzipSync(content).toString(FILESYSTEM.ENCODING)
+            : content,
+        );
+      }
+      logger.debug(`Dry run: skipped ${context} (${batch.changes.size} file(s))`);
+      return;
+    }
+
+    const journal: CommitJournal = {
+      createdAt: new Date().toISOString(),
+      renames: [],
+      deletes: [],
+    };
+    const journalPath = path.join(journalDir, `${createTempId()}${FILESYSTEM.JOURNAL_SUFFIX}`);
 
     try {
-      const json = JSON.stringify(data, null, FILESYSTEM.JSON_INDENT);
-      await fs.writeFile(filePath, json, FILESYSTEM.ENCODING);
+      for (const [filePath, content] of batch.changes) {
+        if (content === null) {
+          journal.deletes.push(filePath);
+        } else {
+          journal.renames.push({ from: await this.writeTemp(filePath, content), to: filePath });
+        }
+      }
+
+      await this.writeAtomic(
+        journalPath,
+        JSON.stringify(journal),
+        `writing journal for ${context}`,
+      );
     } catch (error) {
+      await Promise.all(journal.renames.map(({ from }) => fs.rm(from, { force: true })));
       logger.error(`Error while ${context}`, error);
       throw new Error(
         `Failed while ${context}: ${error instanceof Error ? error.message : String(error)}`,
       );
     }
+
+    await this.applyJournal(journalPath, journal);
   }
 
   /**
-   * Read JSON data from a file
-   * Returns null if file doesn't exist
+   * Complete commits interrupted after their journal was written, then remove stale temporary files
+   *
+   * Must only run while holding the data directory lock. Temporary files
+   * younger than `FILESYSTEM.STALE_TEMP_MS` are kept, since writers that do
+   * not take the lock (the `live` command) may still be about to rename them.
+   *
+   * @returns Number of interrupted commits completed
    */
-  async readJson<T>(filePath: string, context: string): Promise<T | null> {
+  async recoverJournals(journalDir: string, rootDir: string): Promise<number> {
+    let journals: string[] = [];
     try {
-      const data = await fs.readFile(filePath, FILESYSTEM.ENCODING);
-      return JSON.parse(data) as T;
-    } catch (error: unknown) {
-      if (isFileSystemError(error) && error.code === 'ENOENT') {
-        return null;
+      journals = await this.collectFiles(journalDir, [FILESYSTEM.JOURNAL_SUFFIX]);
+    } catch (error) {
+      if (!isFileSystemError(error) || error.code !== 'ENOENT') throw error;
+    }
+
+    for (const journalPath of journals.sort()) {
+      const journal = await this.readJson<CommitJournal>(journalPath, 'reading commit journal');
+      if (journal) {
+        logger.warn(
+          `Completing interrupted commit of ${journal.renames.length + journal.deletes.length} file(s) from ${journal.createdAt}`,
+        );
+        await this.applyJournal(journalPath, journal);
+      }
+    }
+
+    let tempFiles: string[] = [];
+    try {
+      tempFiles = await this.collectFiles(rootDir, [FILESYSTEM.TEMP_SUFFIX]);
+    } catch (error) {
+      if (!isFileSystemError(error) || error.code !== 'ENOENT') throw error;
+    }
+
+    const staleBefore = Date.now() - FILESYSTEM.STALE_TEMP_MS;
+    const leftovers: string[] = [];
+    for (const filePath of tempFiles) {
+      try {
+        if ((await fs.stat(filePath)).mtimeMs < staleBefore) leftovers.push(filePath);
+      } catch (error) {
+        // Renamed into place by its writer in the meantime
+        if (!isFileSystemError(error) || error.code !== 'ENOENT') throw error;
+      }
+    }
+    if (leftovers.length > 0) {
+      logger.warn(`Removing ${leftovers.length} temporary file(s) left by an interrupted write`);
+      await Promise.all(leftovers.map((filePath) => fs.rm(filePath, { force: true })));
+    }
+
+    return journals.length;
+  }
+
+  /**
+   * Read JSON data from a file, or from its gzip-compressed `.gz` form if the file is missing
+   * Returns null if neither exists
+   */
+  async readJson<T>(filePath: string, context: string): Promise<T | null> {
+    const candidates = filePath.endsWith('.json')
+      ? [filePath, `${filePath}${FILESYSTEM.GZIP_SUFFIX}`]
+      : [filePath];
+
+    for (const candidate of candidates) {
+      const pending = this.pendingWrites.get(candidate);
+      if (pending === null) {
+        continue;
+      }
+      if (pending !== undefined) {
+        return JSON.parse(pending) as T;
+      }
+
+      try {
+        const data = await fs.readFile(candidate);
+        const text = candidate.endsWith(FILESYSTEM.GZIP_SUFFIX) ? gunzipSync(data) : data;
+        return JSON.parse(text.toString(FILESYSTEM.ENCODING)) as T;
+      } catch (error: unknown) {
+        if (isFileSystemError(error) && error.code === 'ENOENT') {
+          continue;
+        }
+        logger.error(`Error while ${context}`, error);
+        throw new Error(
+          `Failed while ${context}: ${error instanceof Error ? error.message : String(error)}`,
+        );
       }
-      logger.error(`Error while ${context}`, error);
-      throw new Error(
-        `Failed while ${context}: ${error instanceof Error ? error.message : String(error)}`,
-      );
     }
+
+    return null;
   }
 
   /**
-   * Delete a file if it exists
+   * Delete a file if it exists, or stage the delete in a batch
    */
-  async deleteFile(filePath: string): Promise<void> {
+  async deleteFile(filePath: string, batch?: WriteBatch): Promise<void> {
+    if (batch) {
+      batch.changes.set(filePath, null);
+      return;
+    }
+
+    if (this.dryRun) {
+      this.pendingWrites.set(filePath, null);
+      logger.debug(`Dry run: skipped deleting ${filePath}`);
+      return;
+    }
+
     try {
       await fs.rm(filePath, { force: true });
     } catch (error) {
@@ -78,19 +278,41 @@ export class FileService {
     }
   }
 
+  /**
+   * Delete a JSON file in both its plain and compressed form, or stage the deletes in a batch
+   */
+  async deleteJson(filePath: string, batch?: WriteBatch): Promise<void> {
+    await this.deleteFile(filePath, batch);
+    await this.deleteFile(`${filePath}${FILESYSTEM.GZIP_SUFFIX}`, batch);
+  }
+
   /**
    * Recursively collect all JSON files in a directory
+   * Compressed `.json.gz` files are listed under their `.json` path, which `readJson()` reads.
    */
   async collectJsonFiles(rootDir: string): Promise<string[]> {
+    const files = await this.collectFiles(rootDir, ['.json', `.json${FILESYSTEM.GZIP_SUFFIX}`]);
+    const jsonPaths = files.map((filePath) =>
+      filePath.endsWith(FILESYSTEM.GZIP_SUFFIX)
+        ? filePath.slice(0, -FILESYSTEM.GZIP_SUFFIX.length)
+        : filePath,
+    );
+    return [...new Set(jsonPaths)];
+  }
+
+  /**
+   * Recursively collect all files with one of the given extensions in a directory
+   */
+  async collectFiles(rootDir: string, extensions: readonly string[]): Promise<string[]> {
     const results: string[] = [];
     const entries = await fs.readdir(rootDir, { withFileTypes: true });
 
     for (const entry of entries) {
       const fullPath = path.join(rootDir, entry.name);
       if (entry.isDirectory()) {
-        const nested = await this.collectJsonFiles(fullPath);
+        const nested = await this.collectFiles(fullPath, extensions);
         results.push(...nested);
-      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+      } else if (entry.isFile() && extensions.some((extension) => entry.name.endsWith(extension))) {
         results.push(fullPath);
       }
     }
@@ -98,19 +320,177 @@ export class FileService {
     return results;
   }
 
+  /**
+   * List the names of the subdirectories of a directory
+   * Returns an empty list if the directory doesn't exist
+   */
+  async listDirectories(dirPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch (error) {
+      if (isFileSystemError(error) && error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read text content from a file
+   * Returns null if file doesn't exist
+   */
+  async readText(filePath: string, context: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, FILESYSTEM.ENCODING);
+    } catch (error: unknown) {
+      if (isFileSystemError(error) && error.code === 'ENOENT') {
+        return null;
+      }
+      logger.error(`Error while ${context}`, error);
+      throw new Error(
+        `Failed while ${context}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Read binary content from a file
+   * Returns null if file doesn't exist
+   */
+  async readBinary(filePath: string, context: string): Promise<Uint8Array | null> {
+    try {
+      return await fs.readFile(filePath);
+    } catch (error: unknown) {
+      if (isFileSystemError(error) && error.code === 'ENOENT') {
+        return null;
+      }
+      logger.error(`Error while ${context}`, error);
+      throw new Error(
+        `Failed while ${context}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Write binary content to a file atomically
+   */
+  async writeBinary(filePath: string, content: Uint8Array, context: string): Promise<void> {
+    if (this.dryRun) {
+      logger.debug(`Dry run: skipped ${context} (${filePath})`);
+      return;
+    }
+
+    await this.writeAtomic(filePath, content, context);
+  }
+
   /**
    * Write text content to a file
    */
   async writeText(filePath: string, content: string, context: string): Promise<void> {
-    await this.ensureDirectory(path.dirname(filePath));
+    if (this.dryRun) {
+      logger.debug(`Dry run: skipped ${context} (${filePath})`);
+      return;
+    }
+
+    await this.writeAtomic(filePath, content, context);
+  }
 
+  /**
+   * Write a file via a temporary file and rename, so the target is replaced in one step
+   */
+  private async writeAtomic(
+    filePath: string,
+    content: string | Uint8Array,
+    context: string,
+  ): Promise<void> {
+    let tempPath: string | undefined;
     try {
-      await fs.writeFile(filePath, content, FILESYSTEM.ENCODING);
+      tempPath = await this.writeTemp(filePath, content);
+      await fs.rename(tempPath, filePath);
     } catch (error) {
+      if (tempPath) await fs.rm(tempPath, { force: true });
       logger.error(`Error while ${context}`, error);
       throw new Error(
         `Failed while ${context}: ${error instanceof Error ? error.message : String(error)}`,
       );
     }
   }
+
+  /**
+   * Write content to a flushed temporary file next to the target
+   *
+   * @returns Path of the temporary file
+   */
+  private async writeTemp(filePath: string, content: string | Uint8Array): Promise<string> {
+    await this.ensureDirectory(path.dirname(filePath));
+
+    const tempPath = `${filePath}.${createTempId()}${FILESYSTEM.TEMP_SUFFIX}`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, FILESYSTEM.ENCODING);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    return tempPath;
+  }
+
+  /**
+   * Apply the renames and deletes of a journal, then remove it
+   * Renames whose temporary file is gone were applied before an interruption.
+   */
+  private async applyJournal(journalPath: string, journal: CommitJournal): Promise<void> {
+    for (const { from, to } of journal.renames) {
+      try {
+        await fs.rename(from, to);
+      } catch (error) {
+        if (!isFileSystemError(error) || error.code !== 'ENOENT') throw error;
+      }
+    }
+    for (const filePath of journal.deletes) {
+      await fs.rm(filePath, { force: true });
+    }
+    await fs.rm(journalPath, { force: true });
+  }
+}
+
+/**
+ * Files written for a JSON document in the given compression mode (null = delete)
+ * Compressed files hold compact JSON; gzip leaves the header timestamp at 0, so equal data gives equal files.
+ */
+function encodeJsonFiles<T>(
+  filePath: string,
+  data: T,
+  compression: JsonCompression,
+): [string, string | Uint8Array | null][] {
+  const gzipPath = `${filePath}${FILESYSTEM.GZIP_SUFFIX}`;
+  const plain = (): string => JSON.stringify(data, null, FILESYSTEM.JSON_INDENT);
+  const gzipped = (): Uint8Array => gzipSync(JSON.stringify(data));
+
+  switch (compression) {
+    case 'none':
+      // A `.gz` left by an earlier mode would otherwise keep serving stale data
+      return [
+        [filePath, plain()],
+        [gzipPath, null],
+      ];
+    case 'gzip':
+      return [
+        [gzipPath, gzipped()],
+        [filePath, null],
+      ];
+    case 'both':
+      return [
+        [filePath, plain()],
+        [gzipPath, gzipped()],
+      ];
+  }
+}
+
+/**
+ * Unique name part for temporary and journal files
+ */
+function createTempId(): string {
+  return `${process.pid}-${Date.now()}-${randomBytes(4).toString('hex')}`;
 }
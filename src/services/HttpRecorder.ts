@@ -0,0 +1,241 @@
+/**
+ * HTTP Recorder Service
+ *
+ * Records Telraam API request/response pairs to fixture files and replays
+ * them, so the collection pipeline runs offline and deterministically. The
+ * API key never reaches a fixture: request headers are not stored and the
+ * key is replaced by a placeholder anywhere else it appears.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import { ApiError, type ApiResponse, type Middleware } from 'openapi-typescript-fetch';
+import type { HttpFixture, HttpMode } from '../types.js';
+import { FileService } from './FileService.js';
+import { API, createLogger, FILESYSTEM, LOG_NAMESPACES } from '../utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.CLIENT);
+
+/**
+ * Configuration for the HTTP recorder
+ */
+export interface HttpRecorderConfig {
+  /** Record live responses or replay recorded ones */
+  mode: HttpMode;
+  /** Directory holding one fixture file per request */
+  fixturesDir: string;
+  /** API key to scrub from recorded fixtures */
+  apiKey?: string;
+}
+
+/**
+ * Error thrown in replay mode for a request that was never recorded; never retried
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Response fields stored in a fixture
+ */
+type RecordedResponse = Pick<ApiResponse, 'headers' | 'status' | 'statusText' | 'data'>;
+
+/**
+ * Records or replays HTTP traffic as fetcher middleware and as a fetch wrapper
+ *
+ * Requests are matched by method, URL and body, except for body fields the
+ * client derives from the clock (see `API.FIXTURES.UNKEYED_BODY_FIELDS`), so
+ * a fixture recorded yesterday still answers today's request. Repeated
+ * requests (retries) overwrite their fixture, so it holds the last response
+ * received.
+ *
+ * @example
+ * const recorder = new HttpRecorder({ mode: 'replay', fixturesDir: './fixtures/http' });
+ * fetcher.configure({ baseUrl, use: [recorder.middleware()] });
+ */
+export class HttpRecorder {
+  private readonly fileService = new FileService();
+
+  constructor(private readonly config: HttpRecorderConfig) {}
+
+  get mode(): HttpMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Fetcher middleware; must be the last one so replayed requests skip nothing but the network
+   */
+  middleware(): Middleware {
+    return async (url, init, next) => {
+      const request = this.describeRequest(url, init.method, init.body);
+
+      if (this.config.mode === 'replay') {
+        const fixture = await this.load(request);
+        const response: ApiResponse = {
+          headers: new Headers(fixture.response.headers),
+          url,
+          ok: fixture.response.status >= 200 && fixture.response.status < 300,
+          status: fixture.response.status,
+          statusText: fixture.response.statusText,
+          data: fixture.response.body,
+        };
+        if (response.ok) {
+          return response;
+        }
+        throw new ApiError(response);
+      }
+
+      try {
+        const response = await next(url, init);
+        await this.save(request, response);
+        return response;
+      } catch (error) {
+        // Error responses are recorded too, so replays reproduce them
+        if (error instanceof ApiError) {
+          await this.save(request, error);
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Wrap fetch for requests made outside the typed fetcher (e.g. download URLs)
+   */
+  wrapFetch(fetchFn: typeof fetch = fetch): (url: string, init?: RequestInit) => Promise<Response> {
+    return async (url, init = {}) => {
+      const request = this.describeRequest(url, init.method, init.body);
+
+      if (this.config.mode === 'replay') {
+        const { response } = await this.load(request);
+        const body =
+          typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+        return new Response(body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        });
+      }
+
+      const response = await fetchFn(url, init);
+      const text = await response.clone().text();
+      await this.save(request, {
+        headers: response.headers,
+        status: response.status,
+        statusText: response.statusText,
+        data: parseBody(text),
+      });
+      return response;
+    };
+  }
+
+  /**
+   * Request part of a fixture, with the API key scrubbed
+   */
+  private describeRequest(
+    url: string,
+    method: string | undefined,
+    body: RequestInit['body'],
+  ): HttpFixture['request'] {
+    return {
+      method: (method ?? 'GET').toUpperCase(),
+      url: this.scrub(url),
+      body: typeof body === 'string' ? parseBody(this.scrub(body)) : undefined,
+    };
+  }
+
+  /**
+   * Fixture file of a request: readable method and path plus a hash of the keyed request
+   */
+  private getFixturePath(request: HttpFixture['request']): string {
+    const { pathname } = new URL(request.url);
+    const hash = createHash('sha256')
+      .update(
+        `${request.method} ${request.url}\n${JSON.stringify(getKeyedBody(pathname, request.body))}`,
+      )
+      .digest('hex')
+      .slice(0, API.FIXTURES.HASH_LENGTH);
+    const slug = pathname
+      .replace(/[^a-z0-9]+/gi, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, API.FIXTURES.MAX_SLUG_LENGTH);
+
+    return path.join(
+      this.config.fixturesDir,
+      `${request.method.toLowerCase()}-${slug || 'root'}-${hash}.json`,
+    );
+  }
+
+  private async load(request: HttpFixture['request']): Promise<HttpFixture> {
+    const filePath = this.getFixturePath(request);
+    const fixture = await this.fileService.readJson<HttpFixture>(filePath, 'reading HTTP fixture');
+
+    if (!fixture) {
+      throw new FixtureNotFoundError(
+        `No recorded response for ${request.method} ${request.url} (expected ${filePath}); record it with TELRAAM_HTTP_MODE=record`,
+      );
+    }
+
+    logger.debug(`Replayed ${request.method} ${request.url} from ${filePath}`);
+    return fixture;
+  }
+
+  private async save(request: HttpFixture['request'], response: RecordedResponse): Promise<void> {
+    const filePath = this.getFixturePath(request);
+    const headers: Record<string, string> = {};
+    for (const name of API.FIXTURES.RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    const fixture: HttpFixture = {
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: response.data,
+      },
+      recordedAt: new Date().toISOString(),
+    };
+
+    await this.fileService.writeText(
+      filePath,
+      this.scrub(JSON.stringify(fixture, null, FILESYSTEM.JSON_INDENT)) + '\n',
+      'writing HTTP fixture',
+    );
+    logger.debug(`Recorded ${request.method} ${request.url} to ${filePath}`);
+  }
+
+  private scrub(text: string): string {
+    const { apiKey } = this.config;
+    return apiKey ? text.split(apiKey).join(API.FIXTURES.API_KEY_PLACEHOLDER) : text;
+  }
+}
+
+/**
+ * Parse a JSON body, keeping other content as text
+ */
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Body as far as it identifies the request, without the fields unkeyed for the path
+ */
+function getKeyedBody(pathname: string, body: unknown): unknown {
+  const unkeyed = Object.entries(API.FIXTURES.UNKEYED_BODY_FIELDS).find(([endpoint]) =>
+    pathname.endsWith(endpoint),
+  )?.[1];
+  if (!unkeyed || typeof body !== 'object' || body === null) {
+    return body ?? null;
+  }
+  return Object.fromEntries(Object.entries(body).filter(([field]) => !unkeyed.includes(field)));
+}
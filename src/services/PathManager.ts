@@ -6,6 +6,7 @@
  */
 
 import path from 'path';
+import type { AggregateTier } from '../types.js';
 import { FILESYSTEM } from '../utils/constants.js';
 
 /**
@@ -35,6 +36,48 @@ export class PathManager {
     return path.join(this.getDeviceDirectory(deviceId), FILESYSTEM.HOURLY_DIR, `${month}.json`);
   }
 
+  /**
+   * Get the path of a tabular export (CSV, Parquet) of hourly or daily data
+   * - with a month: next to the month's JSON file, e.g. device_<id>/hourly/2025-11.csv
+   * - without a month: the device's whole history, e.g. device_<id>/hourly.csv
+   * - without a device: all devices' history, e.g. hourly.csv in the data directory
+   */
+  getTableFilePath(
+    level: 'hourly' | 'daily',
+    extension: string,
+    deviceId?: string,
+    month?: string,
+  ): string {
+    if (!deviceId) {
+      return path.join(this.dataDir, `${level}.${extension}`);
+    }
+    const levelDir = level === 'hourly' ? FILESYSTEM.HOURLY_DIR : FILESYSTEM.DAILY_DIR;
+    return month
+      ? path.join(this.getDeviceDirectory(deviceId), levelDir, `${month}.${extension}`)
+      : path.join(this.getDeviceDirectory(deviceId), `${levelDir}.${extension}`);
+  }
+
+  /**
+   * Get the quarter-hour data directory for a device
+   */
+  getQuarterlyDirectory(deviceId: string): string {
+    return path.join(this.getDeviceDirectory(deviceId), FILESYSTEM.QUARTERLY_DIR);
+  }
+
+  /**
+   * Get the quarter-hour data file path for a specific month
+   */
+  getQuarterlyFilePath(deviceId: string, month: string): string {
+    return path.join(this.getQuarterlyDirectory(deviceId), `${month}.json`);
+  }
+
+  /**
+   * Get the daily data directory for a device
+   */
+  getDailyDirectory(deviceId: string): string {
+    return path.join(this.getDeviceDirectory(deviceId), FILESYSTEM.DAILY_DIR);
+  }
+
   /**
    * Get the daily data file path for a specific month
    */
@@ -42,6 +85,28 @@ export class PathManager {
     return path.join(this.getDeviceDirectory(deviceId), FILESYSTEM.DAILY_DIR, `${month}.json`);
   }
 
+  /**
+   * Get the directory of a device's weekly, monthly or yearly aggregates
+   */
+  getAggregateDirectory(deviceId: string, tier: AggregateTier): string {
+    return path.join(this.getDeviceDirectory(deviceId), tier);
+  }
+
+  /**
+   * Get the aggregate file path of a tier for a specific year
+   * Weekly files are keyed by ISO week-numbering year, so 2025.json may start on 2024-12-30.
+   */
+  getAggregateFilePath(deviceId: string, tier: AggregateTier, year: string): string {
+    return path.join(this.getAggregateDirectory(deviceId, tier), `${year}.json`);
+  }
+
+  /**
+   * Get the typical traffic baseline file path for a device
+   */
+  getBaselineFilePath(deviceId: string): string {
+    return path.join(this.getDeviceDirectory(deviceId), FILESYSTEM.BASELINE_FILE);
+  }
+
   /**
    * Get the legacy monthly file path (for backward compatibility)
    */
@@ -56,6 +121,41 @@ export class PathManager {
     return path.join(this.dataDir, FILESYSTEM.DEVICES_FILE);
   }
 
+  /**
+   * Get the live snapshot file path
+   */
+  getLatestSnapshotPath(): string {
+    return path.join(this.dataDir, FILESYSTEM.LATEST_FILE);
+  }
+
+  /**
+   * Get the run history file path
+   */
+  getRunHistoryPath(): string {
+    return path.join(this.dataDir, FILESYSTEM.RUN_HISTORY_FILE);
+  }
+
+  /**
+   * Get the collection state file path
+   */
+  getCollectionStatePath(): string {
+    return path.join(this.dataDir, FILESYSTEM.STATE_FILE);
+  }
+
+  /**
+   * Get the lock file path of the data directory
+   */
+  getLockFilePath(): string {
+    return path.join(this.dataDir, FILESYSTEM.LOCK_FILE);
+  }
+
+  /**
+   * Get the directory of commit journals
+   */
+  getJournalDirectory(): string {
+    return path.join(this.dataDir, FILESYSTEM.JOURNAL_DIR);
+  }
+
   /**
    * Get the landing page output path
    */
@@ -0,0 +1,119 @@
+/**
+ * Rate Limiter Service
+ *
+ * Token-bucket rate limiting shared by all API requests.
+ * Enforces per-second and per-minute budgets in request order.
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import { createLogger, LOG_NAMESPACES, throwIfCancelled } from '../utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.CLIENT);
+
+/**
+ * Configuration for the rate limiter
+ */
+export interface RateLimiterConfig {
+  /** Maximum requests per second (0 = unlimited) */
+  requestsPerSecond: number;
+  /** Maximum requests per minute (0 = unlimited) */
+  requestsPerMinute: number;
+}
+
+/**
+ * A single token bucket that refills continuously
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly intervalMs: number,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Milliseconds until a token is available (0 if one is available now)
+   */
+  waitTime(now: number): number {
+    this.refill(now);
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) * this.intervalMs) / this.capacity);
+  }
+
+  /**
+   * Consume one token
+   */
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.capacity) / this.intervalMs,
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Serializes callers through one or more token buckets
+ *
+ * @example
+ * const limiter = new RateLimiter({ requestsPerSecond: 1, requestsPerMinute: 30 });
+ * await limiter.acquire();
+ * await fetch(...);
+ */
+export class RateLimiter {
+  private readonly buckets: TokenBucket[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(config: RateLimiterConfig) {
+    if (config.requestsPerSecond > 0) {
+      this.buckets.push(new TokenBucket(config.requestsPerSecond, 1_000));
+    }
+    if (config.requestsPerMinute > 0) {
+      this.buckets.push(new TokenBucket(config.requestsPerMinute, 60_000));
+    }
+  }
+
+  /**
+   * Wait until a request may be sent under every configured budget
+   *
+   * @param signal - Run cancellation; cuts the wait short
+   * @throws {RunCancelledError} If the run is cancelled while waiting
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const next = this.queue.then(() => this.waitForTokens(signal));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async waitForTokens(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      throwIfCancelled(signal);
+      const now = Date.now();
+      const waitMs = Math.max(0, ...this.buckets.map((bucket) => bucket.waitTime(now)));
+
+      if (waitMs === 0) {
+        this.buckets.forEach((bucket) => bucket.take());
+        return;
+      }
+
+      logger.debug(`Rate limit reached, waiting ${waitMs}ms`);
+      try {
+        await sleep(waitMs, undefined, { signal });
+      } catch (error) {
+        throwIfCancelled(signal);
+        throw error;
+      }
+    }
+  }
+}
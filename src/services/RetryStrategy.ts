@@ -1,11 +1,14 @@
 /**
  * Retry Strategy Service
  *
- * Provides configurable retry logic with exponential backoff.
+ * Provides configurable retry logic with exponential backoff, optional full
+ * jitter, server-provided retry delays and a retry budget shared by all
+ * operations of one strategy instance.
  * Can be reused across different parts of the application.
  */
 
-import { createLogger, LOG_NAMESPACES } from '../utils/index.js';
+import { setTimeout as sleep } from 'timers/promises';
+import { createLogger, LOG_NAMESPACES, throwIfCancelled } from '../utils/index.js';
 
 const logger = createLogger(LOG_NAMESPACES.CLIENT);
 
@@ -19,8 +22,32 @@ export interface RetryConfig {
   baseDelayMs: number;
   /** Whether to use exponential backoff */
   useExponentialBackoff: boolean;
+  /** Pick each delay uniformly between 0 and the backoff delay ("full jitter") */
+  jitter: boolean;
+  /** Upper bound for a backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** Retries allowed across all operations of this instance (undefined = unlimited) */
+  maxTotalRetries?: number;
+  /** Longest server-requested delay to wait for; longer requests fail instead */
+  maxRetryAfterMs?: number;
   /** Custom function to determine if an error should be retried */
   shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Delay the server asked for (e.g. from a Retry-After header), if any */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+}
+
+/**
+ * Retry decisions made by a strategy instance
+ */
+export interface RetryStats {
+  /** Retries that were scheduled */
+  retries: number;
+  /** Retries that waited for a server-requested delay */
+  retryAfterWaits: number;
+  /** Retries skipped because the retry budget was used up */
+  budgetExhausted: number;
+  /** Retries skipped because the server asked to wait longer than maxRetryAfterMs */
+  retryAfterTooLong: number;
 }
 
 /**
@@ -30,23 +57,43 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxAttempts: 3,
   baseDelayMs: 1000,
   useExponentialBackoff: true,
+  jitter: false,
+  maxDelayMs: 30_000,
 };
 
 /**
  * Service for executing operations with retry logic
  */
 export class RetryStrategy {
+  private stats: RetryStats = createEmptyStats();
+
   constructor(private readonly config: RetryConfig = DEFAULT_RETRY_CONFIG) {}
 
+  /**
+   * Retry decisions made so far
+   */
+  getStats(): RetryStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Forget the decisions so far, restoring the full retry budget
+   */
+  resetStats(): void {
+    this.stats = createEmptyStats();
+  }
+
   /**
    * Execute an async operation with retry logic
    *
    * @param operation - The operation to execute
    * @param context - Context string for logging
+   * @param signal - Run cancellation; cuts short the wait before a retry
    * @returns The result of the operation
    * @throws The last error if all retries fail
+   * @throws {RunCancelledError} If the run is cancelled while waiting to retry
    */
-  async execute<T>(operation: () => Promise<T>, context: string): Promise<T> {
+  async execute<T>(operation: () => Promise<T>, context: string, signal?: AbortSignal): Promise<T> {
     let lastError: unknown;
 
     for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
@@ -63,27 +110,65 @@ export class RetryStrategy {
           throw error;
         }
 
-        const delayMs = this.calculateDelay(attempt);
+        const delayMs = this.resolveDelay(error, attempt, context);
+        if (delayMs === null) {
+          throw error;
+        }
+
+        this.stats.retries++;
         logger.warn(
           `Retrying ${context} after error (attempt ${attempt}/${this.config.maxAttempts}, retrying in ${delayMs}ms)`,
           { error: error instanceof Error ? error.message : String(error) },
         );
 
-        await this.delay(delayMs);
+        await this.delay(delayMs, signal);
       }
     }
 
     throw lastError;
   }
 
+  /**
+   * Decide the delay before the next attempt, or null if no retry is allowed
+   * A server-requested delay takes precedence over the backoff.
+   */
+  private resolveDelay(error: unknown, attempt: number, context: string): number | null {
+    const { maxTotalRetries, maxRetryAfterMs } = this.config;
+
+    if (maxTotalRetries !== undefined && this.stats.retries >= maxTotalRetries) {
+      if (this.stats.budgetExhausted++ === 0) {
+        logger.warn(`Retry budget of ${maxTotalRetries} used up, failing without further retries`);
+      }
+      logger.debug(`Not retrying ${context}: retry budget used up`);
+      return null;
+    }
+
+    const retryAfterMs = this.config.getRetryAfterMs?.(error);
+    if (retryAfterMs === undefined) {
+      return this.calculateDelay(attempt);
+    }
+
+    if (maxRetryAfterMs !== undefined && retryAfterMs > maxRetryAfterMs) {
+      this.stats.retryAfterTooLong++;
+      logger.warn(
+        `Not retrying ${context}: server asked to wait ${retryAfterMs}ms (limit ${maxRetryAfterMs}ms)`,
+      );
+      return null;
+    }
+
+    this.stats.retryAfterWaits++;
+    return retryAfterMs;
+  }
+
   /**
    * Calculate delay based on attempt number
    */
   private calculateDelay(attempt: number): number {
-    if (this.config.useExponentialBackoff) {
-      return this.config.baseDelayMs * 2 ** (attempt - 1);
-    }
-    return this.config.baseDelayMs;
+    const backoff = this.config.useExponentialBackoff
+      ? Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** (attempt - 1))
+      : this.config.baseDelayMs;
+
+    return this.config.jitter ? Math.round(Math.random() * backoff) : backoff;
   }
 
   /**
@@ -132,13 +217,22 @@ export class RetryStrategy {
   }
 
   /**
-   * Delay execution for a specified number of milliseconds
+   * Delay execution for a specified number of milliseconds, or until the signal aborts
    */
-  private async delay(ms: number): Promise<void> {
-    await new Promise((resolve) => setTimeout(resolve, ms));
+  private async delay(ms: number, signal?: AbortSignal): Promise<void> {
+    try {
+      await sleep(ms, undefined, { signal });
+    } catch (error) {
+      throwIfCancelled(signal);
+      throw error;
+    }
   }
 }
 
+function createEmptyStats(): RetryStats {
+  return { retries: 0, retryAfterWaits: 0, budgetExhausted: 0, retryAfterTooLong: 0 };
+}
+
 /**
  * Helper function to create a retry strategy with custom configuration
  */
@@ -0,0 +1,334 @@
+/**
+ * SQLite Store Service
+ *
+ * Keeps a SQLite copy of the stored data (devices, hourly points, daily
+ * totals and run reports) so it can be queried with SQL across months. The
+ * JSON tree stays the source of truth; the database mirrors it month by
+ * month and can be rebuilt from it at any time with the `sync` command.
+ *
+ * Uses sql.js (SQLite compiled to WebAssembly): the database is loaded into
+ * memory, changed there and written back atomically by `save()`.
+ */
+
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import type { DailyEntry, DeviceMetadata, RunReport, TrafficDataPoint } from '../types.js';
+import { createLogger, LOG_NAMESPACES, SQLITE } from '../utils/index.js';
+import { FileService } from './FileService.js';
+
+const logger = createLogger(LOG_NAMESPACES.STORAGE);
+
+/** Count columns shared by the hourly and daily tables, named as in the traffic report */
+const COUNT_COLUMNS = [
+  'heavy',
+  'car',
+  'bike',
+  'pedestrian',
+  'night',
+  'heavy_lft',
+  'heavy_rgt',
+  'car_lft',
+  'car_rgt',
+  'bike_lft',
+  'bike_rgt',
+  'pedestrian_lft',
+  'pedestrian_rgt',
+  'night_lft',
+  'night_rgt',
+] as const;
+
+const COUNT_COLUMNS_SQL = COUNT_COLUMNS.map((column) => `${column} REAL`).join(',\n  ');
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS devices (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  location TEXT NOT NULL,
+  enabled INTEGER,
+  timezone TEXT,
+  lat REAL,
+  lon REAL,
+  speed_limit REAL,
+  tags TEXT,
+  source_type TEXT,
+  camera_status TEXT,
+  hardware_version INTEGER,
+  first_data_package TEXT,
+  last_data_package TEXT,
+  last_updated TEXT,
+  total_data_points INTEGER,
+  metadata TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS hourly (
+  device_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  uptime REAL,
+  ${COUNT_COLUMNS_SQL},
+  v85 REAL,
+  car_speed_hist_0to70plus TEXT,
+  car_speed_hist_0to120plus TEXT,
+  timezone TEXT,
+  PRIMARY KEY (device_id, date)
+);
+
+CREATE TABLE IF NOT EXISTS daily (
+  device_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  hours INTEGER NOT NULL,
+  uptime_avg REAL,
+  ${COUNT_COLUMNS_SQL},
+  deviation TEXT,
+  PRIMARY KEY (device_id, date)
+);
+
+CREATE TABLE IF NOT EXISTS runs (
+  start_time TEXT NOT NULL,
+  command TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  success INTEGER NOT NULL,
+  points_fetched INTEGER,
+  points_added INTEGER,
+  points_replaced INTEGER,
+  errors INTEGER,
+  requests INTEGER,
+  retries INTEGER,
+  report TEXT NOT NULL,
+  PRIMARY KEY (start_time, command)
+);
+`;
+
+/**
+ * Options for opening the store
+ */
+export interface SqliteStoreOptions {
+  /** Change the database in memory only; `save()` writes nothing */
+  dryRun?: boolean;
+}
+
+/**
+ * SQLite mirror of the JSON data tree
+ *
+ * @example
+ * const store = await SqliteStore.open('./data/telraam.sqlite');
+ * store.replaceHourlyMonth('9000004698', '2025-11', points);
+ * await store.save();
+ */
+export class SqliteStore {
+  private changed = false;
+
+  private constructor(
+    private readonly db: Database,
+    private readonly filePath: string,
+    private readonly fileService: FileService,
+  ) {}
+
+  /**
+   * Open the database file, creating the schema if the file is new
+   * @throws {Error} If the file exists but was written by a newer schema version
+   */
+  static async open(filePath: string, options: SqliteStoreOptions = {}): Promise<SqliteStore> {
+    const fileService = new FileService(options.dryRun ?? false);
+    const SQL = await initSqlJs();
+    const data = await fileService.readBinary(filePath, 'loading SQLite database');
+    const db = new SQL.Database(data);
+
+    const version = Number(db.exec('PRAGMA user_version')[0]?.values[0]?.[0] ?? 0);
+    if (version > SQLITE.SCHEMA_VERSION) {
+      db.close();
+      throw new Error(
+        `SQLite database ${filePath} has schema version ${version}, this version supports up to ${SQLITE.SCHEMA_VERSION}`,
+      );
+    }
+
+    db.run(SCHEMA);
+    db.run(`PRAGMA user_version = ${SQLITE.SCHEMA_VERSION}`);
+    logger.debug(`Opened SQLite database ${filePath}${data ? '' : ' (new)'}`);
+
+    return new SqliteStore(db, filePath, fileService);
+  }
+
+  /**
+   * Replace the devices table with the given device metadata
+   */
+  replaceDevices(devices: DeviceMetadata[]): void {
+    this.transaction(() => {
+      this.db.run('DELETE FROM devices');
+      const statement = this.db.prepare(`INSERT INTO devices VALUES (${placeholders(17)})`);
+      try {
+        for (const device of devices) {
+          statement.run([
+            device.id,
+            device.name,
+            device.location,
+            device.enabled === undefined ? null : Number(device.enabled),
+            device.timezone ?? null,
+            device.coordinates?.lat ?? null,
+            device.coordinates?.lon ?? null,
+            device.speedLimit ?? null,
+            device.tags ? JSON.stringify(device.tags) : null,
+            device.source?.type ?? 'telraam',
+            device.cameraStatus ?? null,
+            device.hardwareVersion ?? null,
+            device.firstDataPackage ?? null,
+            device.lastDataPackage ?? null,
+            device.lastUpdated,
+            device.totalDataPoints,
+            JSON.stringify(device),
+          ]);
+        }
+      } finally {
+        statement.free();
+      }
+    });
+  }
+
+  /**
+   * Replace a device's hourly points of a month
+   */
+  replaceHourlyMonth(deviceId: string, month: string, points: TrafficDataPoint[]): void {
+    this.transaction(() => {
+      this.db.run('DELETE FROM hourly WHERE device_id = ? AND substr(date, 1, 7) = ?', [
+        deviceId,
+        month,
+      ]);
+      const statement = this.db.prepare(
+        `INSERT OR REPLACE INTO hourly VALUES (${placeholders(COUNT_COLUMNS.length + 7)})`,
+      );
+      try {
+        for (const point of points) {
+          if (!point.date) continue;
+          statement.run([
+            deviceId,
+            point.date,
+            point.uptime ?? null,
+            ...COUNT_COLUMNS.map((column) => point[column] ?? null),
+            point.v85 ?? null,
+            toJson(point.car_speed_hist_0to70plus),
+            toJson(point.car_speed_hist_0to120plus),
+            point.timezone ?? null,
+          ]);
+        }
+      } finally {
+        statement.free();
+      }
+    });
+  }
+
+  /**
+   * Replace a device's daily totals of a month
+   */
+  replaceDailyMonth(deviceId: string, month: string, entries: DailyEntry[]): void {
+    this.transaction(() => {
+      this.db.run('DELETE FROM daily WHERE device_id = ? AND substr(date, 1, 7) = ?', [
+        deviceId,
+        month,
+      ]);
+      const statement = this.db.prepare(
+        `INSERT OR REPLACE INTO daily VALUES (${placeholders(COUNT_COLUMNS.length + 5)})`,
+      );
+      try {
+        for (const entry of entries) {
+          statement.run([
+            deviceId,
+            entry.date,
+            entry.totals.hours,
+            entry.totals.uptime_avg ?? null,
+            ...COUNT_COLUMNS.map((column) => entry.totals[column] ?? null),
+            toJson(entry.deviation),
+          ]);
+        }
+      } finally {
+        statement.free();
+      }
+    });
+  }
+
+  /**
+   * Add (or replace) a run report
+   */
+  insertRun(report: RunReport): void {
+    this.transaction(() => {
+      this.db.run(`INSERT OR REPLACE INTO runs VALUES (${placeholders(11)})`, [
+        report.startTime,
+        report.command,
+        report.endTime,
+        Number(report.success),
+        report.totals.pointsFetched,
+        report.totals.pointsAdded,
+        report.totals.pointsReplaced,
+        report.totals.errors,
+        report.totals.requests,
+        report.totals.retries,
+        JSON.stringify(report),
+      ]);
+    });
+  }
+
+  /**
+   * Delete all rows, keeping the schema
+   */
+  clear(): void {
+    this.transaction(() => {
+      for (const table of ['devices', 'hourly', 'daily', 'runs']) {
+        this.db.run(`DELETE FROM ${table}`);
+      }
+    });
+  }
+
+  /**
+   * Number of rows per table
+   */
+  countRows(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const table of ['devices', 'hourly', 'daily', 'runs']) {
+      counts[table] = Number(this.db.exec(`SELECT COUNT(*) FROM ${table}`)[0].values[0][0]);
+    }
+    return counts;
+  }
+
+  /**
+   * Write the database file if anything changed since it was opened or last saved
+   */
+  async save(): Promise<void> {
+    if (!this.changed) {
+      return;
+    }
+
+    await this.fileService.writeBinary(this.filePath, this.db.export(), 'saving SQLite database');
+    this.changed = false;
+    logger.info(`Saved SQLite database ${this.filePath}`);
+  }
+
+  /**
+   * Free the in-memory database; unsaved changes are lost
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Run changes in one SQLite transaction, rolled back as a whole on error
+   */
+  private transaction(apply: () => void): void {
+    this.db.run('BEGIN');
+    try {
+      apply();
+      this.db.run('COMMIT');
+      this.changed = true;
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+function placeholders(count: number): string {
+  return Array.from({ length: count }, () => '?').join(', ');
+}
+
+/**
+ * Store nested values (histograms, deviations) as JSON text
+ */
+function toJson(value: unknown): SqlValue {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
@@ -3,25 +3,63 @@
  *
  * Facade for all storage operations. Coordinates FileService, DataMerger,
  * PathManager, and HTMLGenerator to provide a clean API for data persistence.
+ *
+ * With a SQLite database opened, device metadata, hourly and daily months
+ * and run reports are mirrored into it once their JSON files are written.
  */
 
 import path from 'path';
 import type {
+  AggregateData,
+  AggregateTier,
+  CollectionState,
+  DeviceConfig,
   DeviceMetadata,
   MonthlyData,
   DailyData,
   DailyEntry,
+  JsonCompression,
+  LatestSnapshot,
+  MonthChanges,
+  PeriodEntry,
+  QuarterHourDataPoint,
+  QuarterlyData,
+  RunHistory,
+  RunReport,
+  TrafficBaseline,
   TrafficDataPoint,
 } from '../types.js';
-import { createLogger, LOG_NAMESPACES } from '../utils/index.js';
+import {
+  createLogger,
+  extractMonth,
+  FILESYSTEM,
+  getLocalDayRange,
+  LOG_NAMESPACES,
+  shiftMonth,
+} from '../utils/index.js';
 import { isFileSystemError } from '../utils/validation.js';
-import { FileService } from './FileService.js';
+import { FileService, WriteBatch } from './FileService.js';
 import { DataMerger } from './DataMerger.js';
 import { PathManager } from './PathManager.js';
 import { HTMLGenerator } from './HTMLGenerator.js';
+import { SqliteStore } from './SqliteStore.js';
 
 const logger = createLogger(LOG_NAMESPACES.STORAGE);
 
+/**
+ * Storage behaviour options
+ */
+export interface StorageOptions {
+  /** Run the full pipeline but write nothing to disk */
+  dryRun?: boolean;
+  /** How hourly, daily and quarter-hour month files are written (default: plain JSON) */
+  compression?: JsonCompression;
+  /** Speeds (km/h) daily totals report the share of faster cars for (default: 30 and 50) */
+  speedThresholds?: readonly number[];
+  /** Registry devices; a device's `timezone` decides the days its daily totals are cut in */
+  devices?: readonly DeviceConfig[];
+}
+
 /**
  * High-level storage interface for device data and metadata
  */
@@ -30,12 +68,27 @@ export class Storage {
   private readonly dataMerger: DataMerger;
   private readonly pathManager: PathManager;
   private readonly htmlGenerator: HTMLGenerator;
+  private readonly monthChanges = new Map<string, MonthChanges>();
+  private readonly dryRun: boolean;
+  private readonly compression: JsonCompression;
+  private readonly deviceTimeZones: Map<string, string>;
+  private stateWrite: Promise<void> = Promise.resolve();
+  private database?: SqliteStore;
+  /** Database updates waiting for the commit of their batch */
+  private readonly pendingMirrors = new WeakMap<WriteBatch, ((database: SqliteStore) => void)[]>();
 
-  constructor(dataDir: string) {
-    this.fileService = new FileService();
-    this.dataMerger = new DataMerger();
+  constructor(dataDir: string, options: StorageOptions = {}) {
+    this.dryRun = options.dryRun ?? false;
+    this.compression = options.compression ?? 'none';
+    this.fileService = new FileService(this.dryRun);
+    this.dataMerger = new DataMerger(options.speedThresholds);
     this.pathManager = new PathManager(dataDir);
     this.htmlGenerator = new HTMLGenerator();
+    this.deviceTimeZones = new Map(
+      (options.devices ?? []).flatMap((device) =>
+        device.timezone ? [[device.id, device.timezone]] : [],
+      ),
+    );
   }
 
   /**
@@ -44,7 +97,10 @@ export class Storage {
   async saveDeviceMetadata(devices: DeviceMetadata[]): Promise<void> {
     const filePath = this.pathManager.getDeviceMetadataPath();
     await this.fileService.writeJson(filePath, devices, 'saving device metadata');
-    logger.info(`Saved metadata for ${devices.length} devices to ${filePath}`);
+    this.mirror((database) => database.replaceDevices(devices));
+    logger.info(
+      `${this.describeWrite('Saved', 'save')} metadata for ${devices.length} devices to ${filePath}`,
+    );
   }
 
   /**
@@ -65,6 +121,117 @@ export class Storage {
     return data;
   }
 
+  /**
+   * Save per-device collection state (high-water marks)
+   * Writes are serialized so concurrent device updates never interleave.
+   */
+  async saveCollectionState(state: CollectionState): Promise<void> {
+    const filePath = this.pathManager.getCollectionStatePath();
+    const write = this.stateWrite.then(() =>
+      this.fileService.writeJson(filePath, state, 'saving collection state'),
+    );
+    this.stateWrite = write.catch(() => undefined);
+
+    await write;
+    logger.debug(
+      `${this.describeWrite('Saved', 'save')} collection state for ${Object.keys(state.devices).length} devices`,
+    );
+  }
+
+  /**
+   * Load per-device collection state
+   * Returns an empty state if no state file exists yet
+   */
+  async loadCollectionState(): Promise<CollectionState> {
+    const filePath = this.pathManager.getCollectionStatePath();
+    const data = await this.fileService.readJson<CollectionState>(
+      filePath,
+      'loading collection state',
+    );
+
+    if (!data?.devices) {
+      logger.debug('No existing collection state found');
+      return { lastUpdated: new Date().toISOString(), devices: {} };
+    }
+
+    return data;
+  }
+
+  /**
+   * Prepend a run report to the run history, keeping the newest `limit` reports
+   * Per-device status (last success/failure, consecutive failures) outlives the retention.
+   */
+  async appendRunReport(report: RunReport, limit: number): Promise<void> {
+    const history = await this.loadRunHistory();
+
+    for (const device of report.devices) {
+      const status = history.devices[device.deviceId] ?? { consecutiveFailures: 0 };
+      if (device.success) {
+        status.lastSuccess = report.endTime;
+        status.consecutiveFailures = 0;
+      } else {
+        status.lastFailure = report.endTime;
+        status.lastError = device.error;
+        status.consecutiveFailures += 1;
+      }
+      history.devices[device.deviceId] = status;
+    }
+
+    history.runs = [report, ...history.runs].slice(0, limit);
+    history.lastUpdated = new Date().toISOString();
+
+    await this.fileService.writeJson(
+      this.pathManager.getRunHistoryPath(),
+      history,
+      'saving run history',
+    );
+    this.mirror((database) => database.insertRun(report));
+    logger.debug(
+      `${this.describeWrite('Saved', 'save')} run report (${history.runs.length} run(s) retained)`,
+    );
+  }
+
+  /**
+   * Load the run history
+   * Returns an empty history if no file exists yet
+   */
+  async loadRunHistory(): Promise<RunHistory> {
+    const data = await this.fileService.readJson<RunHistory>(
+      this.pathManager.getRunHistoryPath(),
+      'loading run history',
+    );
+
+    if (!data?.runs) {
+      return { lastUpdated: new Date().toISOString(), devices: {}, runs: [] };
+    }
+
+    return { ...data, devices: data.devices ?? {} };
+  }
+
+  /**
+   * Save the most recent live counts to latest.json
+   */
+  async saveLatestSnapshot(snapshot: LatestSnapshot): Promise<void> {
+    await this.fileService.writeJson(
+      this.pathManager.getLatestSnapshotPath(),
+      snapshot,
+      'saving live snapshot',
+    );
+    logger.debug(
+      `${this.describeWrite('Saved', 'save')} live snapshot for ${snapshot.devices.length} device(s)`,
+    );
+  }
+
+  /**
+   * Load latest.json, or null if no live snapshot was written yet
+   */
+  async loadLatestSnapshot(): Promise<LatestSnapshot | null> {
+    return this.fileService.readJson<LatestSnapshot>(
+      this.pathManager.getLatestSnapshotPath(),
+      'loading live snapshot',
+    );
+  }
+
   /**
    * Generate a landing page HTML file for GitHub Pages
    */
@@ -81,18 +248,33 @@ export class Storage {
 
     await this.fileService.writeText(outputPath, html, 'writing landing page');
 
-    logger.info(`Updated landing page with ${relativeLinks.length} JSON file(s) at ${outputPath}`);
+    logger.info(
+      `${this.describeWrite('Updated', 'update')} landing page with ${relativeLinks.length} JSON file(s) at ${outputPath}`,
+    );
   }
 
   /**
    * Save monthly data for a device, merging with existing data
+   *
+   * @param batch - Stage the write for a later `commit()` instead of writing right away
+   * @returns The merged data points as written to disk
    */
-  async saveMonthlyData(deviceId: string, monthlyData: MonthlyData): Promise<void> {
+  async saveMonthlyData(
+    deviceId: string,
+    monthlyData: MonthlyData,
+    batch?: WriteBatch,
+  ): Promise<TrafficDataPoint[]> {
     const filePath = this.pathManager.getHourlyFilePath(deviceId, monthlyData.month);
 
     try {
       const existingData = await this.loadMonthlyData(deviceId, monthlyData.month);
 
+      const diff = this.dataMerger.diffDataPoints(existingData?.data || [], monthlyData.data);
+      const changes = this.getMonthChangeEntry(deviceId, monthlyData.month);
+      changes.added += diff.added;
+      changes.replaced += diff.replaced;
+      changes.unchanged += diff.unchanged;
+
       const mergedData = this.dataMerger.mergeDataPoints(
         deviceId,
         existingData?.data || [],
@@ -110,13 +292,21 @@ export class Storage {
         filePath,
         updatedMonthlyData,
         `saving monthly data for device ${deviceId}`,
+        batch,
+        this.compression,
+      );
+      this.mirror(
+        (database) => database.replaceHourlyMonth(deviceId, monthlyData.month, mergedData),
+        batch,
       );
 
-      await this.removeLegacyMonthlyFile(deviceId, monthlyData.month, filePath);
+      await this.removeLegacyMonthlyFile(deviceId, monthlyData.month, filePath, batch);
 
       logger.info(
-        `Saved ${mergedData.length} data points for device ${deviceId}, month ${monthlyData.month}`,
+        `${this.describeWrite('Saved', 'save')} ${mergedData.length} data points for device ${deviceId}, month ${monthlyData.month}`,
       );
+
+      return mergedData;
     } catch (error) {
       logger.error(`Error saving monthly data for device ${deviceId}`, error);
       throw new Error(
@@ -125,6 +315,399 @@ export class Storage {
     }
   }
 
+  /**
+   * Save device data grouped by month, updating hourly and daily files
+   *
+   * The hourly and daily files of all touched months are published together.
+   *
+   * @returns Number of data points saved
+   */
+  async saveDeviceData(deviceId: string, dataPoints: TrafficDataPoint[]): Promise<number> {
+    const batch = new WriteBatch();
+    const totalPoints = await this.stageDeviceData(deviceId, dataPoints, batch);
+    await this.commit(batch, `saving data for device ${deviceId}`);
+    return totalPoints;
+  }
+
+  /**
+   * Publish the staged writes of a batch together
+   */
+  async commit(batch: WriteBatch, context: string): Promise<void> {
+    await this.fileService.commit(batch, this.pathManager.getJournalDirectory(), context);
+
+    const mirrors = this.pendingMirrors.get(batch) ?? [];
+    this.pendingMirrors.delete(batch);
+    for (const apply of mirrors) {
+      this.mirror(apply);
+    }
+  }
+
+  /**
+   * Mirror all following writes into a SQLite database
+   * The database is created if missing; run `sync` to fill it with data written before.
+   */
+  async openDatabase(filePath: string): Promise<void> {
+    this.database = await SqliteStore.open(filePath, { dryRun: this.dryRun });
+    logger.info(`Mirroring writes to SQLite database ${filePath}`);
+  }
+
+  /**
+   * Save and close the SQLite database, if one is open
+   */
+  async close(): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      return;
+    }
+
+    this.database = undefined;
+    try {
+      await database.save();
+    } finally {
+      database.close();
+    }
+  }
+
+  /**
+   * Complete writes interrupted by a crash and remove their temporary files
+   * Call while holding the data directory lock, before anything else is written.
+   */
+  async recoverInterruptedWrites(): Promise<void> {
+    const recovered = await this.fileService.recoverJournals(
+      this.pathManager.getJournalDirectory(),
+      this.pathManager.getDataDirectory(),
+    );
+    if (recovered > 0) {
+      logger.warn(
+        `Completed ${recovered} interrupted commit(s) in ${this.pathManager.getDataDirectory()}`,
+      );
+    }
+  }
+
+  /**
+   * Stage device data grouped by month in a batch
+   */
+  private async stageDeviceData(
+    deviceId: string,
+    dataPoints: TrafficDataPoint[],
+    batch: WriteBatch,
+  ): Promise<number> {
+    const monthlyDataMap = this.groupDataByMonth(dataPoints);
+    const staged = new Map<string, TrafficDataPoint[]>();
+
+    let totalPoints = 0;
+    for (const [month, monthData] of monthlyDataMap.entries()) {
+      const monthlyData: MonthlyData = {
+        device_id: deviceId,
+        month,
+        data: monthData,
+        lastUpdated: new Date().toISOString(),
+      };
+
+      staged.set(month, await this.saveMonthlyData(deviceId, monthlyData, batch));
+      totalPoints += monthData.length;
+    }
+
+    // Rebuild touched days from the merged months so partially fetched days keep full totals
+    await this.stageDailyData(deviceId, dataPoints, batch, staged);
+
+    return totalPoints;
+  }
+
+  /**
+   * Rebuild the local days touched by hourly points from the hourly files and stage them in a batch
+   *
+   * Days are cut in the device's registry time zone, else the points' one. A
+   * daily file cut in another time zone is regrouped as a whole, so its days
+   * never mix time zones.
+   *
+   * @param staged - Merged hourly points by month, for months already staged in the batch
+   */
+  async stageDailyData(
+    deviceId: string,
+    points: TrafficDataPoint[],
+    batch: WriteBatch,
+    staged: Map<string, TrafficDataPoint[]> = new Map(),
+  ): Promise<void> {
+    const timeZone = this.dataMerger.resolveTimeZone(points, this.deviceTimeZones.get(deviceId));
+    const touchedDays = new Set(this.dataMerger.groupByDay(points, timeZone).keys());
+    const baseline = await this.loadBaseline(deviceId);
+    const stagedDays = new Map<string, DailyEntry[]>();
+    const changedDays: string[] = [];
+
+    for (const month of new Set(Array.from(touchedDays, extractMonth))) {
+      const existing = await this.loadDailyData(deviceId, month);
+      const regroup = existing !== null && (existing.timezone ?? 'UTC') !== timeZone;
+      if (regroup) {
+        logger.info(
+          `Regrouping daily data for device ${deviceId}, month ${month} from ${existing.timezone ?? 'UTC'} to ${timeZone} days`,
+        );
+      }
+
+      const { days } = await this.buildMonthDailyEntries(deviceId, month, {
+        baseline,
+        staged,
+        timeZone,
+      });
+      const entries = regroup ? days : days.filter((entry) => touchedDays.has(entry.date));
+      stagedDays.set(month, await this.saveDailyData(deviceId, month, entries, timeZone, batch));
+      changedDays.push(...entries.map((entry) => entry.date));
+    }
+
+    await this.stageAggregateData(deviceId, changedDays, timeZone, batch, stagedDays);
+  }
+
+  /**
+   * Rebuild the weekly, monthly and yearly periods containing the given days and stage them in a batch
+   *
+   * @param stagedDays - Merged daily entries by month, for months already staged in the batch
+   */
+  private async stageAggregateData(
+    deviceId: string,
+    days: string[],
+    timeZone: string,
+    batch: WriteBatch,
+    stagedDays: Map<string, DailyEntry[]>,
+  ): Promise<void> {
+    const loaded = new Map(stagedDays);
+
+    for (const tier of FILESYSTEM.AGGREGATE_TIERS) {
+      const periods = new Set(days.map((day) => this.dataMerger.getPeriod(day, tier)));
+      const years = new Set(Array.from(periods, (period) => period.substring(0, 4)));
+
+      for (const year of years) {
+        const entries: PeriodEntry[] = [];
+        for (const period of [...periods].filter((p) => p.startsWith(year))) {
+          const { start, end } = this.dataMerger.getPeriodDays(period, tier);
+          const dailyEntries = await this.loadDailyEntries(deviceId, start, end, loaded);
+          entries.push(...this.dataMerger.buildPeriodEntries(dailyEntries, tier, timeZone));
+        }
+
+        // Periods computed in another time zone are replaced rather than merged
+        const existing = await this.loadAggregateData(deviceId, tier, year);
+        const kept = existing?.timezone === timeZone ? existing.periods : [];
+        await this.writeAggregateData(
+          deviceId,
+          tier,
+          year,
+          this.dataMerger.mergePeriodEntries(kept, entries),
+          timeZone,
+          batch,
+        );
+      }
+    }
+  }
+
+  private async writeAggregateData(
+    deviceId: string,
+    tier: AggregateTier,
+    year: string,
+    periods: PeriodEntry[],
+    timeZone: string,
+    batch: WriteBatch,
+  ): Promise<void> {
+    const aggregateData: AggregateData = {
+      device_id: deviceId,
+      tier,
+      year,
+      timezone: timeZone,
+      lastUpdated: new Date().toISOString(),
+      periods,
+    };
+    await this.fileService.writeJson(
+      this.pathManager.getAggregateFilePath(deviceId, tier, year),
+      aggregateData,
+      `saving ${tier} aggregates for device ${deviceId}, year ${year}`,
+      batch,
+      this.compression,
+    );
+  }
+
+  /**
+   * Load the daily entries from start to end (inclusive calendar days)
+   *
+   * @param loaded - Daily entries by month, used before and filled from the stored files
+   */
+  private async loadDailyEntries(
+    deviceId: string,
+    start: string,
+    end: string,
+    loaded: Map<string, DailyEntry[]>,
+  ): Promise<DailyEntry[]> {
+    const entries: DailyEntry[] = [];
+    for (
+      let month = extractMonth(start);
+      month <= extractMonth(end);
+      month = shiftMonth(month, 1)
+    ) {
+      if (!loaded.has(month)) {
+        loaded.set(month, (await this.loadDailyData(deviceId, month))?.days ?? []);
+      }
+      entries.push(
+        ...loaded.get(month)!.filter((entry) => entry.date >= start && entry.date <= end),
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Build a month's daily aggregates from the hourly files
+   *
+   * Hourly files hold UTC months, so the local days at the month's edges are
+   * completed from the neighbouring hourly files.
+   *
+   * @param options.timeZone - Time zone to cut days in (default: the device's, else that of the hourly points)
+   * @param options.staged - Merged hourly points by month to use instead of the stored files
+   */
+  async buildMonthDailyEntries(
+    deviceId: string,
+    month: string,
+    options: {
+      baseline?: TrafficBaseline | null;
+      timeZone?: string;
+      staged?: Map<string, TrafficDataPoint[]>;
+    } = {},
+  ): Promise<{ timeZone: string; days: DailyEntry[] }> {
+    const points: TrafficDataPoint[] = [];
+    for (const hourlyMonth of [shiftMonth(month, -1), month, shiftMonth(month, 1)]) {
+      const monthPoints =
+        options.staged?.get(hourlyMonth) ??
+        (await this.loadMonthlyData(deviceId, hourlyMonth))?.data ??
+        [];
+      points.push(...monthPoints);
+    }
+
+    const timeZone =
+      options.timeZone ??
+      this.dataMerger.resolveTimeZone(points, this.deviceTimeZones.get(deviceId));
+    const start = getLocalDayRange(`${month}-01`, timeZone).start;
+    const end = getLocalDayRange(`${shiftMonth(month, 1)}-01`, timeZone).start;
+    const monthPoints = points.filter((point) => {
+      const date = point.date ? new Date(point.date) : null;
+      return date !== null && date >= start && date < end;
+    });
+
+    return {
+      timeZone,
+      days: this.dataMerger.buildDailyEntries(monthPoints, options.baseline, timeZone),
+    };
+  }
+
+  /**
+   * Save quarter-hour data and roll complete hours up into the hourly and daily files
+   *
+   * The quarter-hour, hourly and daily files are published together.
+   *
+   * @returns The hourly points derived from the touched hours
+   */
+  async saveQuarterHourData(
+    deviceId: string,
+    dataPoints: QuarterHourDataPoint[],
+  ): Promise<TrafficDataPoint[]> {
+    const batch = new WriteBatch();
+    const rolledUp: TrafficDataPoint[] = [];
+
+    for (const [month, monthData] of this.dataMerger.groupByMonth(dataPoints).entries()) {
+      const existing = await this.loadQuarterlyData(deviceId, month);
+      const merged = this.dataMerger.mergeDataPoints(deviceId, existing?.data ?? [], monthData);
+
+      const quarterlyData: QuarterlyData = {
+        device_id: deviceId,
+        month,
+        data: merged,
+        lastUpdated: new Date().toISOString(),
+      };
+      await this.fileService.writeJson(
+        this.pathManager.getQuarterlyFilePath(deviceId, month),
+        quarterlyData,
+        `saving quarter-hour data for device ${deviceId}, month ${month}`,
+        batch,
+        this.compression,
+      );
+      logger.info(
+        `${this.describeWrite('Saved', 'save')} ${merged.length} quarter-hour data points for device ${deviceId}, month ${month}`,
+      );
+
+      // Roll up from the merged month so hours split across runs are complete
+      const touchedHours = new Set(monthData.map((point) => point.date?.substring(0, 13)));
+      rolledUp.push(
+        ...this.dataMerger
+          .rollUpQuarterHours(merged)
+          .filter((point) => touchedHours.has(point.date!.substring(0, 13))),
+      );
+    }
+
+    if (rolledUp.length > 0) {
+      await this.stageDeviceData(deviceId, rolledUp, batch);
+    }
+    await this.commit(batch, `saving quarter-hour data for device ${deviceId}`);
+
+    return rolledUp;
+  }
+
+  /**
+   * Write a tabular export (CSV text or Parquet bytes) of hourly or daily data
+   * See `PathManager.getTableFilePath()` for where device, month and combined tables go.
+   *
+   * @returns Path of the written file
+   */
+  async saveTableFile(
+    level: 'hourly' | 'daily',
+    extension: string,
+    content: string | Uint8Array,
+    scope: { deviceId?: string; month?: string } = {},
+  ): Promise<string> {
+    const filePath = this.pathManager.getTableFilePath(
+      level,
+      extension,
+      scope.deviceId,
+      scope.month,
+    );
+    const context = `writing ${level} table ${filePath}`;
+    if (typeof content === 'string') {
+      await this.fileService.writeText(filePath, content, context);
+    } else {
+      await this.fileService.writeBinary(filePath, content, context);
+    }
+    logger.debug(`${this.describeWrite('Saved', 'save')} ${level} table ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Load quarter-hour data for a device/month
+   */
+  async loadQuarterlyData(deviceId: string, month: string): Promise<QuarterlyData | null> {
+    return this.fileService.readJson<QuarterlyData>(
+      this.pathManager.getQuarterlyFilePath(deviceId, month),
+      `loading quarter-hour data for device ${deviceId}, month ${month}`,
+    );
+  }
+
+  /**
+   * Save the typical traffic baseline of a device
+   * Daily entries saved afterwards are compared against it; run `rebuild` to update older days.
+   */
+  async saveBaseline(baseline: TrafficBaseline): Promise<void> {
+    await this.fileService.writeJson(
+      this.pathManager.getBaselineFilePath(baseline.device_id),
+      baseline,
+      `saving baseline for device ${baseline.device_id}`,
+    );
+    logger.info(
+      `${this.describeWrite('Saved', 'save')} ${baseline.duration} baseline for device ${baseline.device_id} (period ending ${baseline.periodEnd})`,
+    );
+  }
+
+  /**
+   * Load the typical traffic baseline of a device
+   */
+  async loadBaseline(deviceId: string): Promise<TrafficBaseline | null> {
+    return this.fileService.readJson<TrafficBaseline>(
+      this.pathManager.getBaselineFilePath(deviceId),
+      `loading baseline for device ${deviceId}`,
+    );
+  }
+
   /**
    * Load monthly data for a device
    */
@@ -150,17 +733,34 @@ export class Storage {
 
   /**
    * Save aggregated daily data for a device and month
+   *
+   * Stored days cut in another time zone are dropped rather than merged, so
+   * pass the whole month when changing a file's time zone.
+   *
+   * @param timeZone - Time zone the entries' days are cut in
+   * @param batch - Stage the write for a later `commit()` instead of writing right away
+   * @returns The merged daily entries as written to disk
    */
-  async saveDailyData(deviceId: string, month: string, entries: DailyEntry[]): Promise<void> {
+  async saveDailyData(
+    deviceId: string,
+    month: string,
+    entries: DailyEntry[],
+    timeZone: string,
+    batch?: WriteBatch,
+  ): Promise<DailyEntry[]> {
     const filePath = this.pathManager.getDailyFilePath(deviceId, month);
 
     try {
       const existing = await this.loadDailyData(deviceId, month);
-      const merged = this.dataMerger.mergeDailyEntries(existing?.days ?? [], entries);
+      this.recordShiftedDays(deviceId, month, existing?.days ?? [], entries);
+
+      const kept = (existing?.timezone ?? 'UTC') === timeZone ? (existing?.days ?? []) : [];
+      const merged = this.dataMerger.mergeDailyEntries(kept, entries);
 
       const dailyData: DailyData = {
         device_id: deviceId,
         month,
+        timezone: timeZone,
         days: merged,
         lastUpdated: new Date().toISOString(),
       };
@@ -169,9 +769,15 @@ export class Storage {
         filePath,
         dailyData,
         `saving daily data for device ${deviceId}, month ${month}`,
+        batch,
+        this.compression,
       );
+      this.mirror((database) => database.replaceDailyMonth(deviceId, month, merged), batch);
 
-      logger.info(`Saved ${merged.length} daily aggregates for device ${deviceId}, month ${month}`);
+      logger.info(
+        `${this.describeWrite('Saved', 'save')} ${merged.length} daily aggregates for device ${deviceId}, month ${month}`,
+      );
+      return merged;
     } catch (error) {
       logger.error(`Error saving daily data for device ${deviceId}`, error);
       throw new Error(
@@ -192,6 +798,191 @@ export class Storage {
     );
   }
 
+  /**
+   * Rebuild a month's daily aggregates from the hourly files, replacing the daily file
+   * Days are cut in the hourly points' time zone, which regroups files written with UTC days.
+   *
+   * @returns Number of daily entries written (0 if no hourly data falls in the month)
+   */
+  async rebuildDailyData(deviceId: string, month: string): Promise<number> {
+    const { timeZone, days } = await this.buildMonthDailyEntries(deviceId, month, {
+      baseline: await this.loadBaseline(deviceId),
+    });
+    if (days.length === 0) {
+      return 0;
+    }
+
+    const dailyData: DailyData = {
+      device_id: deviceId,
+      month,
+      timezone: timeZone,
+      days,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    const existing = await this.loadDailyData(deviceId, month);
+    this.recordShiftedDays(deviceId, month, existing?.days ?? [], dailyData.days);
+    if (existing && (existing.timezone ?? 'UTC') !== timeZone) {
+      logger.info(
+        `Regrouping daily data for device ${deviceId}, month ${month} from ${existing.timezone ?? 'UTC'} to ${timeZone} days`,
+      );
+    }
+
+    await this.fileService.writeJson(
+      this.pathManager.getDailyFilePath(deviceId, month),
+      dailyData,
+      `rebuilding daily data for device ${deviceId}, month ${month}`,
+      undefined,
+      this.compression,
+    );
+    this.mirror((database) => database.replaceDailyMonth(deviceId, month, dailyData.days));
+
+    logger.info(
+      `${this.describeWrite('Rebuilt', 'rebuild')} ${dailyData.days.length} daily aggregates for device ${deviceId}, month ${month}`,
+    );
+    return dailyData.days.length;
+  }
+
+  /**
+   * List the months (YYYY-MM) with an hourly data file for a device
+   */
+  async listHourlyMonths(deviceId: string): Promise<string[]> {
+    return this.listMonthFiles(this.pathManager.getHourlyDirectory(deviceId));
+  }
+
+  /**
+   * List the months (YYYY-MM) with a daily data file for a device
+   */
+  async listDailyMonths(deviceId: string): Promise<string[]> {
+    return this.listMonthFiles(this.pathManager.getDailyDirectory(deviceId));
+  }
+
+  /**
+   * Load a device's weekly, monthly or yearly aggregates of a year
+   */
+  async loadAggregateData(
+    deviceId: string,
+    tier: AggregateTier,
+    year: string,
+  ): Promise<AggregateData | null> {
+    return this.fileService.readJson<AggregateData>(
+      this.pathManager.getAggregateFilePath(deviceId, tier, year),
+      `loading ${tier} aggregates for device ${deviceId}, year ${year}`,
+    );
+  }
+
+  /**
+   * Rebuild a device's weekly, monthly and yearly aggregates from all its daily files
+   * The aggregate files of every year with data are replaced, and those of years without
+   * daily data removed, in one published batch.
+   *
+   * @returns Number of periods written across the tiers
+   */
+  async rebuildAggregateData(deviceId: string): Promise<number> {
+    const entries: DailyEntry[] = [];
+    let timeZone = 'UTC';
+    for (const month of await this.listDailyMonths(deviceId)) {
+      const daily = await this.loadDailyData(deviceId, month);
+      entries.push(...(daily?.days ?? []));
+      timeZone = daily?.timezone ?? timeZone;
+    }
+
+    const batch = new WriteBatch();
+    let periods = 0;
+    for (const tier of FILESYSTEM.AGGREGATE_TIERS) {
+      const byYear = new Map<string, PeriodEntry[]>();
+      for (const entry of this.dataMerger.buildPeriodEntries(entries, tier, timeZone)) {
+        const year = entry.period.substring(0, 4);
+        byYear.set(year, [...(byYear.get(year) ?? []), entry]);
+      }
+
+      for (const [year, yearPeriods] of byYear.entries()) {
+        await this.writeAggregateData(deviceId, tier, year, yearPeriods, timeZone, batch);
+        periods += yearPeriods.length;
+      }
+
+      for (const year of await this.listAggregateYears(deviceId, tier)) {
+        if (!byYear.has(year)) {
+          await this.fileService.deleteJson(
+            this.pathManager.getAggregateFilePath(deviceId, tier, year),
+            batch,
+          );
+          logger.info(
+            `${this.describeWrite('Removed', 'remove')} ${tier} aggregates for device ${deviceId}, year ${year} without daily data`,
+          );
+        }
+      }
+    }
+
+    await this.commit(batch, `rebuilding aggregates for device ${deviceId}`);
+    logger.info(
+      `${this.describeWrite('Rebuilt', 'rebuild')} ${periods} weekly, monthly and yearly aggregate(s) for device ${deviceId}`,
+    );
+    return periods;
+  }
+
+  /**
+   * Rewrite a device's hourly, daily and quarter-hour month files in the configured compression
+   *
+   * Converting to 'none' also removes the compressed copies. The files of a
+   * device are published together.
+   *
+   * @returns Number of month files rewritten
+   */
+  async migrateMonthFiles(deviceId: string): Promise<number> {
+    const batch = new WriteBatch();
+    const directories = [
+      this.pathManager.getHourlyDirectory(deviceId),
+      this.pathManager.getDailyDirectory(deviceId),
+      this.pathManager.getQuarterlyDirectory(deviceId),
+    ];
+
+    let files = 0;
+    for (const dirPath of directories) {
+      for (const month of await this.listMonthFiles(dirPath)) {
+        const filePath = path.join(dirPath, `${month}.json`);
+        const data = await this.fileService.readJson<unknown>(filePath, `migrating ${filePath}`);
+        if (data === null) continue;
+
+        await this.fileService.writeJson(
+          filePath,
+          data,
+          `migrating ${filePath}`,
+          batch,
+          this.compression,
+        );
+        files++;
+      }
+    }
+
+    await this.commit(batch, `migrating month files of device ${deviceId}`);
+    logger.info(
+      `${this.describeWrite('Rewrote', 'rewrite')} ${files} month file(s) of device ${deviceId} as ${this.compression}`,
+    );
+    return files;
+  }
+
+  /**
+   * List the ids of all devices with a directory in the data directory
+   */
+  async listStoredDeviceIds(): Promise<string[]> {
+    const directories = await this.fileService.listDirectories(this.pathManager.getDataDirectory());
+    return directories
+      .filter((name) => name.startsWith(FILESYSTEM.DEVICE_DIR_PREFIX))
+      .map((name) => name.slice(FILESYSTEM.DEVICE_DIR_PREFIX.length))
+      .sort();
+  }
+
+  /**
+   * Hourly and daily changes made by this instance so far, per device and month
+   * In a dry run these are the changes that would have been written.
+   */
+  getMonthChanges(): MonthChanges[] {
+    return Array.from(this.monthChanges.values()).sort(
+      (a, b) => a.deviceId.localeCompare(b.deviceId) || a.month.localeCompare(b.month),
+    );
+  }
+
   /**
    * Group traffic data points by month
    */
@@ -231,10 +1022,99 @@ export class Storage {
   }
 
   /**
-   * Build daily aggregates from hourly data
+   * Build daily aggregates from hourly data, annotated with deviations if a baseline is given
    */
-  buildDailyEntries(points: TrafficDataPoint[]): DailyEntry[] {
-    return this.dataMerger.buildDailyEntries(points);
+  buildDailyEntries(
+    points: TrafficDataPoint[],
+    baseline?: TrafficBaseline | null,
+    timeZone?: string,
+  ): DailyEntry[] {
+    return this.dataMerger.buildDailyEntries(points, baseline, timeZone);
+  }
+
+  /**
+   * Apply a change to the SQLite database, if one is open
+   * Changes to files staged in a batch wait for the batch's commit.
+   */
+  private mirror(apply: (database: SqliteStore) => void, batch?: WriteBatch): void {
+    if (!this.database) {
+      return;
+    }
+    if (batch) {
+      this.pendingMirrors.set(batch, [...(this.pendingMirrors.get(batch) ?? []), apply]);
+      return;
+    }
+    apply(this.database);
+  }
+
+  /**
+   * Get (or start) the change entry for a device/month
+   */
+  /**
+   * Verb of a write log line; dry runs report what they would have written
+   */
+  private describeWrite(done: string, planned: string): string {
+    return this.dryRun ? `Would ${planned}` : done;
+  }
+
+  private getMonthChangeEntry(deviceId: string, month: string): MonthChanges {
+    const key = `${deviceId}/${month}`;
+    let changes = this.monthChanges.get(key);
+    if (!changes) {
+      changes = { deviceId, month, added: 0, replaced: 0, unchanged: 0, shiftedDays: [] };
+      this.monthChanges.set(key, changes);
+    }
+    return changes;
+  }
+
+  /**
+   * Record which daily totals are new or different
+   */
+  private recordShiftedDays(
+    deviceId: string,
+    month: string,
+    existing: DailyEntry[],
+    incoming: DailyEntry[],
+  ): void {
+    const changes = this.getMonthChangeEntry(deviceId, month);
+    const shifted = new Set([
+      ...changes.shiftedDays,
+      ...this.dataMerger.diffDailyEntries(existing, incoming),
+    ]);
+    changes.shiftedDays = Array.from(shifted).sort();
+  }
+
+  /**
+   * List YYYY-MM file names in a directory, sorted ascending
+   */
+  private async listMonthFiles(dirPath: string): Promise<string[]> {
+    return (await this.listJsonNames(dirPath)).filter((name) => /^\d{4}-\d{2}$/.test(name));
+  }
+
+  /**
+   * List the years (YYYY) with an aggregate file of a tier for a device
+   */
+  private async listAggregateYears(deviceId: string, tier: AggregateTier): Promise<string[]> {
+    const dirPath = this.pathManager.getAggregateDirectory(deviceId, tier);
+    return (await this.listJsonNames(dirPath)).filter((name) => /^\d{4}$/.test(name));
+  }
+
+  /**
+   * List the sorted names of the JSON files in a directory, without the extension
+   */
+  private async listJsonNames(dirPath: string): Promise<string[]> {
+    let files: string[];
+
+    try {
+      files = await this.fileService.collectJsonFiles(dirPath);
+    } catch (error) {
+      if (isFileSystemError(error) && error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return files.map((filePath) => path.basename(filePath, '.json')).sort();
   }
 
   /**
@@ -244,12 +1124,13 @@ export class Storage {
     deviceId: string,
     month: string,
     newPath: string,
+    batch?: WriteBatch,
   ): Promise<void> {
     const legacyPath = this.pathManager.getLegacyMonthlyFilePath(deviceId, month);
     if (legacyPath === newPath) {
       return;
     }
 
-    await this.fileService.deleteFile(legacyPath);
+    await this.fileService.deleteFile(legacyPath, batch);
   }
 }
@@ -5,9 +5,20 @@
  */
 
 export { Storage } from './Storage.js';
-export { FileService } from './FileService.js';
+export type { StorageOptions } from './Storage.js';
+export { FileService, WriteBatch } from './FileService.js';
 export { DataMerger } from './DataMerger.js';
 export { PathManager } from './PathManager.js';
 export { HTMLGenerator } from './HTMLGenerator.js';
+export { DeviceRegistry } from './DeviceRegistry.js';
 export { RetryStrategy, createRetryStrategy, DEFAULT_RETRY_CONFIG } from './RetryStrategy.js';
-export type { RetryConfig } from './RetryStrategy.js';
+export type { RetryConfig, RetryStats } from './RetryStrategy.js';
+export { RateLimiter } from './RateLimiter.js';
+export type { RateLimiterConfig } from './RateLimiter.js';
+export { CircuitBreaker, CircuitOpenError } from './CircuitBreaker.js';
+export type { CircuitBreakerConfig, CircuitBreakerStats } from './CircuitBreaker.js';
+export { HttpRecorder, FixtureNotFoundError } from './HttpRecorder.js';
+export type { HttpRecorderConfig } from './HttpRecorder.js';
+export { DataDirLock, DataDirLockedError } from './DataDirLock.js';
+export { SqliteStore } from './SqliteStore.js';
+export type { SqliteStoreOptions } from './SqliteStore.js';
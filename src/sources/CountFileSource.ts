@@ -0,0 +1,291 @@
+/**
+ * Count File Traffic Source
+ *
+ * Hourly counts from CSV or JSON count files, as exported by inductive loop
+ * counters or typed up from manual counts. Records may cover any interval;
+ * their counts are spread over the UTC hours they overlap and the covered
+ * share of each hour becomes its uptime.
+ */
+
+import { promises as fs } from 'fs';
+import { FileService } from '../services/index.js';
+import type { CountFileSourceConfig, DateRange, DeviceConfig, TrafficDataPoint } from '../types.js';
+import {
+  addHours,
+  createLogger,
+  floorToHour,
+  LOG_NAMESPACES,
+  parseCsv,
+  parseLocalDateTime,
+  SOURCES,
+} from '../utils/index.js';
+import type { TrafficSource } from './TrafficSource.js';
+
+const logger = createLogger(LOG_NAMESPACES.SOURCES);
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/**
+ * Count fields read from a record, named as in the Telraam traffic report
+ */
+const COUNT_FIELDS = [
+  'heavy',
+  'car',
+  'bike',
+  'pedestrian',
+  'night',
+  'heavy_lft',
+  'heavy_rgt',
+  'car_lft',
+  'car_rgt',
+  'bike_lft',
+  'bike_rgt',
+  'pedestrian_lft',
+  'pedestrian_rgt',
+  'night_lft',
+  'night_rgt',
+] as const satisfies readonly (keyof TrafficDataPoint)[];
+
+type CountField = (typeof COUNT_FIELDS)[number];
+
+/**
+ * A validated count record
+ */
+interface CountRecord {
+  start: Date;
+  end: Date;
+  counts: Partial<Record<CountField, number>>;
+}
+
+/**
+ * Counts accumulated for one UTC hour
+ */
+interface HourBucket {
+  coveredMs: number;
+  counts: Partial<Record<CountField, number>>;
+}
+
+/**
+ * Reads a device's counts from count files
+ *
+ * Each record has a `start` timestamp, optionally an `end` timestamp or a
+ * `minutes` duration, and any of the Telraam count fields. Timestamps
+ * without a UTC offset are read in the device's time zone (UTC if unset).
+ *
+ * @example
+ * // start,end,car,bike
+ * // 2024-06-01 08:00,2024-06-01 08:15,42,7
+ */
+export class CountFileSource implements TrafficSource {
+  readonly type: CountFileSourceConfig['type'];
+  private readonly fileService = new FileService();
+  private records?: Promise<CountRecord[]>;
+
+  constructor(private readonly config: CountFileSourceConfig) {
+    this.type = config.type;
+  }
+
+  async fetchHourlyData(device: DeviceConfig, dateRange: DateRange): Promise<TrafficDataPoint[]> {
+    const records = await this.loadRecords(device);
+    const rangeStart = floorToHour(dateRange.start).getTime();
+    const rangeEnd = dateRange.end.getTime();
+    const buckets = new Map<number, HourBucket>();
+
+    for (const record of records) {
+      if (record.end.getTime() <= rangeStart || record.start.getTime() >= rangeEnd) {
+        continue;
+      }
+      this.spreadOverHours(record, buckets);
+    }
+
+    return [...buckets.entries()]
+      .filter(([hour]) => hour >= rangeStart && hour < rangeEnd)
+      .sort(([a], [b]) => a - b)
+      .map(([hour, bucket]) => this.toDataPoint(device, new Date(hour), bucket));
+  }
+
+  async findFirstDataPoint(device: DeviceConfig): Promise<Date | null> {
+    const records = await this.loadRecords(device);
+    if (records.length === 0) {
+      return null;
+    }
+
+    const earliest = new Date(Math.min(...records.map((record) => record.start.getTime())));
+    logger.info(`First ${this.type} count for device ${device.id}: ${earliest.toISOString()}`);
+    return earliest;
+  }
+
+  /**
+   * Add a record's counts to the hours it overlaps, in proportion to the overlap
+   */
+  private spreadOverHours(record: CountRecord, buckets: Map<number, HourBucket>): void {
+    const duration = record.end.getTime() - record.start.getTime();
+
+    for (let hour = floorToHour(record.start); hour < record.end; hour = addHours(hour, 1)) {
+      const overlap =
+        Math.min(record.end.getTime(), hour.getTime() + MS_PER_HOUR) -
+        Math.max(record.start.getTime(), hour.getTime());
+      if (overlap <= 0) continue;
+
+      const bucket = buckets.get(hour.getTime()) ?? { coveredMs: 0, counts: {} };
+      bucket.coveredMs += overlap;
+      for (const field of COUNT_FIELDS) {
+        const value = record.counts[field];
+        if (value !== undefined) {
+          bucket.counts[field] = (bucket.counts[field] ?? 0) + (value * overlap) / duration;
+        }
+      }
+      buckets.set(hour.getTime(), bucket);
+    }
+  }
+
+  private toDataPoint(device: DeviceConfig, hour: Date, bucket: HourBucket): TrafficDataPoint {
+    const point: TrafficDataPoint = {
+      date: hour.toISOString(),
+      interval: 'hourly',
+      uptime: Math.min(1, bucket.coveredMs / MS_PER_HOUR),
+      timezone: device.timezone,
+    };
+    for (const field of COUNT_FIELDS) {
+      const value = bucket.counts[field];
+      if (value !== undefined) {
+        point[field] = Math.round(value * 100) / 100;
+      }
+    }
+    return point;
+  }
+
+  /**
+   * Read and validate all records once per run
+   */
+  private loadRecords(device: DeviceConfig): Promise<CountRecord[]> {
+    this.records ??= this.readRecords(device);
+    return this.records;
+  }
+
+  private async readRecords(device: DeviceConfig): Promise<CountRecord[]> {
+    const files = await this.listFiles();
+    const records: CountRecord[] = [];
+
+    for (const file of files) {
+      const text = await this.fileService.readText(file, `reading count file ${file}`);
+      if (text === null) {
+        throw new Error(`Count file not found: ${file}`);
+      }
+
+      const raw = file.endsWith('.json') ? this.parseJsonRecords(text, file) : parseCountCsv(text);
+      let skipped = 0;
+      for (const entry of raw) {
+        const record = this.toRecord(entry, device.timezone ?? 'UTC');
+        if (record) {
+          records.push(record);
+        } else {
+          skipped++;
+        }
+      }
+
+      if (skipped > 0) {
+        logger.warn(`Skipped ${skipped} invalid record(s) in ${file} for device ${device.id}`);
+      }
+    }
+
+    logger.debug(`Read ${records.length} count record(s) for device ${device.id}`);
+    return records;
+  }
+
+  /**
+   * Count files of the source: the configured file, or all count files below the configured directory
+   */
+  private async listFiles(): Promise<string[]> {
+    const stats = await fs.stat(this.config.path).catch(() => null);
+    if (!stats) {
+      throw new Error(`Count file or directory not found: ${this.config.path}`);
+    }
+    if (!stats.isDirectory()) {
+      return [this.config.path];
+    }
+
+    const files = await this.fileService.collectFiles(this.config.path, SOURCES.FILE_EXTENSIONS);
+    return files.sort();
+  }
+
+  private parseJsonRecords(text: string, file: string): Record<string, unknown>[] {
+    const data: unknown = JSON.parse(text);
+    const entries = Array.isArray(data) ? data : (data as { records?: unknown } | null)?.records;
+    if (!Array.isArray(entries)) {
+      throw new Error(`Count file ${file} must hold an array of records or { "records": [...] }`);
+    }
+    return entries.filter(
+      (entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null,
+    );
+  }
+
+  /**
+   * Validate a raw record, or return null if it is unusable
+   */
+  private toRecord(entry: Record<string, unknown>, timeZone: string): CountRecord | null {
+    const start = parseTimestamp(entry.start, timeZone);
+    if (!start) {
+      return null;
+    }
+
+    let end: Date | null;
+    if (!isBlank(entry.end)) {
+      end = parseTimestamp(entry.end, timeZone);
+    } else {
+      const minutes = isBlank(entry.minutes)
+        ? (this.config.intervalMinutes ?? defaultIntervalMinutes(this.config.type))
+        : parseCount(entry.minutes);
+      end = minutes === undefined ? null : new Date(start.getTime() + minutes * MS_PER_MINUTE);
+    }
+
+    const duration = end ? end.getTime() - start.getTime() : 0;
+    if (!end || duration <= 0 || duration > SOURCES.MAX_INTERVAL_MINUTES * MS_PER_MINUTE) {
+      return null;
+    }
+
+    const counts: CountRecord['counts'] = {};
+    for (const field of COUNT_FIELDS) {
+      if (isBlank(entry[field])) continue;
+      const value = parseCount(entry[field]);
+      if (value === undefined) {
+        return null;
+      }
+      counts[field] = value;
+    }
+
+    return Object.keys(counts).length > 0 ? { start, end, counts } : null;
+  }
+}
+
+/**
+ * Parse a count CSV, accepting semicolon-separated exports
+ */
+function parseCountCsv(text: string): Record<string, string>[] {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  const separator = header.includes(';') && !header.includes(',') ? ';' : ',';
+  return parseCsv(text, separator);
+}
+
+function parseTimestamp(value: unknown, timeZone: string): Date | null {
+  return typeof value === 'string' ? parseLocalDateTime(value, timeZone) : null;
+}
+
+/**
+ * Parse a non-negative number from a JSON number or CSV string
+ */
+function parseCount(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+}
+
+function defaultIntervalMinutes(type: CountFileSourceConfig['type']): number {
+  return type === 'inductive-loop'
+    ? SOURCES.DEFAULT_LOOP_INTERVAL_MINUTES
+    : SOURCES.DEFAULT_MANUAL_INTERVAL_MINUTES;
+}
@@ -0,0 +1,45 @@
+/**
+ * Telraam Traffic Source
+ *
+ * Hourly counts from the Telraam traffic report API.
+ */
+
+import { TelraamClient } from '../telraamClient.js';
+import type { DateRange, DeviceConfig, TrafficDataPoint } from '../types.js';
+import { createLogger, LOG_NAMESPACES } from '../utils/index.js';
+import type { TrafficSource } from './TrafficSource.js';
+
+const logger = createLogger(LOG_NAMESPACES.SOURCES);
+
+/**
+ * Reads a device's counts from the Telraam API
+ */
+export class TelraamSource implements TrafficSource {
+  readonly type = 'telraam';
+
+  constructor(private readonly client: TelraamClient) {}
+
+  async fetchHourlyData(device: DeviceConfig, dateRange: DateRange): Promise<TrafficDataPoint[]> {
+    return this.client.fetchTrafficData(device.id, dateRange);
+  }
+
+  /**
+   * Find the earliest first data package across all instances on the segment
+   */
+  async findFirstDataPoint(device: DeviceConfig): Promise<Date | null> {
+    const instances = await this.client.fetchInstances(device.id);
+    const timestamps = instances
+      .map((instance) => instance.first_data_package ?? instance.time_added)
+      .filter((value): value is string => typeof value === 'string')
+      .map((value) => new Date(value))
+      .filter((date) => !Number.isNaN(date.getTime()));
+
+    if (timestamps.length === 0) {
+      return null;
+    }
+
+    const earliest = new Date(Math.min(...timestamps.map((date) => date.getTime())));
+    logger.info(`First data package for device ${device.id}: ${earliest.toISOString()}`);
+    return earliest;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Traffic Source Interface
+ *
+ * A traffic source delivers hourly counts for a device as Telraam-compatible
+ * data points, so counts from other counters (inductive loops, manual
+ * counts) are stored and aggregated through the same pipeline.
+ */
+
+import type { DateRange, DeviceConfig, TrafficDataPoint, TrafficSourceType } from '../types.js';
+
+/**
+ * Source of hourly traffic counts for a device
+ */
+export interface TrafficSource {
+  /** Kind of source */
+  readonly type: TrafficSourceType;
+
+  /**
+   * Fetch the hourly data points of a device within a date range (UTC hours)
+   */
+  fetchHourlyData(device: DeviceConfig, dateRange: DateRange): Promise<TrafficDataPoint[]>;
+
+  /**
+   * Find when the source first has data for a device, or null if unknown
+   */
+  findFirstDataPoint(device: DeviceConfig): Promise<Date | null>;
+}
@@ -0,0 +1,32 @@
+/**
+ * Traffic Sources Index
+ *
+ * Central export point for traffic sources and the per-device source factory.
+ */
+
+import { TelraamClient } from '../telraamClient.js';
+import type { DeviceConfig } from '../types.js';
+import { CountFileSource } from './CountFileSource.js';
+import { TelraamSource } from './TelraamSource.js';
+import type { TrafficSource } from './TrafficSource.js';
+
+export type { TrafficSource } from './TrafficSource.js';
+export { TelraamSource } from './TelraamSource.js';
+export { CountFileSource } from './CountFileSource.js';
+
+/**
+ * Whether a device is counted by a Telraam camera (the default source)
+ */
+export function isTelraamDevice(device: DeviceConfig): boolean {
+  return !device.source || device.source.type === 'telraam';
+}
+
+/**
+ * Create the traffic source configured for a device
+ */
+export function createTrafficSource(device: DeviceConfig, client: TelraamClient): TrafficSource {
+  if (!device.source || device.source.type === 'telraam') {
+    return new TelraamSource(client);
+  }
+  return new CountFileSource(device.source);
+}
@@ -0,0 +1,74 @@
+/**
+ * SQLite Sync Module
+ *
+ * Builds the SQLite database from the JSON data tree, so data collected
+ * before the SQLite backend was enabled (or written with it disabled) can be
+ * queried with SQL. The database is emptied first: afterwards it holds
+ * exactly what the JSON files hold.
+ */
+
+import { SqliteStore, Storage } from './services/index.js';
+import { createLogger, LOG_NAMESPACES } from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.SYNC);
+
+/**
+ * Rows written to each table by a sync
+ */
+export interface SyncReport {
+  devices: number;
+  hourly: number;
+  daily: number;
+  runs: number;
+}
+
+/**
+ * Copies the JSON data tree into a SQLite database
+ */
+export class SqliteSync {
+  constructor(
+    private readonly storage: Storage,
+    private readonly database: SqliteStore,
+  ) {}
+
+  /**
+   * Replace the database contents with the data directory's devices, hourly and daily months and run history
+   */
+  async sync(): Promise<SyncReport> {
+    this.database.clear();
+
+    const devices = await this.storage.loadDeviceMetadata();
+    this.database.replaceDevices(devices);
+    const report: SyncReport = { devices: devices.length, hourly: 0, daily: 0, runs: 0 };
+
+    for (const deviceId of await this.storage.listStoredDeviceIds()) {
+      for (const month of await this.storage.listHourlyMonths(deviceId)) {
+        const monthlyData = await this.storage.loadMonthlyData(deviceId, month);
+        const points = monthlyData?.data ?? [];
+        this.database.replaceHourlyMonth(deviceId, month, points);
+        report.hourly += points.length;
+      }
+
+      for (const month of await this.storage.listDailyMonths(deviceId)) {
+        const days = (await this.storage.loadDailyData(deviceId, month))?.days ?? [];
+        this.database.replaceDailyMonth(deviceId, month, days);
+        report.daily += days.length;
+      }
+
+      logger.debug(`Synced device ${deviceId}`);
+    }
+
+    // Oldest first, like the runs were recorded
+    const history = await this.storage.loadRunHistory();
+    for (const run of [...history.runs].reverse()) {
+      this.database.insertRun(run);
+    }
+    report.runs = history.runs.length;
+
+    await this.database.save();
+    logger.info(
+      `Synced ${report.devices} device(s), ${report.hourly} hourly point(s), ${report.daily} daily total(s) and ${report.runs} run(s) to SQLite`,
+    );
+    return report;
+  }
+}
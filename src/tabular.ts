@@ -0,0 +1,211 @@
+/**
+ * Tabular Layout Module
+ *
+ * Flattens hourly points and daily entries into rows with a fixed column
+ * order, and encodes them as CSV or Parquet for pandas, R and spreadsheets.
+ * Missing values (including `null` night counts of Telraam V1 devices) are
+ * empty CSV fields and Parquet nulls; each speed histogram bin gets its own
+ * column.
+ */
+
+import { parquetWriteBuffer, type BasicType } from 'hyparquet-writer';
+import type { BaselineMode, DailyEntry, TrafficDataPoint } from './types.js';
+import { formatCsvRow } from './utils/index.js';
+
+/**
+ * File formats tables are written in
+ */
+export type TableFormat = 'csv' | 'parquet';
+
+/**
+ * A cell value; null for missing values
+ */
+export type TableValue = string | number | null;
+
+/**
+ * A column with its Parquet type and how to read it from a record
+ */
+interface TableColumn<T> {
+  name: string;
+  type: Extract<BasicType, 'STRING' | 'DOUBLE' | 'INT32' | 'INT64'>;
+  value: (record: T) => TableValue;
+}
+
+/**
+ * An hourly point or daily entry of a device
+ */
+export interface DeviceRecord<T> {
+  deviceId: string;
+  record: T;
+}
+
+/**
+ * Rows of a table, in column order
+ */
+export interface Table {
+  columns: { name: string; type: TableColumn<unknown>['type'] }[];
+  rows: TableValue[][];
+}
+
+/** Count fields in the order of the Telraam traffic report */
+const COUNT_FIELDS = [
+  'heavy',
+  'car',
+  'bike',
+  'pedestrian',
+  'night',
+  'heavy_lft',
+  'heavy_rgt',
+  'car_lft',
+  'car_rgt',
+  'bike_lft',
+  'bike_rgt',
+  'pedestrian_lft',
+  'pedestrian_rgt',
+  'night_lft',
+  'night_rgt',
+] as const;
+
+/** Modes compared against the baseline in daily deviations */
+const BASELINE_MODES: readonly BaselineMode[] = ['heavy', 'car', 'bike', 'pedestrian'];
+
+/**
+ * Speed histograms with their bin width and open-ended last bin
+ * 0to70plus: 10 km/h bins 0-10 … 60-70 and 70+; 0to120plus: 5 km/h bins 0-5 … 115-120 and 120+
+ */
+const HISTOGRAMS = [
+  { field: 'car_speed_hist_0to70plus', binWidth: 10, max: 70 },
+  { field: 'car_speed_hist_0to120plus', binWidth: 5, max: 120 },
+] as const;
+
+const HOURLY_COLUMNS: TableColumn<DeviceRecord<TrafficDataPoint>>[] = [
+  { name: 'device_id', type: 'STRING', value: ({ deviceId }) => deviceId },
+  { name: 'date', type: 'STRING', value: ({ record }) => record.date ?? null },
+  { name: 'interval', type: 'STRING', value: ({ record }) => record.interval ?? null },
+  { name: 'timezone', type: 'STRING', value: ({ record }) => record.timezone ?? null },
+  { name: 'instance_id', type: 'INT64', value: ({ record }) => toNumber(record.instance_id) },
+  { name: 'segment_id', type: 'INT64', value: ({ record }) => toNumber(record.segment_id) },
+  { name: 'uptime', type: 'DOUBLE', value: ({ record }) => toNumber(record.uptime) },
+  ...COUNT_FIELDS.map(
+    (field): TableColumn<DeviceRecord<TrafficDataPoint>> => ({
+      name: field,
+      type: 'DOUBLE',
+      value: ({ record }) => toNumber(record[field]),
+    }),
+  ),
+  { name: 'direction', type: 'INT32', value: ({ record }) => toNumber(record.direction) },
+  { name: 'v85', type: 'DOUBLE', value: ({ record }) => toNumber(record.v85) },
+  ...histogramColumns<DeviceRecord<TrafficDataPoint>>(({ record }, field) => record[field]),
+];
+
+const DAILY_COLUMNS: TableColumn<DeviceRecord<DailyEntry>>[] = [
+  { name: 'device_id', type: 'STRING', value: ({ deviceId }) => deviceId },
+  { name: 'date', type: 'STRING', value: ({ record }) => record.date },
+  { name: 'hours', type: 'INT32', value: ({ record }) => record.totals.hours },
+  { name: 'uptime_avg', type: 'DOUBLE', value: ({ record }) => toNumber(record.totals.uptime_avg) },
+  ...COUNT_FIELDS.map(
+    (field): TableColumn<DeviceRecord<DailyEntry>> => ({
+      name: field,
+      type: 'DOUBLE',
+      value: ({ record }) => toNumber(record.totals[field]),
+    }),
+  ),
+  { name: 'v85', type: 'DOUBLE', value: ({ record }) => toNumber(record.totals.v85) },
+  ...histogramColumns<DeviceRecord<DailyEntry>>(({ record }, field) => record.totals[field]),
+  {
+    name: 'baseline_period_end',
+    type: 'STRING',
+    value: ({ record }) => record.deviation?.baselinePeriodEnd ?? null,
+  },
+  {
+    name: 'baseline_hours',
+    type: 'INT32',
+    value: ({ record }) => toNumber(record.deviation?.hours),
+  },
+  ...BASELINE_MODES.flatMap((mode): TableColumn<DeviceRecord<DailyEntry>>[] => [
+    {
+      name: `expected_${mode}`,
+      type: 'DOUBLE',
+      value: ({ record }) => toNumber(record.deviation?.expected[mode]),
+    },
+    {
+      name: `relative_${mode}`,
+      type: 'DOUBLE',
+      value: ({ record }) => toNumber(record.deviation?.relative[mode]),
+    },
+  ]),
+];
+
+/**
+ * Build the hourly table of devices' points, in the given order
+ */
+export function buildHourlyTable(records: DeviceRecord<TrafficDataPoint>[]): Table {
+  return buildTable(HOURLY_COLUMNS, records);
+}
+
+/**
+ * Build the daily table of devices' entries, in the given order
+ */
+export function buildDailyTable(records: DeviceRecord<DailyEntry>[]): Table {
+  return buildTable(DAILY_COLUMNS, records);
+}
+
+/**
+ * Encode a table as CSV with a header row
+ */
+export function encodeCsv(table: Table): string {
+  const lines = [table.columns.map((column) => column.name), ...table.rows].map((row) =>
+    formatCsvRow(row),
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Encode a table as a Parquet file
+ */
+export function encodeParquet(table: Table): Uint8Array {
+  const buffer = parquetWriteBuffer({
+    columnData: table.columns.map((column, index) => ({
+      name: column.name,
+      type: column.type,
+      nullable: true,
+      // Parquet INT64 values are written from bigints
+      data: table.rows.map((row) =>
+        column.type === 'INT64' && typeof row[index] === 'number' ? BigInt(row[index]) : row[index],
+      ),
+    })),
+  });
+  return new Uint8Array(buffer);
+}
+
+/**
+ * One column per histogram bin, named after the bin's speed range
+ */
+function histogramColumns<T>(
+  read: (record: T, field: (typeof HISTOGRAMS)[number]['field']) => number[] | undefined,
+): TableColumn<T>[] {
+  return HISTOGRAMS.flatMap(({ field, binWidth, max }) =>
+    Array.from(
+      { length: max / binWidth + 1 },
+      (_, bin): TableColumn<T> => ({
+        name: `${field}_${bin * binWidth < max ? `${bin * binWidth}_${(bin + 1) * binWidth}` : `${max}plus`}`,
+        type: 'DOUBLE',
+        value: (record) => toNumber(read(record, field)?.[bin]),
+      }),
+    ),
+  );
+}
+
+function buildTable<T>(columns: TableColumn<T>[], records: T[]): Table {
+  return {
+    columns: columns.map(({ name, type }) => ({ name, type })),
+    rows: records.map((record) => columns.map((column) => column.value(record))),
+  };
+}
+
+/**
+ * Normalize missing and non-finite values to null
+ */
+function toNumber(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
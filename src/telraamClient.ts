@@ -8,18 +8,43 @@
  * OpenAPI specification.
  */
 
-import { ApiError, Fetcher } from 'openapi-typescript-fetch';
+import { ApiError, Fetcher, type Middleware } from 'openapi-typescript-fetch';
 import type { paths } from './generated/telraam-api.js';
 import type {
+  AdvancedTrafficRequest,
+  AllInstancesDownload,
+  ApiUsage,
+  AllInstancesResponse,
+  BaselineDuration,
+  CameraInstance,
   DateRange,
+  LiveSnapshotFeature,
+  LiveSnapshotResponse,
+  SegmentByIdFeature,
+  SegmentFeature,
+  SegmentsAreaRequest,
+  SegmentsResponse,
+  QuarterHourDataPoint,
+  RetryDecisions,
   TrafficDataPoint,
   TrafficReportRequest,
   TrafficReportResponse,
+  TypicalTrafficEntry,
+  TypicalTrafficRequest,
 } from './types.js';
 import { createLogger } from './utils/logger.js';
-import { formatDateTimeForAPI } from './utils/datetime.js';
-import { API, ERRORS, LOG_NAMESPACES } from './utils/constants.js';
-import { createRetryStrategy } from './services/RetryStrategy.js';
+import {
+  addHours,
+  formatDateTimeForAPI,
+  formatDuration,
+  splitDateRange,
+} from './utils/datetime.js';
+import { RunCancelledError, throwIfCancelled } from './utils/cancellation.js';
+import { API, COLLECTION, ERRORS, LOG_NAMESPACES } from './utils/constants.js';
+import { createRetryStrategy, type RetryStrategy } from './services/RetryStrategy.js';
+import { CircuitBreaker, CircuitOpenError } from './services/CircuitBreaker.js';
+import type { RateLimiter } from './services/RateLimiter.js';
+import { FixtureNotFoundError, type HttpRecorder } from './services/HttpRecorder.js';
 
 const logger = createLogger(LOG_NAMESPACES.CLIENT);
 
@@ -31,12 +56,40 @@ export class TelraamApiError extends Error {
     message: string,
     public readonly statusCode?: number,
     public readonly responseData?: unknown,
+    /** Delay requested by the server's Retry-After header */
+    public readonly retryAfterMs?: number,
   ) {
     super(message);
     this.name = 'TelraamApiError';
   }
 }
 
+/**
+ * Error thrown when a request attempt exceeds the per-attempt timeout
+ */
+export class TelraamTimeoutError extends TelraamApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TelraamTimeoutError';
+  }
+}
+
+/**
+ * Optional client behaviour
+ */
+export interface TelraamClientOptions {
+  /** Shared rate limiter every request (including retries) waits on */
+  rateLimiter?: RateLimiter;
+  /** Per-attempt timeout in milliseconds (default: API.TIMEOUT) */
+  timeoutMs?: number;
+  /** Run cancellation; aborts requests in flight and fails new ones */
+  signal?: AbortSignal;
+  /** Retries allowed across all calls of this client (default: API.RETRY.DEFAULT_RUN_BUDGET) */
+  retryBudget?: number;
+  /** Records responses to fixtures, or serves them from fixtures instead of the network */
+  recorder?: HttpRecorder;
+}
+
 /**
  * Client for interacting with the Telraam API
  *
@@ -49,17 +102,39 @@ export class TelraamApiError extends Error {
  */
 export class TelraamClient {
   private readonly fetcher: ReturnType<typeof Fetcher.for<paths>>;
-  private readonly retryStrategy = createRetryStrategy({
-    maxAttempts: API.RETRY.MAX_ATTEMPTS,
-    baseDelayMs: API.RETRY.BASE_DELAY_MS,
-    shouldRetry: (error: unknown, attempt: number) => this.shouldRetry(error, attempt),
+  private readonly retryStrategy: RetryStrategy;
+  private readonly retryBudget: number;
+  private readonly circuitBreaker = new CircuitBreaker({
+    failureThreshold: API.CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+    cooldownMs: API.CIRCUIT_BREAKER.COOLDOWN_MS,
   });
-
-  constructor(apiUrl: string, apiKey: string) {
-    if (!apiKey) {
+  private readonly usage: ApiUsage = { requests: 0, retries: 0, failures: 0 };
+  private readonly usageByDevice = new Map<string, ApiUsage>();
+  private readonly timeoutMs: number;
+  private readonly signal?: AbortSignal;
+  private readonly downloadFetch: (url: string, init?: RequestInit) => Promise<Response>;
+
+  constructor(apiUrl: string, apiKey: string, options: TelraamClientOptions = {}) {
+    if (!apiKey && options.recorder?.mode !== 'replay') {
       throw new Error(ERRORS.CONFIG.MISSING_API_KEY);
     }
 
+    this.timeoutMs = options.timeoutMs ?? API.TIMEOUT;
+    this.signal = options.signal;
+    this.downloadFetch = options.recorder ? options.recorder.wrapFetch() : fetch;
+    this.retryBudget = options.retryBudget ?? API.RETRY.DEFAULT_RUN_BUDGET;
+    this.retryStrategy = createRetryStrategy({
+      maxAttempts: API.RETRY.MAX_ATTEMPTS,
+      baseDelayMs: API.RETRY.BASE_DELAY_MS,
+      maxDelayMs: API.RETRY.MAX_DELAY_MS,
+      jitter: true,
+      maxTotalRetries: this.retryBudget,
+      maxRetryAfterMs: API.RETRY.MAX_RETRY_AFTER_MS,
+      shouldRetry: (error: unknown, attempt: number) => this.shouldRetry(error, attempt),
+      getRetryAfterMs: (error: unknown) =>
+        error instanceof TelraamApiError ? error.retryAfterMs : undefined,
+    });
+
     // Initialize the type-safe fetcher
     this.fetcher = Fetcher.for<paths>();
 
@@ -72,6 +147,14 @@ export class TelraamClient {
           'X-Api-Key': apiKey,
         },
       },
+      // The timeout starts after the rate limiter wait, so queueing never eats into an attempt
+      use: [
+        ...(options.rateLimiter
+          ? [createRateLimitMiddleware(options.rateLimiter, this.signal)]
+          : []),
+        createTimeoutMiddleware(this.timeoutMs, this.signal),
+        ...(options.recorder ? [options.recorder.middleware()] : []),
+      ],
     });
 
     logger.debug(`Initialized Telraam API client for ${apiUrl}`);
@@ -110,14 +193,352 @@ export class TelraamClient {
     );
 
     // Use retry strategy for the API call
-    return this.retryStrategy.execute(async () => {
+    return this.execute(
+      async () => {
+        try {
+          const { data } = await getTraffic(requestBody);
+          return this.validateAndExtractData(data, deviceId);
+        } catch (error) {
+          throw this.handleApiError(error, `device ${deviceId}`);
+        }
+      },
+      `fetch traffic data for device ${deviceId}`,
+      deviceId,
+    );
+  }
+
+  /**
+   * Fetch quarter-hour traffic data via the advanced API
+   *
+   * The range is requested in windows of COLLECTION.QUARTER_HOUR_WINDOW_DAYS
+   * to stay below the advanced API's payload limit.
+   *
+   * @param deviceId - The Telraam device/segment identifier
+   * @param dateRange - The date range to fetch data for
+   * @returns Quarter-hour data points in request order
+   * @throws {TelraamApiError} If any request fails (e.g. no advanced API access)
+   */
+  async fetchQuarterHourData(
+    deviceId: string,
+    dateRange: DateRange,
+  ): Promise<QuarterHourDataPoint[]> {
+    const getTraffic = this.fetcher.path(API.ENDPOINTS.ADVANCED_TRAFFIC).method('post').create();
+    const points: QuarterHourDataPoint[] = [];
+
+    for (const window of splitDateRange(dateRange, COLLECTION.QUARTER_HOUR_WINDOW_DAYS)) {
+      const requestBody: AdvancedTrafficRequest = {
+        level: API.PARAMS.LEVEL,
+        format: API.PARAMS.QUARTER_HOUR_FORMAT,
+        id: deviceId,
+        time_start: formatDateTimeForAPI(window.start),
+        time_end: formatDateTimeForAPI(window.end),
+      };
+
+      logger.info(
+        `Fetching quarter-hour data for device ${deviceId} from ${requestBody.time_start} to ${requestBody.time_end}`,
+      );
+
+      const report = await this.execute(
+        async () => {
+          try {
+            const { data } = await getTraffic(requestBody);
+            return data?.report ?? [];
+          } catch (error) {
+            throw this.handleApiError(error, `device ${deviceId}`);
+          }
+        },
+        `fetch quarter-hour data for device ${deviceId}`,
+        deviceId,
+      );
+      points.push(...report);
+    }
+
+    logger.info(`Retrieved ${points.length} quarter-hour data points for device ${deviceId}`);
+    return points;
+  }
+
+  /**
+   * Fetch the latest hourly typical traffic profile of a device (advanced API)
+   *
+   * Typical traffic is calculated about every two weeks; the most recent
+   * calculation whose period ends in the last BASELINE_LOOKBACK_DAYS is returned.
+   *
+   * @param deviceId - The Telraam device/segment identifier
+   * @param duration - Period the averages are calculated over
+   * @returns Typical traffic entries per weekday and local hour (empty if none)
+   * @throws {TelraamApiError} If the API request fails (e.g. no advanced API access)
+   */
+  async fetchTypicalTraffic(
+    deviceId: string,
+    duration: BaselineDuration,
+  ): Promise<TypicalTrafficEntry[]> {
+    const getTypical = this.fetcher.path(API.ENDPOINTS.TYPICAL_TRAFFIC).method('post').create();
+    const end = new Date();
+    const start = addHours(end, -COLLECTION.BASELINE_LOOKBACK_DAYS * 24);
+
+    const requestBody: TypicalTrafficRequest = {
+      level: API.PARAMS.LEVEL,
+      id: deviceId,
+      format: API.PARAMS.FORMAT,
+      duration,
+      latest_only: true,
+      time_start: formatDateTimeForAPI(start),
+      time_end: formatDateTimeForAPI(end),
+      columns: API.PARAMS.TYPICAL_COLUMNS,
+    };
+
+    logger.debug(`Fetching ${duration} typical traffic for device ${deviceId}`);
+
+    return this.execute(
+      async () => {
+        try {
+          const { data } = await getTypical(requestBody);
+          return data?.report ?? [];
+        } catch (error) {
+          throw this.handleApiError(error, `device ${deviceId}`);
+        }
+      },
+      `fetch typical traffic for device ${deviceId}`,
+      deviceId,
+    );
+  }
+
+  /**
+   * Fetch all camera instances (active and archived) installed on a segment
+   *
+   * @param deviceId - The Telraam device/segment identifier
+   * @returns Array of camera instances
+   * @throws {TelraamApiError} If the API request fails
+   */
+  async fetchInstances(deviceId: string): Promise<CameraInstance[]> {
+    const getInstances = this.fetcher
+      .path(API.ENDPOINTS.INSTANCES_BY_SEGMENT)
+      .method('get')
+      .create();
+
+    logger.debug(`Fetching camera instances for device ${deviceId}`);
+
+    return this.execute(
+      async () => {
+        try {
+          const { data } = await getInstances({ segment_id: Number(deviceId) });
+          return data?.camera ?? [];
+        } catch (error) {
+          throw this.handleApiError(error, `device ${deviceId}`);
+        }
+      },
+      `fetch camera instances for device ${deviceId}`,
+      deviceId,
+    );
+  }
+
+  /**
+   * Fetch a segment's geometry and data package times
+   *
+   * @param deviceId - The Telraam device/segment identifier
+   * @returns The segment feature, or null if the API returned none
+   * @throws {TelraamApiError} If the API request fails
+   */
+  async fetchSegment(deviceId: string): Promise<SegmentByIdFeature | null> {
+    const getSegment = this.fetcher.path(API.ENDPOINTS.SEGMENT_BY_ID).method('get').create();
+
+    logger.debug(`Fetching segment ${deviceId}`);
+
+    return this.execute(
+      async () => {
+        try {
+          const { data } = await getSegment({ segment_id: Number(deviceId) });
+          return data?.features?.[0] ?? null;
+        } catch (error) {
+          throw this.handleApiError(error, `segment ${deviceId}`);
+        }
+      },
+      `fetch segment ${deviceId}`,
+      deviceId,
+    );
+  }
+
+  /**
+   * Fetch all public camera instances
+   *
+   * The API answers with a short-lived download_url for this large dataset,
+   * which is followed transparently.
+   *
+   * @returns Array of camera instances across all segments
+   * @throws {TelraamApiError} If the API request or download fails
+   */
+  async fetchAllInstances(): Promise<CameraInstance[]> {
+    const getInstances = this.fetcher.path(API.ENDPOINTS.INSTANCES).method('get').create();
+
+    logger.info('Fetching all camera instances');
+
+    return this.execute(async () => {
       try {
-        const { data } = await getTraffic(requestBody);
-        return this.validateAndExtractData(data, deviceId);
+        const { data } = await getInstances({});
+        const body = data as AllInstancesResponse | AllInstancesDownload;
+
+        if ('download_url' in body && body.download_url) {
+          const response = await this.downloadFetch(body.download_url, {
+            signal: createAttemptSignal(this.timeoutMs, this.signal),
+          });
+          if (!response.ok) {
+            throw new TelraamApiError(
+              `Instances download failed with status ${response.status}: ${response.statusText}`,
+              response.status,
+            );
+          }
+          const full = (await response.json()) as AllInstancesResponse;
+          return full.cameras ?? [];
+        }
+
+        return (body as AllInstancesResponse).cameras ?? [];
       } catch (error) {
-        throw this.handleApiError(error, deviceId);
+        throw error instanceof TelraamApiError
+          ? error
+          : this.handleApiError(error, 'all instances');
       }
-    }, `fetch traffic data for device ${deviceId}`);
+    }, 'fetch all camera instances');
+  }
+
+  /**
+   * Fetch the live traffic snapshot of all active segments
+   *
+   * Contains the most recent counts of each segment if they are at most two
+   * hours old, plus segments that went offline in the past week (no date).
+   *
+   * @returns GeoJSON features, one per segment
+   * @throws {TelraamApiError} If the API request fails
+   */
+  async fetchLiveSnapshot(): Promise<LiveSnapshotFeature[]> {
+    const getSnapshot = this.fetcher.path(API.ENDPOINTS.LIVE_SNAPSHOT).method('get').create();
+
+    logger.debug('Fetching live traffic snapshot');
+
+    return this.execute(async () => {
+      try {
+        const { data } = await getSnapshot({});
+        return ((data as LiveSnapshotResponse | undefined)?.features ??
+          []) as LiveSnapshotFeature[];
+      } catch (error) {
+        throw this.handleApiError(error, 'live snapshot');
+      }
+    }, 'fetch live traffic snapshot');
+  }
+
+  /**
+   * Fetch all segments inside a bounding box, circle or polygon
+   *
+   * @param area - The segments-in-area request body
+   * @returns GeoJSON features of the matching segments
+   * @throws {TelraamApiError} If the API request fails
+   */
+  async fetchSegmentsInArea(area: SegmentsAreaRequest): Promise<SegmentFeature[]> {
+    const getSegments = this.fetcher.path(API.ENDPOINTS.SEGMENTS_AREA).method('post').create();
+
+    return this.execute(async () => {
+      try {
+        // The spec documents this response as identical to /v1/segments without a schema
+        const { data } = await getSegments(area);
+        return (data as SegmentsResponse | undefined)?.features ?? [];
+      } catch (error) {
+        throw this.handleApiError(error, 'segments in area');
+      }
+    }, 'fetch segments in area');
+  }
+
+  /**
+   * API usage so far, for one device or (without an id) for the whole client
+   */
+  getUsage(deviceId?: string): ApiUsage {
+    const usage = deviceId === undefined ? this.usage : this.usageByDevice.get(deviceId);
+    return { requests: 0, retries: 0, failures: 0, ...usage };
+  }
+
+  /**
+   * Run an operation through the retry strategy, counting attempts
+   */
+  private async execute<T>(
+    operation: () => Promise<T>,
+    context: string,
+    deviceId?: string,
+  ): Promise<T> {
+    let attempts = 0;
+    let failed = false;
+
+    try {
+      return await this.retryStrategy.execute(
+        async () => {
+          throwIfCancelled(this.signal);
+          this.circuitBreaker.beforeRequest();
+          attempts++;
+
+          try {
+            const result = await operation();
+            this.circuitBreaker.recordSuccess();
+            return result;
+          } catch (error) {
+            if (this.isTransient(error)) {
+              this.circuitBreaker.recordFailure();
+            } else if (error instanceof TelraamApiError && error.statusCode !== undefined) {
+              // A client error still proves the API is reachable
+              this.circuitBreaker.recordSuccess();
+            } else {
+              this.circuitBreaker.recordInconclusive();
+            }
+            throw error;
+          }
+        },
+        context,
+        this.signal,
+      );
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      const counters =
+        deviceId === undefined ? [this.usage] : [this.usage, this.deviceUsage(deviceId)];
+      for (const usage of counters) {
+        usage.requests += attempts;
+        usage.retries += Math.max(0, attempts - 1);
+        usage.failures += failed ? 1 : 0;
+      }
+    }
+  }
+
+  private deviceUsage(deviceId: string): ApiUsage {
+    let usage = this.usageByDevice.get(deviceId);
+    if (!usage) {
+      usage = { requests: 0, retries: 0, failures: 0 };
+      this.usageByDevice.set(deviceId, usage);
+    }
+    return usage;
+  }
+
+  /**
+   * Retry and circuit breaker decisions made by this client so far
+   */
+  getRetryDecisions(): RetryDecisions {
+    const retry = this.retryStrategy.getStats();
+    const circuit = this.circuitBreaker.getStats();
+
+    return {
+      retryBudget: this.retryBudget,
+      retryAfterWaits: retry.retryAfterWaits,
+      budgetExhausted: retry.budgetExhausted,
+      retryAfterTooLong: retry.retryAfterTooLong,
+      circuitOpened: circuit.opened,
+      circuitRejected: circuit.rejected,
+      circuitState: circuit.state,
+    };
+  }
+
+  /**
+   * Count retry and circuit breaker decisions afresh, with the full retry budget
+   * Long-running callers such as the live poller call this per poll; the circuit state is kept.
+   */
+  resetRetryDecisions(): void {
+    this.retryStrategy.resetStats();
+    this.circuitBreaker.resetStats();
   }
 
   /**
@@ -140,8 +561,21 @@ export class TelraamClient {
 
   /**
    * Handle and transform API errors
+   * Cancellation and missing fixtures are passed through unchanged so they are never retried.
    */
-  private handleApiError(error: unknown, deviceId: string): TelraamApiError {
+  private handleApiError(
+    error: unknown,
+    context: string,
+  ): TelraamApiError | RunCancelledError | FixtureNotFoundError {
+    if (error instanceof RunCancelledError || error instanceof FixtureNotFoundError) {
+      return error;
+    }
+
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      logger.warn(`Request for ${context} timed out after ${formatDuration(this.timeoutMs)}`);
+      return new TelraamTimeoutError(`Request timed out after ${formatDuration(this.timeoutMs)}`);
+    }
+
     if (error instanceof ApiError) {
       const responseData = error.data;
       const message =
@@ -149,21 +583,21 @@ export class TelraamClient {
         error.statusText ||
         'Telraam API request failed';
 
-      logger.error(`API Error for device ${deviceId}`, {
+      const retryAfterMs = parseRetryAfter(error.headers.get('retry-after'));
+
+      logger.error(`API Error for ${context}`, {
         status: error.status,
         statusText: error.statusText,
         response: responseData,
+        retryAfterMs,
       });
 
-      return new TelraamApiError(message, error.status, responseData);
+      return new TelraamApiError(message, error.status, responseData, retryAfterMs);
     }
 
     // Handle fetch Response errors
     if (error instanceof Response) {
-      logger.error(
-        `API Error for device ${deviceId}`,
-        `Status: ${error.status} ${error.statusText}`,
-      );
+      logger.error(`API Error for ${context}`, `Status: ${error.status} ${error.statusText}`);
 
       return new TelraamApiError(
         `API request failed with status ${error.status}: ${error.statusText}`,
@@ -174,17 +608,17 @@ export class TelraamClient {
 
     // Handle network errors
     if (error instanceof TypeError && error.message.includes('fetch')) {
-      logger.error(`Network error for device ${deviceId}`, error);
+      logger.error(`Network error for ${context}`, error);
       return new TelraamApiError(ERRORS.API.NETWORK_ERROR);
     }
 
     // Handle other errors
     if (error instanceof Error) {
-      logger.error(`Error for device ${deviceId}`, error);
+      logger.error(`Error for ${context}`, error);
       return new TelraamApiError(error.message);
     }
 
-    logger.error(`Unexpected error for device ${deviceId}`, error);
+    logger.error(`Unexpected error for ${context}`, error);
     return new TelraamApiError(`Unexpected error: ${String(error)}`);
   }
 
@@ -192,10 +626,27 @@ export class TelraamClient {
    * Determine if an error should be retried
    */
   private shouldRetry(error: unknown, attempt: number): boolean {
-    if (attempt >= API.RETRY.MAX_ATTEMPTS) {
+    return attempt < API.RETRY.MAX_ATTEMPTS && this.isTransient(error);
+  }
+
+  /**
+   * Whether an error is likely to go away on its own
+   * Cancellation, an open circuit and a missing fixture are never transient.
+   */
+  private isTransient(error: unknown): boolean {
+    if (
+      error instanceof RunCancelledError ||
+      error instanceof CircuitOpenError ||
+      error instanceof FixtureNotFoundError
+    ) {
       return false;
     }
 
+    // A hung connection is likely transient
+    if (error instanceof TelraamTimeoutError) {
+      return true;
+    }
+
     // Always retry network errors
     if (error instanceof TypeError && error.message.includes('fetch')) {
       return true;
@@ -237,3 +688,48 @@ export class TelraamClient {
     return undefined;
   }
 }
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Abort signal for one request attempt: fires on timeout or run cancellation
+ */
+function createAttemptSignal(timeoutMs: number, runSignal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return runSignal ? AbortSignal.any([timeout, runSignal]) : timeout;
+}
+
+/**
+ * Middleware that bounds every HTTP request, including reading the body, by the attempt timeout
+ */
+function createTimeoutMiddleware(timeoutMs: number, runSignal?: AbortSignal): Middleware {
+  return async (url, init, next) => {
+    throwIfCancelled(runSignal);
+    return next(url, { ...init, signal: createAttemptSignal(timeoutMs, runSignal) });
+  };
+}
+
+/**
+ * Middleware that waits for the rate limiter before every HTTP request
+ */
+function createRateLimitMiddleware(rateLimiter: RateLimiter, runSignal?: AbortSignal): Middleware {
+  return async (url, init, next) => {
+    await rateLimiter.acquire(runSignal);
+    return next(url, init);
+  };
+}
@@ -35,10 +35,159 @@ export type TrafficReportResponse = NonNullable<
  */
 export type TrafficDataPoint = NonNullable<TrafficReportResponse['report']>[number];
 
+/**
+ * Advanced traffic report API endpoint types
+ */
+type AdvancedTrafficEndpoint = paths['/advanced/reports/traffic']['post'];
+
+/**
+ * Request body for the advanced traffic report API
+ */
+export type AdvancedTrafficRequest = NonNullable<
+  AdvancedTrafficEndpoint['requestBody']
+>['content']['application/json'];
+
+/**
+ * Successful response from the advanced traffic report API
+ */
+export type AdvancedTrafficResponse = NonNullable<
+  AdvancedTrafficEndpoint['responses']['200']
+>['content']['application/json'];
+
+/**
+ * Quarter-hour traffic data point from the advanced API
+ */
+export type QuarterHourDataPoint = NonNullable<AdvancedTrafficResponse['report']>[number];
+
+/**
+ * Typical traffic API endpoint types
+ */
+type TypicalTrafficEndpoint = paths['/advanced/reports/typical_traffic']['post'];
+
+/**
+ * Request body for the typical traffic API
+ */
+export type TypicalTrafficRequest = NonNullable<
+  TypicalTrafficEndpoint['requestBody']
+>['content']['application/json'];
+
+/**
+ * Successful response from the typical traffic API
+ */
+export type TypicalTrafficResponse = NonNullable<
+  TypicalTrafficEndpoint['responses']['200']
+>['content']['application/json'];
+
+/**
+ * One typical traffic entry (a weekday and hour or quarter)
+ */
+export type TypicalTrafficEntry = NonNullable<TypicalTrafficResponse['report']>[number];
+
+/**
+ * Traffic snapshot API endpoint types
+ */
+type TrafficSnapshotEndpoint = paths['/v1/reports/traffic_snapshot']['post'];
+
+/**
+ * Response of the live traffic snapshot API
+ * The spec documents no schema for the live call; it shares the traffic snapshot's structure.
+ */
+export type LiveSnapshotResponse = NonNullable<
+  TrafficSnapshotEndpoint['responses']['200']
+>['content']['application/json'];
+
+/**
+ * One segment of the live traffic snapshot
+ */
+export type LiveSnapshotFeature = NonNullable<LiveSnapshotResponse['features']>[number] & {
+  /** Documented in the live snapshot description but missing from the schema */
+  properties?: { last_data_package?: string };
+};
+
+/**
+ * Instances-by-segment API endpoint types
+ */
+type InstancesBySegmentEndpoint = paths['/v1/instances/segment/{segment_id}']['get'];
+
+/**
+ * Successful response from the instances-by-segment API
+ */
+export type InstancesResponse = NonNullable<
+  InstancesBySegmentEndpoint['responses']['200']
+>['content']['application/json'];
+
+/**
+ * Individual camera instance from the instances API
+ */
+export type CameraInstance = NonNullable<InstancesResponse['camera']>[number];
+
+/**
+ * All-instances API endpoint types
+ */
+type AllInstancesEndpoint = paths['/v1/instances']['get'];
+
+/**
+ * Full response of the all-instances API (served directly or via download_url)
+ */
+export type AllInstancesResponse = NonNullable<
+  AllInstancesEndpoint['responses']['200']
+>['content']['application/json'];
+
+/**
+ * Initial all-instances response pointing at a download_url for large results
+ */
+export type AllInstancesDownload = NonNullable<
+  AllInstancesEndpoint['responses']['201']
+>['content']['application/json'];
+
+/**
+ * Segments API endpoint types
+ */
+type SegmentsEndpoint = paths['/v1/segments']['get'];
+
+/**
+ * GeoJSON FeatureCollection of segments (also returned by the segments-in-area API)
+ */
+export type SegmentsResponse = NonNullable<
+  SegmentsEndpoint['responses']['200']
+>['content']['application/json'];
+
+/**
+ * Individual segment feature with its geometry
+ */
+export type SegmentFeature = NonNullable<SegmentsResponse['features']>[number];
+
+/**
+ * Segment-by-id API response: the segment geometry plus all its camera instances
+ */
+export type SegmentByIdResponse = NonNullable<
+  paths['/v1/segments/id/{segment_id}']['get']['responses']['200']
+>['content']['application/json'];
+
+/**
+ * Single feature of the segment-by-id API
+ */
+export type SegmentByIdFeature = NonNullable<SegmentByIdResponse['features']>[number];
+
+/**
+ * Request body for the segments-in-area API
+ */
+export type SegmentsAreaRequest = NonNullable<
+  paths['/v1/segments/area']['post']['requestBody']
+>['content']['application/json'];
+
 // ============================================================================
 // Domain Types
 // ============================================================================
 
+/**
+ * Geographic coordinates in degrees (EPSG:4326)
+ */
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
 /**
  * Device configuration
  */
@@ -49,18 +198,109 @@ export interface DeviceConfig {
   name: string;
   /** Device location description */
   location: string;
+  /** Whether data is collected for this device (default: true) */
+  enabled?: boolean;
+  /** Initial window in days for this device, overriding TELRAAM_DAYS_TO_FETCH */
+  daysToFetch?: number;
+  /** IANA time zone of the device location, e.g. Europe/Berlin */
+  timezone?: string;
+  /** Location of the device */
+  coordinates?: Coordinates;
+  /** Posted speed limit on the segment in km/h */
+  speedLimit?: number;
+  /** Free-form labels, e.g. district or project names */
+  tags?: string[];
+  /** Names for the two counting directions, overriding the labels derived from the segment geometry */
+  directionLabels?: DirectionLabels;
+  /** Collect quarter-hour data via the advanced API (requires advanced API access) */
+  quarterHour?: boolean;
+  /** Fetch a typical traffic baseline over this period (requires advanced API access) */
+  baseline?: BaselineDuration;
+  /** Where the device's counts come from (default: the Telraam API) */
+  source?: TrafficSourceConfig;
+}
+
+/**
+ * Kind of traffic source a device is counted by
+ */
+export type TrafficSourceType = 'telraam' | 'inductive-loop' | 'manual';
+
+/**
+ * Counts read from CSV or JSON files (inductive loop exports, manual counts)
+ */
+export interface CountFileSourceConfig {
+  type: 'inductive-loop' | 'manual';
+  /** Count file, or directory searched recursively for .csv and .json files */
+  path: string;
+  /** Minutes covered by a record without an "end" or "minutes" field (default: 15 for loops, 60 for manual counts) */
+  intervalMinutes?: number;
+}
+
+/**
+ * Traffic source of a device
+ */
+export type TrafficSourceConfig = { type: 'telraam' } | CountFileSourceConfig;
+
+/**
+ * Period a typical traffic baseline is averaged over (365, 91 or 30 days)
+ */
+export type BaselineDuration = TypicalTrafficRequest['duration'];
+
+/**
+ * Human-readable names for the `_lft` and `_rgt` counting directions
+ */
+export interface DirectionLabels {
+  lft: string;
+  rgt: string;
+}
+
+/**
+ * GeoJSON geometry of a Telraam segment (EPSG:4326)
+ */
+export interface SegmentGeometry {
+  type: string;
+  coordinates: number[][][];
+}
+
+/**
+ * Device registry file structure (config/devices.json)
+ */
+export interface DeviceRegistryFile {
+  /** Registry schema version */
+  version: number;
+  /** Configured devices */
+  devices: DeviceConfig[];
 }
 
 /**
  * Device metadata stored in devices.json
  */
-export interface DeviceMetadata extends DeviceConfig {
+export interface DeviceMetadata extends DeviceConfig, DeviceApiMetadata {
   /** ISO timestamp of last update */
   lastUpdated: string;
   /** Total number of data points collected */
   totalDataPoints: number;
 }
 
+/**
+ * Device details refreshed from the instances and segments APIs
+ * All fields are optional so older metadata files and failed refreshes stay valid.
+ */
+export interface DeviceApiMetadata {
+  /** Status of the current (or most recently added) camera instance */
+  cameraStatus?: CameraInstance['status'];
+  /** Hardware version of that instance (1 = Telraam V1, 2 = Telraam S2) */
+  hardwareVersion?: number;
+  /** ISO timestamp of the first data package on the segment */
+  firstDataPackage?: string;
+  /** ISO timestamp of the most recent data package on the segment */
+  lastDataPackage?: string;
+  /** Segment geometry */
+  geometry?: SegmentGeometry;
+  /** ISO timestamp of the last successful refresh from the API */
+  metadataRefreshedAt?: string;
+}
+
 /**
  * Monthly data file structure
  */
@@ -75,10 +315,38 @@ export interface MonthlyData {
   data: TrafficDataPoint[];
 }
 
+/**
+ * Quarter-hour data file structure (one file per month)
+ */
+export interface QuarterlyData {
+  /** Device identifier */
+  device_id: string;
+  /** Month in YYYY-MM format */
+  month: string;
+  /** ISO timestamp of last update */
+  lastUpdated: string;
+  /** Array of quarter-hour data points */
+  data: QuarterHourDataPoint[];
+}
+
+/**
+ * Car speed figures of daily totals, aggregated from the hourly speed histograms
+ */
+export interface DailySpeed {
+  /** Percent of cars per 10 km/h bin (70+ last), hourly histograms weighted by car count */
+  car_speed_hist_0to70plus?: number[];
+  /** Percent of cars per 5 km/h bin (120+ last), hourly histograms weighted by car count */
+  car_speed_hist_0to120plus?: number[];
+  /** Estimated speed (km/h) 85% of cars stay under, interpolated in the finest histogram */
+  v85?: number;
+  /** Percent of cars faster than each configured speed threshold, keyed by km/h */
+  car_speed_above?: Record<string, number>;
+}
+
 /**
  * Aggregated daily totals derived from hourly traffic data
  */
-export interface DailyTotals {
+export interface DailyTotals extends DailySpeed {
   /** Number of hourly records aggregated */
   hours: number;
   /** Average uptime across the day (if provided in source data) */
@@ -108,6 +376,67 @@ export interface DailyEntry {
   date: string;
   /** Aggregated totals */
   totals: DailyTotals;
+  /** Comparison with the device's typical traffic (only when a baseline is stored) */
+  deviation?: BaselineDeviation;
+}
+
+/**
+ * Modes compared against the typical traffic baseline
+ */
+export type BaselineMode = 'heavy' | 'car' | 'bike' | 'pedestrian';
+
+/**
+ * A value per baseline mode
+ */
+export type BaselineCounts = Partial<Record<BaselineMode, number>>;
+
+/**
+ * Day key of a baseline profile: a weekday, or all weekdays / weekend days
+ */
+export type BaselineDay = NonNullable<TypicalTrafficEntry['day_of_week']>;
+
+/**
+ * Typical traffic for one weekday and local hour
+ */
+export interface BaselineHour {
+  /** Average counts */
+  avg: BaselineCounts;
+  /** Standard deviation of the counts */
+  std: BaselineCounts;
+  /** Number of observed days the averages are based on */
+  samplesize?: number;
+}
+
+/**
+ * Typical traffic baseline file structure (one file per device)
+ */
+export interface TrafficBaseline {
+  /** Device identifier */
+  device_id: string;
+  /** Period the averages are calculated over */
+  duration: BaselineDuration;
+  /** ISO timestamp of the start of that period */
+  periodStart: string;
+  /** ISO timestamp of the end of that period (the calculation epoch) */
+  periodEnd: string;
+  /** ISO timestamp of last update */
+  lastUpdated: string;
+  /** Typical traffic by day key and local hour (0-23) */
+  profiles: Partial<Record<BaselineDay, Record<string, BaselineHour>>>;
+}
+
+/**
+ * Deviation of a day's counts from the typical traffic baseline
+ */
+export interface BaselineDeviation {
+  /** End of the baseline period used (identifies the baseline calculation) */
+  baselinePeriodEnd: string;
+  /** Number of hourly records that had a typical value to compare with */
+  hours: number;
+  /** Typical counts summed over those hours */
+  expected: BaselineCounts;
+  /** (actual - expected) / expected per mode over the same hours, null if nothing is expected */
+  relative: Partial<Record<BaselineMode, number | null>>;
 }
 
 /**
@@ -118,12 +447,396 @@ export interface DailyData {
   device_id: string;
   /** Month in YYYY-MM the file represents */
   month: string;
+  /** IANA time zone the days are cut in; files without one hold UTC days (run `rebuild`) */
+  timezone?: string;
   /** ISO timestamp of last update */
   lastUpdated: string;
-  /** Per-day aggregates */
+  /** Per-day aggregates (local calendar days) */
   days: DailyEntry[];
 }
 
+/**
+ * Aggregate tiers above the daily totals, each over local calendar days
+ * - weekly: ISO weeks (Monday to Sunday), e.g. "2025-W13"
+ * - monthly: calendar months, e.g. "2025-03"
+ * - yearly: calendar years, e.g. "2025"
+ */
+export type AggregateTier = 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Traffic counts of a period divided by its days with data
+ */
+export type DailyAverages = Omit<DailyTotals, 'hours' | 'uptime_avg' | keyof DailySpeed>;
+
+/**
+ * How much of a period has data
+ */
+export interface PeriodCoverage {
+  /** Days with a daily entry */
+  days: number;
+  /** Calendar days in the period */
+  calendarDays: number;
+  /** days / calendarDays */
+  dayShare: number;
+  /** Hourly records / hours in the period (DST days have 23 or 25 hours) */
+  hourShare: number;
+}
+
+/**
+ * Aggregate of the daily entries of one week, month or year
+ */
+export interface PeriodEntry {
+  /** Period key: "2025-W13", "2025-03" or "2025" */
+  period: string;
+  /** First calendar day of the period (YYYY-MM-DD) */
+  start: string;
+  /** Last calendar day of the period (YYYY-MM-DD) */
+  end: string;
+  /** Daily totals summed over the period; uptime_avg is weighted by hours, speed histograms by cars */
+  totals: DailyTotals;
+  /** Counts per day with data */
+  avgPerDay: DailyAverages;
+  coverage: PeriodCoverage;
+}
+
+/**
+ * Weekly, monthly or yearly aggregate file structure (one file per tier and year)
+ */
+export interface AggregateData {
+  /** Device identifier */
+  device_id: string;
+  tier: AggregateTier;
+  /** Year of the periods (the ISO week-numbering year for weekly files) */
+  year: string;
+  /** IANA time zone of the underlying daily files */
+  timezone: string;
+  /** ISO timestamp of last update */
+  lastUpdated: string;
+  /** Periods with at least one day of data */
+  periods: PeriodEntry[];
+}
+
+/**
+ * Live state of a device in the latest snapshot
+ * - live: counts from the last two hours
+ * - offline: live in the past week but no recent counts
+ * - missing: not in the snapshot (never live, or offline for more than a week)
+ */
+export type LiveStatus = 'live' | 'offline' | 'missing';
+
+/**
+ * Most recent counts of one device in latest.json
+ */
+export interface LatestDeviceCounts {
+  /** Device identifier */
+  id: string;
+  /** Human-readable device name */
+  name: string;
+  /** State in the most recent poll */
+  status: LiveStatus;
+  /** ISO timestamp of the counted interval (kept from an earlier poll while not live) */
+  date?: string;
+  /** Counting period reported by the snapshot */
+  period?: string;
+  uptime?: number;
+  heavy?: number;
+  car?: number;
+  bike?: number;
+  pedestrian?: number;
+  night?: number;
+  v85?: number;
+  /** ISO timestamp of the most recent data package */
+  lastDataPackage?: string;
+}
+
+/**
+ * Live snapshot file structure (latest.json)
+ */
+export interface LatestSnapshot {
+  /** ISO timestamp of the poll that wrote the file */
+  lastUpdated: string;
+  /** Most recent counts per configured device */
+  devices: LatestDeviceCounts[];
+}
+
+/**
+ * Per-device collection progress persisted between runs
+ */
+export interface DeviceCollectionState {
+  /** ISO timestamp of the start of the last hour fully covered by collected data */
+  lastCompleteHour: string;
+  /** ISO timestamp of the last run that advanced this device's high-water mark */
+  lastRunAt: string;
+}
+
+/**
+ * Progress of an in-flight backfill for a single device
+ */
+export interface BackfillCheckpoint {
+  /** ISO timestamp the backfill started from */
+  start: string;
+  /** ISO timestamp up to which all windows have been fetched and saved */
+  completedUntil: string;
+  /** ISO timestamp of the last checkpoint update */
+  updatedAt: string;
+}
+
+/**
+ * Collection state file structure (collection-state.json)
+ */
+export interface CollectionState {
+  /** ISO timestamp of last update */
+  lastUpdated: string;
+  /** Progress keyed by device identifier */
+  devices: Record<string, DeviceCollectionState>;
+  /** Unfinished backfills keyed by device identifier */
+  backfill?: Record<string, BackfillCheckpoint>;
+}
+
+/**
+ * Geographic area to discover devices in
+ */
+export type DiscoveryArea =
+  | {
+      type: 'bbox';
+      /** Diagonal corners as [lon1, lat1, lon2, lat2] in degrees */
+      bbox: [number, number, number, number];
+    }
+  | {
+      type: 'radius';
+      lon: number;
+      lat: number;
+      /** Radius around the centre in kilometres */
+      radiusKm: number;
+    }
+  | {
+      type: 'polygon';
+      /** GeoJSON Polygon coordinates ([lon, lat] rings) */
+      coordinates: number[][][];
+    };
+
+/**
+ * A segment found during device discovery
+ */
+export interface DiscoveredSegment {
+  /** Telraam segment identifier */
+  id: string;
+  /** Centroid of the segment geometry */
+  centroid: Coordinates;
+  /** Whether any camera instance on the segment is currently active */
+  active: boolean;
+  /** Whether the segment is already in the configured device list */
+  configured: boolean;
+  /** ISO timestamp of the most recent data package across instances */
+  lastDataPackage?: string;
+}
+
+/**
+ * Result of a discovery run
+ */
+export interface DiscoveryReport {
+  /** All segments returned for the area */
+  segments: DiscoveredSegment[];
+  /** Active segments that are not configured yet, as device entries */
+  newDevices: DeviceConfig[];
+  /** Configured devices whose segment is in the area but has no active instance */
+  inactiveConfigured: string[];
+}
+
+/**
+ * Changes written (or, in a dry run, that would be written) to one device/month
+ */
+export interface MonthChanges {
+  /** Device identifier */
+  deviceId: string;
+  /** Month in YYYY-MM */
+  month: string;
+  /** Hourly points not stored yet */
+  added: number;
+  /** Stored hourly points that would be overwritten with different values */
+  replaced: number;
+  /** Stored hourly points that would be rewritten with identical values */
+  unchanged: number;
+  /** Dates (YYYY-MM-DD) whose daily totals would be new or different */
+  shiftedDays: string[];
+}
+
+/**
+ * API traffic counters
+ */
+export interface ApiUsage {
+  /** HTTP requests sent, including retries */
+  requests: number;
+  /** Requests that were retries of a failed attempt */
+  retries: number;
+  /** Calls that still failed after all retries */
+  failures: number;
+}
+
+/**
+ * Outcome of one device within a run
+ */
+export interface DeviceRunReport extends ApiUsage {
+  /** Device identifier */
+  deviceId: string;
+  /** Whether the device was processed successfully */
+  success: boolean;
+  /** Hourly points received from the API */
+  pointsFetched: number;
+  /** Hourly points that were not stored before */
+  pointsAdded: number;
+  /** Stored hourly points overwritten with different values */
+  pointsReplaced: number;
+  /** High-water mark after the run */
+  lastCompleteHour?: string;
+  /** Error message if the device failed */
+  error?: string;
+}
+
+/**
+ * Record live API responses to fixtures or replay them offline
+ */
+export type HttpMode = 'record' | 'replay';
+
+/**
+ * Where stored data is kept: the JSON tree only, or the JSON tree mirrored into SQLite
+ */
+export type StorageBackend = 'json' | 'sqlite';
+
+/**
+ * How month files are stored
+ * - none: `<month>.json`
+ * - gzip: `<month>.json.gz` only
+ * - both: `<month>.json.gz` and `<month>.json` (for GitHub Pages consumers)
+ */
+export type JsonCompression = 'none' | 'gzip' | 'both';
+
+/**
+ * One recorded request/response pair
+ */
+export interface HttpFixture {
+  request: {
+    /** Upper-case HTTP method */
+    method: string;
+    /** Full request URL */
+    url: string;
+    /** Request body (parsed when JSON) */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    /** Only the headers the client reads (content-type, retry-after) */
+    headers: Record<string, string>;
+    /** Response body (parsed when JSON) */
+    body: unknown;
+  };
+  /** ISO timestamp of the recording */
+  recordedAt: string;
+}
+
+/**
+ * State of the API circuit breaker
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Retry and circuit breaker decisions made during a run
+ */
+export interface RetryDecisions {
+  /** Retries allowed for the whole run */
+  retryBudget: number;
+  /** Retries that waited for the server's Retry-After delay */
+  retryAfterWaits: number;
+  /** Retries skipped because the retry budget was used up */
+  budgetExhausted: number;
+  /** Retries skipped because Retry-After asked for a longer wait than allowed */
+  retryAfterTooLong: number;
+  /** Times the circuit breaker opened */
+  circuitOpened: number;
+  /** Requests not sent because the circuit was open */
+  circuitRejected: number;
+  /** Circuit breaker state at the end of the run */
+  circuitState: CircuitState;
+}
+
+/**
+ * Report persisted for every collect/backfill run
+ */
+export interface RunReport {
+  /** Command that was run */
+  command: string;
+  /** ISO timestamp of run start */
+  startTime: string;
+  /** ISO timestamp of run end */
+  endTime: string;
+  /** Whether every device succeeded */
+  success: boolean;
+  /** Per-device outcomes */
+  devices: DeviceRunReport[];
+  /** Totals across all devices (API usage includes calls not tied to a device) */
+  totals: ApiUsage & {
+    pointsFetched: number;
+    pointsAdded: number;
+    pointsReplaced: number;
+    errors: number;
+  };
+  /** Retry and circuit breaker decisions (missing in reports of older versions) */
+  retryDecisions?: RetryDecisions;
+}
+
+/**
+ * Long-lived per-device run status, kept beyond the report retention
+ */
+export interface DeviceRunStatus {
+  /** ISO timestamp of the last successful run */
+  lastSuccess?: string;
+  /** ISO timestamp of the last failed run */
+  lastFailure?: string;
+  /** Error message of the last failed run */
+  lastError?: string;
+  /** Failed runs since the last success */
+  consecutiveFailures: number;
+}
+
+/**
+ * Run history file structure
+ */
+export interface RunHistory {
+  /** ISO timestamp of last update */
+  lastUpdated: string;
+  /** Per-device status across all runs */
+  devices: Record<string, DeviceRunStatus>;
+  /** Most recent run reports, newest first */
+  runs: RunReport[];
+}
+
+/**
+ * A problem found while validating stored data files
+ */
+export interface DataIssue {
+  /** Device identifier */
+  deviceId: string;
+  /** Month (YYYY-MM) of the affected file */
+  month: string;
+  /** Which file tier the problem was found in */
+  file: 'hourly' | 'daily';
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of validating stored data files
+ */
+export interface DataValidationReport {
+  /** Number of devices checked */
+  devicesChecked: number;
+  /** Number of month files checked (hourly and daily) */
+  filesChecked: number;
+  /** Problems found */
+  issues: DataIssue[];
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -150,6 +863,8 @@ export interface CollectionResult {
   dataPointsCollected: number;
   /** ISO timestamp of the most recent data point collected */
   lastUpdated?: string;
+  /** ISO timestamp of the last fully covered hour after this run */
+  lastCompleteHour?: string;
   /** Error message if collection failed */
   error?: string;
 }
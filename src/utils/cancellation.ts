@@ -0,0 +1,83 @@
+/**
+ * Cancellation Utilities
+ *
+ * Run-wide cancellation on SIGINT/SIGTERM or when a deadline passes. API
+ * requests abort right away, while file writes already in progress finish,
+ * so an interrupted run leaves consistent files and a resumable state.
+ */
+
+import { createLogger } from './logger.js';
+import { LOG_NAMESPACES } from './constants.js';
+
+const logger = createLogger(LOG_NAMESPACES.MAIN);
+
+/**
+ * Error used as the abort reason of a cancelled run; never retried
+ */
+export class RunCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunCancelledError';
+  }
+}
+
+/**
+ * Handle on a run's cancellation
+ */
+export interface RunCancellation {
+  /** Aborted with a RunCancelledError on SIGINT/SIGTERM or at the deadline */
+  signal: AbortSignal;
+  /** Remove the signal handlers and deadline timer */
+  dispose(): void;
+}
+
+/**
+ * Cancel the run on SIGINT/SIGTERM and, optionally, after a deadline
+ *
+ * Handlers are registered once, so a second Ctrl+C falls back to Node's
+ * default and ends the process immediately.
+ *
+ * @param deadlineMs - Run deadline in milliseconds (0 or undefined for none)
+ */
+export function createRunCancellation(deadlineMs?: number): RunCancellation {
+  const controller = new AbortController();
+
+  const onSignal = (signal: NodeJS.Signals): void => {
+    logger.warn(`Received ${signal}, letting in-flight saves finish (repeat to force quit)`);
+    controller.abort(new RunCancelledError(`Run cancelled by ${signal}`));
+  };
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+
+  const timer = deadlineMs
+    ? setTimeout(() => {
+        const message = `Run deadline of ${Math.round(deadlineMs / 60_000)} min reached`;
+        logger.warn(`${message}, cancelling`);
+        controller.abort(new RunCancelledError(message));
+      }, deadlineMs)
+    : undefined;
+  // Never keep the process alive just for the deadline
+  timer?.unref();
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+      clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Throw the abort reason if the signal was aborted
+ * @throws {RunCancelledError} If the run was cancelled
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (!signal?.aborted) {
+    return;
+  }
+  throw signal.reason instanceof Error
+    ? signal.reason
+    : new RunCancelledError(String(signal.reason ?? 'Run cancelled'));
+}
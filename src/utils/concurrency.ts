@@ -0,0 +1,33 @@
+/**
+ * Concurrency Utilities
+ *
+ * Helpers for running async work with a bounded number of tasks in flight.
+ */
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * Results are returned in input order.
+ *
+ * @example
+ * await mapWithConcurrency(devices, 2, (device) => collect(device));
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
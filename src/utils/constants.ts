@@ -12,25 +12,94 @@ export const API = {
   /** Default Telraam API URL */
   BASE_URL: 'https://telraam-api.net',
 
-  /** API request timeout in milliseconds */
+  /** Timeout of a single request attempt in milliseconds (retries get a fresh timeout) */
   TIMEOUT: 30_000,
 
   /** Retry configuration for API requests */
   RETRY: {
     MAX_ATTEMPTS: 3,
     BASE_DELAY_MS: 1_000,
+    /** Cap for a single backoff delay */
+    MAX_DELAY_MS: 30_000,
+    /** Longest Retry-After the client waits for; longer requests fail the call */
+    MAX_RETRY_AFTER_MS: 120_000,
+    /** Default retries allowed per run across all devices */
+    DEFAULT_RUN_BUDGET: 50,
+    /** Maximum retry budget per run */
+    MAX_RUN_BUDGET: 1_000,
+  },
+
+  /** Circuit breaker shared by all devices of a run */
+  CIRCUIT_BREAKER: {
+    /** Consecutive failed requests (timeouts, network errors, 5xx, 429) that open the circuit */
+    FAILURE_THRESHOLD: 5,
+    /** Pause before one trial request is sent */
+    COOLDOWN_MS: 60_000,
+  },
+
+  /** Recorded HTTP fixtures (TELRAAM_HTTP_MODE) */
+  FIXTURES: {
+    /** Replaces the API key wherever it would appear in a fixture */
+    API_KEY_PLACEHOLDER: '<TELRAAM_API_KEY>',
+    /** Response headers kept in fixtures */
+    RECORDED_HEADERS: ['content-type', 'retry-after'],
+    /** Hex characters of the request hash in fixture filenames */
+    HASH_LENGTH: 16,
+    /** Maximum length of the URL path part of fixture filenames */
+    MAX_SLUG_LENGTH: 60,
+    /** Body fields left out of the fixture key, by request path; derived from the clock */
+    UNKEYED_BODY_FIELDS: {
+      '/advanced/reports/typical_traffic': ['time_start', 'time_end'],
+    } as Readonly<Record<string, readonly string[]>>,
+  },
+
+  /** Client-side rate limits shared by all requests (0 disables a budget) */
+  RATE_LIMIT: {
+    DEFAULT_PER_SECOND: 1,
+    DEFAULT_PER_MINUTE: 30,
+    MAX_REQUESTS: 1_000,
   },
 
   /** Endpoints */
   ENDPOINTS: {
     TRAFFIC: '/v1/reports/traffic',
+    LIVE_SNAPSHOT: '/v1/reports/traffic_snapshot_live',
     INSTANCES: '/v1/instances',
+    INSTANCES_BY_SEGMENT: '/v1/instances/segment/{segment_id}',
+    SEGMENTS_AREA: '/v1/segments/area',
+    SEGMENT_BY_ID: '/v1/segments/id/{segment_id}',
+    ADVANCED_TRAFFIC: '/advanced/reports/traffic',
+    TYPICAL_TRAFFIC: '/advanced/reports/typical_traffic',
   },
 
   /** Request parameters */
   PARAMS: {
     LEVEL: 'segments' as const,
     FORMAT: 'per-hour' as const,
+    QUARTER_HOUR_FORMAT: 'per-quarter' as const,
+    /** Periods a typical traffic baseline can be averaged over */
+    TYPICAL_DURATIONS: ['year', 'season', 'month'] as const,
+    /** Typical traffic columns kept in baseline files (the key columns are required by the API) */
+    TYPICAL_COLUMNS: [
+      'segment_id',
+      'instance_id',
+      'duration',
+      'interval',
+      'day_of_week',
+      'time',
+      'time_start',
+      'time_end',
+      'flag',
+      'samplesize',
+      'avg_heavy',
+      'std_heavy',
+      'avg_car',
+      'std_car',
+      'avg_bike',
+      'std_bike',
+      'avg_pedestrian',
+      'std_pedestrian',
+    ].join(','),
   },
 } as const;
 
@@ -44,6 +113,24 @@ export const FILESYSTEM = {
   /** Device metadata filename */
   DEVICES_FILE: 'devices.json',
 
+  /** Per-device collection state (high-water marks) filename */
+  STATE_FILE: 'collection-state.json',
+
+  /** Run reports and per-device run status filename */
+  RUN_HISTORY_FILE: 'run-history.json',
+
+  /** Most recent live counts per device filename */
+  LATEST_FILE: 'latest.json',
+
+  /** Per-device typical traffic baseline filename */
+  BASELINE_FILE: 'baseline.json',
+
+  /** Default directory for recorded HTTP fixtures */
+  HTTP_FIXTURES_DIR: './fixtures/http',
+
+  /** Default SQLite database path, kept outside the published data directory */
+  SQLITE_PATH: './data/telraam.sqlite',
+
   /** Device directory prefix */
   DEVICE_DIR_PREFIX: 'device_',
 
@@ -53,6 +140,36 @@ export const FILESYSTEM = {
   /** Subdirectory for daily aggregates */
   DAILY_DIR: 'daily',
 
+  /** Aggregate tiers, each stored in a subdirectory of the same name with one file per year */
+  AGGREGATE_TIERS: ['weekly', 'monthly', 'yearly'] as const,
+
+  /** Subdirectory for quarter-hour data files (opt-in advanced API tier) */
+  QUARTERLY_DIR: 'quarterly',
+
+  /** Lock file held by the process writing to a data directory */
+  LOCK_FILE: '.collector.lock',
+
+  /** Directory of commit journals of in-flight multi-file writes, inside the data directory */
+  JOURNAL_DIR: '.journal',
+
+  /** Suffix of commit journal files */
+  JOURNAL_SUFFIX: '.journal',
+
+  /** Suffix of temporary files renamed into place by atomic writes */
+  TEMP_SUFFIX: '.tmp',
+
+  /**
+   * Age after which a temporary file is treated as left by an interrupted write
+   * Younger ones may belong to a write in progress, e.g. of the lock-free `live` command.
+   */
+  STALE_TEMP_MS: 60 * 60 * 1000,
+
+  /** Suffix appended to gzip-compressed JSON files (`2025-01.json.gz`) */
+  GZIP_SUFFIX: '.gz',
+
+  /** Storage modes of month files selectable with TELRAAM_COMPRESSION */
+  COMPRESSION_MODES: ['none', 'gzip', 'both'] as const,
+
   /** File encoding */
   ENCODING: 'utf-8' as const,
 
@@ -60,6 +177,17 @@ export const FILESYSTEM = {
   JSON_INDENT: 2,
 } as const;
 
+/**
+ * Device Registry Configuration
+ */
+export const DEVICE_REGISTRY = {
+  /** Default registry file, relative to the working directory */
+  DEFAULT_PATH: './config/devices.json',
+
+  /** Supported registry schema version */
+  VERSION: 1,
+} as const;
+
 /**
  * Data Collection Configuration
  */
@@ -73,14 +201,112 @@ export const COLLECTION = {
   /** Maximum days to fetch (API limit: 3 months) */
   MAX_DAYS_TO_FETCH: 90,
 
-  /** Default delay between device requests in milliseconds */
-  DEFAULT_REQUEST_DELAY_MS: 2000,
+  /** Days per advanced API request for quarter-hour data (stays below the 6MB payload limit) */
+  QUARTER_HOUR_WINDOW_DAYS: 14,
+
+  /** Days a stored baseline is reused before typical traffic is fetched again */
+  BASELINE_REFRESH_DAYS: 14,
+
+  /** Days searched back for the latest typical traffic calculation (computed about every two weeks) */
+  BASELINE_LOOKBACK_DAYS: 90,
+
+  /** Default number of devices (and backfill windows) fetched concurrently */
+  DEFAULT_CONCURRENCY: 2,
+
+  /** Minimum concurrency */
+  MIN_CONCURRENCY: 1,
+
+  /** Maximum concurrency */
+  MAX_CONCURRENCY: 10,
+
+  /** Default number of hours re-fetched before the high-water mark to pick up late revisions */
+  DEFAULT_OVERLAP_HOURS: 6,
+
+  /** Minimum overlap in hours */
+  MIN_OVERLAP_HOURS: 0,
+
+  /** Maximum overlap in hours */
+  MAX_OVERLAP_HOURS: 72,
+
+  /** Default number of run reports kept in the run history */
+  DEFAULT_RUN_HISTORY_LIMIT: 100,
+
+  /** Minimum run history retention */
+  MIN_RUN_HISTORY_LIMIT: 1,
+
+  /** Maximum run history retention */
+  MAX_RUN_HISTORY_LIMIT: 1_000,
+
+  /** Default minutes after which a run cancels outstanding requests (0 disables the deadline) */
+  DEFAULT_RUN_DEADLINE_MINUTES: 60,
 
-  /** Minimum request delay in milliseconds */
-  MIN_REQUEST_DELAY_MS: 0,
+  /** Maximum run deadline in minutes */
+  MAX_RUN_DEADLINE_MINUTES: 1_440,
 
-  /** Maximum request delay in milliseconds */
-  MAX_REQUEST_DELAY_MS: 30_000,
+  /** Default seconds between live snapshot polls */
+  DEFAULT_LIVE_INTERVAL_SECONDS: 300,
+
+  /** Minimum live poll interval (the snapshot covers all segments, so keep it coarse) */
+  MIN_LIVE_INTERVAL_SECONDS: 60,
+
+  /** Maximum live poll interval */
+  MAX_LIVE_INTERVAL_SECONDS: 3_600,
+} as const;
+
+/**
+ * Traffic Sources
+ */
+export const SOURCES = {
+  /** Supported source types */
+  TYPES: ['telraam', 'inductive-loop', 'manual'] as const,
+
+  /** Minutes covered by an inductive loop record without an end time */
+  DEFAULT_LOOP_INTERVAL_MINUTES: 15,
+
+  /** Minutes covered by a manual count record without an end time */
+  DEFAULT_MANUAL_INTERVAL_MINUTES: 60,
+
+  /** Maximum minutes a single count record may cover */
+  MAX_INTERVAL_MINUTES: 1_440,
+
+  /** Count file extensions read from a source directory */
+  FILE_EXTENSIONS: ['.csv', '.json'] as const,
+} as const;
+
+/**
+ * CSV Import of telraam.net Exports
+ */
+export const IMPORT = {
+  /** Milliseconds per hour; imported rows must start on a full UTC hour */
+  MS_PER_HOUR: 3_600_000,
+
+  /** Largest count difference to a stored hour still attributed to rounding in the export */
+  COUNT_TOLERANCE: 0.5,
+
+  /** Skipped rows and conflicts listed individually in the log */
+  MAX_LOGGED_ROWS: 20,
+} as const;
+
+/**
+ * SQLite Storage Backend
+ */
+export const SQLITE = {
+  /** Storage backends selectable with TELRAAM_STORAGE_BACKEND */
+  BACKENDS: ['json', 'sqlite'] as const,
+
+  /** Schema version stored in the database's user_version */
+  SCHEMA_VERSION: 1,
+} as const;
+
+/**
+ * Speed Figures of Daily Totals
+ */
+export const SPEED = {
+  /** Speeds (km/h) whose share of faster cars is reported, overridable with TELRAAM_SPEED_THRESHOLDS */
+  DEFAULT_THRESHOLDS: [30, 50] as readonly number[],
+
+  /** Percentile of car speeds reported as v85 */
+  V85_PERCENTILE: 85,
 } as const;
 
 /**
@@ -105,7 +331,8 @@ export const ERRORS = {
   CONFIG: {
     MISSING_API_KEY:
       'TELRAAM_API_KEY environment variable is not set. Please set it in your .env file or environment.',
-    NO_DEVICES: 'No devices configured. Please add devices to src/config.ts',
+    NO_DEVICES:
+      'No devices configured. Please add devices to the device registry (config/devices.json)',
     INVALID_DAYS: 'daysToFetch must be greater than 0',
   },
 
@@ -142,9 +369,52 @@ export const LOG_NAMESPACES = {
   CLIENT: 'TelraamClient',
   STORAGE: 'Storage',
   COLLECTOR: 'Collector',
+  BACKFILL: 'Backfill',
+  DISCOVERY: 'Discovery',
+  VALIDATOR: 'Validator',
+  EXPORTER: 'Exporter',
+  IMPORTER: 'Importer',
+  SYNC: 'Sync',
+  LIVE: 'Live',
+  REGISTRY: 'Registry',
+  SOURCES: 'Sources',
+  MOCK: 'MockApi',
   MAIN: 'Main',
 } as const;
 
+/**
+ * Mock Telraam API Configuration (local development server)
+ */
+export const MOCK_API = {
+  /** Default listening port */
+  DEFAULT_PORT: 8787,
+
+  /** Default seed of the synthetic data and failure injection */
+  DEFAULT_SEED: 1,
+
+  /** Segments listed by the segments APIs (any numeric ID is served) */
+  DEFAULT_SEGMENT_COUNT: 10,
+  FIRST_SEGMENT_ID: 9_000_000_001,
+
+  /** Centre of the synthetic segments (Leuven) and their time zone */
+  CENTER: { lon: 4.7005, lat: 50.8798 },
+  TIMEZONE: 'Europe/Brussels',
+
+  /** Synthetic segments start reporting within this many days after DATA_START */
+  DATA_START: '2023-01-01T00:00:00.000Z',
+  DATA_START_SPREAD_DAYS: 600,
+
+  /** Longest traffic report range, like the real API ("maximum 3 months") */
+  MAX_RANGE_DAYS: 92,
+
+  /** Failure injection defaults */
+  DEFAULT_SLOW_MS: 5_000,
+  DEFAULT_RETRY_AFTER_SECONDS: 1,
+
+  /** Path the all-instances download_url points at */
+  DOWNLOAD_PATH: '/downloads/instances.json',
+} as const;
+
 /**
  * Environment Variables
  */
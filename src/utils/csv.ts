@@ -0,0 +1,104 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal RFC 4180 parsing for count files and exports: quoted fields,
+ * escaped quotes, embedded separators and line breaks.
+ */
+
+/**
+ * Parse CSV text into records keyed by the header row
+ *
+ * Header names are trimmed; rows without any non-empty field are skipped.
+ * Missing trailing fields are returned as empty strings.
+ *
+ * @param separator - Field separator (default: comma; pass ';' for semicolon exports)
+ *
+ * @example
+ * parseCsv('start,car\n2024-06-01T07:00:00Z,12\n')
+ * // => [{ start: '2024-06-01T07:00:00Z', car: '12' }]
+ */
+export function parseCsv(text: string, separator = ','): Record<string, string>[] {
+  const rows = parseCsvRows(text.replace(/^﻿/, ''), separator);
+  const [header, ...body] = rows;
+  if (!header) {
+    return [];
+  }
+
+  const names = header.map((name) => name.trim());
+  return body
+    .filter((row) => row.some((field) => field.trim() !== ''))
+    .map((row) => Object.fromEntries(names.map((name, index) => [name, row[index] ?? ''])));
+}
+
+/**
+ * Split CSV text into rows of raw fields
+ */
+function parseCsvRows(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Format one CSV row, quoting fields that contain the separator, quotes or line breaks
+ *
+ * `null` and `undefined` become empty fields.
+ *
+ * @example
+ * formatCsvRow(['a,b', 1, null]) // => '"a,b",1,'
+ */
+export function formatCsvRow(
+  values: readonly (string | number | null | undefined)[],
+  separator = ',',
+): string {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      const field = String(value);
+      return field.includes(separator) || /["\r\n]/.test(field)
+        ? `"${field.replace(/"/g, '""')}"`
+        : field;
+    })
+    .join(separator);
+}
@@ -51,6 +51,303 @@ export function calculateDateRange(daysToFetch: number): DateRange {
   return { start, end };
 }
 
+/**
+ * Options for calculating an incremental date range
+ */
+export interface IncrementalRangeOptions {
+  /** Hours to re-fetch before the high-water mark */
+  overlapHours: number;
+  /** Days to fetch when no high-water mark is known */
+  fallbackDays: number;
+  /** Maximum length of the range in days (API limit) */
+  maxDays: number;
+}
+
+/**
+ * Calculate the date range for an incremental collection run
+ *
+ * Starts one hour after the high-water mark minus the overlap and ends now,
+ * capped at `maxDays` so long outages are caught up over consecutive runs.
+ * Falls back to `calculateDateRange(fallbackDays)` without a valid mark.
+ *
+ * @example
+ * calculateIncrementalRange('2024-12-05T22:00:00.000Z', { overlapHours: 6, ... })
+ * // => { start: 2024-12-05T17:00:00Z, end: now }
+ */
+export function calculateIncrementalRange(
+  lastCompleteHour: string | undefined,
+  options: IncrementalRangeOptions,
+  reference: Date = new Date(),
+): DateRange {
+  const mark = lastCompleteHour ? new Date(lastCompleteHour) : undefined;
+  if (!mark || Number.isNaN(mark.getTime())) {
+    return calculateDateRange(options.fallbackDays);
+  }
+
+  const start = addHours(mark, 1 - options.overlapHours);
+  const maxEnd = addHours(start, options.maxDays * 24);
+  const end = maxEnd < reference ? maxEnd : new Date(reference);
+
+  return { start, end };
+}
+
+/**
+ * Determine the last fully covered hour after fetching a date range
+ *
+ * The mark advances to the latest returned data point, but never past the
+ * last hour that had ended when the range was fetched. If the range was
+ * capped before `requestedAt`, the mark moves to the end of the range even
+ * when only already-stored (or no) data came back, so a device that was
+ * offline for longer than one API window still catches up.
+ *
+ * @example
+ * resolveHighWaterMark('2024-12-05T22:00:00.000Z', '2024-12-06T09:00:00.000Z', range, now)
+ * // => "2024-12-06T09:00:00.000Z"
+ */
+export function resolveHighWaterMark(
+  previousMark: string | undefined,
+  lastDataTimestamp: string | undefined,
+  dateRange: DateRange,
+  requestedAt: Date,
+): string | undefined {
+  const lastEndedHour = addHours(floorToHour(dateRange.end), -1);
+  let candidate: Date | undefined;
+
+  if (dateRange.end < requestedAt) {
+    candidate = lastEndedHour;
+  } else if (lastDataTimestamp) {
+    const latest = floorToHour(new Date(lastDataTimestamp));
+    candidate = latest < lastEndedHour ? latest : lastEndedHour;
+  }
+
+  if (!candidate || (previousMark && new Date(previousMark) >= candidate)) {
+    return previousMark;
+  }
+
+  return candidate.toISOString();
+}
+
+/**
+ * Split a date range into consecutive windows of at most `maxDays` days
+ *
+ * @example
+ * splitDateRange({ start: 2024-01-01, end: 2024-05-01 }, 90)
+ * // => [{ start: 2024-01-01, end: 2024-03-31 }, { start: 2024-03-31, end: 2024-05-01 }]
+ */
+export function splitDateRange(range: DateRange, maxDays: number): DateRange[] {
+  const windows: DateRange[] = [];
+  const windowMs = maxDays * 24 * 60 * 60 * 1000;
+  let cursor = range.start.getTime();
+  const endMs = range.end.getTime();
+
+  while (cursor < endMs) {
+    const windowEnd = Math.min(cursor + windowMs, endMs);
+    windows.push({ start: new Date(cursor), end: new Date(windowEnd) });
+    cursor = windowEnd;
+  }
+
+  return windows;
+}
+
+/**
+ * Truncate a date to the start of its UTC hour
+ *
+ * @example
+ * floorToHour(new Date('2024-12-06T10:30:00Z'))
+ * // => 2024-12-06T10:00:00.000Z
+ */
+export function floorToHour(date: Date): Date {
+  const floored = new Date(date);
+  floored.setUTCMinutes(0, 0, 0);
+  return floored;
+}
+
+/**
+ * Add (or subtract) a number of hours to a date
+ */
+export function addHours(date: Date, hours: number): Date {
+  return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Weekday (mon-sun) and hour of a date in a time zone
+ *
+ * @example
+ * getLocalWeekdayHour(new Date('2024-12-06T23:30:00Z'), 'Europe/Berlin')
+ * // => { weekday: 'sat', hour: 0 }
+ */
+export function getLocalWeekdayHour(
+  date: Date,
+  timeZone: string,
+): { weekday: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const weekday = parts.find((part) => part.type === 'weekday')?.value ?? '';
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+  return { weekday: weekday.toLowerCase(), hour };
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of a date in a time zone
+ *
+ * @example
+ * getLocalDate(new Date('2024-12-06T23:30:00Z'), 'Europe/Berlin')
+ * // => "2024-12-07"
+ */
+export function getLocalDate(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const value = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+
+  return `${value('year')}-${value('month')}-${value('day')}`;
+}
+
+/**
+ * Start and (exclusive) end of a calendar day in a time zone
+ * Days with a DST change are 23 or 25 hours long.
+ *
+ * @example
+ * getLocalDayRange('2025-03-30', 'Europe/Berlin')
+ * // => { start: 2025-03-29T23:00:00.000Z, end: 2025-03-30T22:00:00.000Z }
+ */
+export function getLocalDayRange(day: string, timeZone: string): DateRange {
+  return {
+    start: parseLocalDateTime(day, timeZone)!,
+    end: parseLocalDateTime(addDays(day, 1), timeZone)!,
+  };
+}
+
+/**
+ * Move a calendar day (YYYY-MM-DD) forward or back by a number of days
+ *
+ * @example
+ * addDays('2024-12-31', 1)
+ * // => "2025-01-01"
+ */
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * ISO 8601 week (YYYY-Www) of a calendar day; weeks start on Monday and
+ * belong to the year of their Thursday
+ *
+ * @example
+ * getIsoWeek('2024-12-30')
+ * // => "2025-W01"
+ */
+export function getIsoWeek(day: string): string {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  const thursday = new Date(date);
+  thursday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7) + 3);
+
+  const year = thursday.getUTCFullYear();
+  const week =
+    Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Monday (YYYY-MM-DD) of an ISO 8601 week
+ *
+ * @example
+ * getIsoWeekStart('2025-W01')
+ * // => "2024-12-30"
+ */
+export function getIsoWeekStart(week: string): string {
+  const [year, number] = week.split('-W').map(Number);
+  // January 4th is always in week 1
+  const january4 = new Date(Date.UTC(year, 0, 4));
+  return addDays(
+    january4.toISOString().substring(0, 10),
+    (number - 1) * 7 - ((january4.getUTCDay() + 6) % 7),
+  );
+}
+
+/**
+ * Move a month (YYYY-MM) forward or back by a number of months
+ *
+ * @example
+ * shiftMonth('2025-01', -1)
+ * // => "2024-12"
+ */
+export function shiftMonth(month: string, months: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + months, 1)).toISOString().substring(0, 7);
+}
+
+/**
+ * Parse a timestamp, reading times without a UTC offset as wall-clock time in a time zone
+ *
+ * Accepts ISO timestamps and "YYYY-MM-DD HH:MM[:SS]". Wall-clock times
+ * skipped by a DST change move forward by the gap; repeated times resolve to
+ * their second occurrence.
+ *
+ * @example
+ * parseLocalDateTime('2024-06-01 08:00', 'Europe/Brussels')
+ * // => 2024-06-01T06:00:00.000Z
+ */
+export function parseLocalDateTime(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+    return parseDateInput(trimmed);
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(trimmed);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (Number.isNaN(wallClock)) {
+    return null;
+  }
+
+  // Correct by the zone's offset, then again in case the first guess crossed a DST change
+  let utc = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  utc = wallClock - getTimeZoneOffsetMs(new Date(utc), timeZone);
+  return new Date(utc);
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second'),
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
 /**
  * Format duration in milliseconds to human-readable string
  *
@@ -76,6 +373,18 @@ export function now(): string {
   return new Date().toISOString();
 }
 
+/**
+ * Parse a YYYY-MM-DD date or full ISO timestamp, returning null if invalid
+ *
+ * @example
+ * parseDateInput('2024-01-15')
+ * // => 2024-01-15T00:00:00.000Z
+ */
+export function parseDateInput(input: string): Date | null {
+  const date = new Date(input);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
 /**
  * Check if a date string is a valid ISO format
  */
@@ -5,7 +5,14 @@
  */
 
 // Logger
-export { createLogger, type Logger, type LogLevel } from './logger.js';
+export {
+  createLogger,
+  isLogLevel,
+  routeLogsToStderr,
+  setLogLevel,
+  type Logger,
+  type LogLevel,
+} from './logger.js';
 
 // Constants
 export * from './constants.js';
@@ -15,3 +22,12 @@ export * from './datetime.js';
 
 // Validation utilities
 export * from './validation.js';
+
+// Concurrency utilities
+export * from './concurrency.js';
+
+// Cancellation utilities
+export * from './cancellation.js';
+
+// CSV utilities
+export * from './csv.js';
@@ -17,6 +17,13 @@ const ALLOWED_LEVELS: readonly LogLevel[] = ['error', 'warn', 'info', 'debug'];
 const ALLOWED_FORMATS: readonly LogFormat[] = ['json', 'pretty'];
 const METADATA_EXCLUDE = ['message', 'level', 'timestamp', 'label', 'stack'];
 
+const transportFormat = buildTransportFormat(resolveLogFormat(process.env[ENV.LOG_FORMAT]));
+const consoleTransport = new transports.Console({
+  handleExceptions: true,
+  handleRejections: true,
+  format: transportFormat,
+});
+
 const baseLogger = winstonCreateLogger({
   level: resolveLogLevel(process.env[ENV.LOG_LEVEL]),
   format: winstonFormat.combine(
@@ -24,25 +31,41 @@ const baseLogger = winstonCreateLogger({
     winstonFormat.splat(),
     winstonFormat.metadata({ fillExcept: METADATA_EXCLUDE }),
   ),
-  transports: [
-    new transports.Console({
-      handleExceptions: true,
-      handleRejections: true,
-      format: buildTransportFormat(resolveLogFormat(process.env[ENV.LOG_FORMAT])),
-    }),
-  ],
+  transports: [consoleTransport],
 });
 
 export function createLogger(namespace: string): Logger {
   return baseLogger.child({ label: namespace });
 }
 
+/**
+ * Change the log level for all loggers at runtime (e.g. from a CLI flag)
+ */
+export function setLogLevel(level: LogLevel): void {
+  baseLogger.level = level;
+}
+
+/**
+ * Send all log output to stderr so stdout can carry command output (e.g. exports)
+ */
+export function routeLogsToStderr(): void {
+  baseLogger.remove(consoleTransport);
+  baseLogger.add(
+    new transports.Console({
+      handleExceptions: true,
+      handleRejections: true,
+      format: transportFormat,
+      stderrLevels: [...ALLOWED_LEVELS],
+    }),
+  );
+}
+
 function resolveLogLevel(input: string | undefined): LogLevel {
   const normalized = input?.toLowerCase();
   return isLogLevel(normalized) ? normalized : FALLBACK_LEVEL;
 }
 
-function isLogLevel(value: string | undefined): value is LogLevel {
+export function isLogLevel(value: string | undefined): value is LogLevel {
   return (ALLOWED_LEVELS as readonly string[]).includes(value ?? '');
 }
 
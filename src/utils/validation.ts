@@ -4,8 +4,25 @@
  * Runtime validation functions for configuration and data.
  */
 
-import type { DeviceConfig } from '../types.js';
-import { COLLECTION, ERRORS } from './constants.js';
+import type {
+  Coordinates,
+  CountFileSourceConfig,
+  DeviceConfig,
+  DeviceRegistryFile,
+  DirectionLabels,
+} from '../types.js';
+import { API, COLLECTION, DEVICE_REGISTRY, ERRORS, SOURCES } from './constants.js';
+
+/**
+ * Error thrown for invalid configuration or command-line usage
+ * Distinguished from collection failures by the CLI exit code.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
 
 /**
  * Validation result
@@ -33,6 +50,9 @@ export function validateApiKey(apiKey: string | undefined): ValidationResult {
 
 /**
  * Validate device configuration
+ *
+ * Checks required fields, optional per-device settings and duplicate ids.
+ * Errors name the offending entry by index and id.
  */
 export function validateDevices(devices: DeviceConfig[]): ValidationResult {
   const errors: string[] = [];
@@ -42,18 +62,39 @@ export function validateDevices(devices: DeviceConfig[]): ValidationResult {
     return { valid: false, errors };
   }
 
+  const seenIds = new Map<string, number>();
+
   devices.forEach((device, index) => {
-    if (!device.id || device.id.trim() === '') {
-      errors.push(`Device at index ${index}: id is required`);
+    if (typeof device !== 'object' || device === null) {
+      errors.push(`Device at index ${index}: entry must be an object`);
+      return;
     }
 
-    if (!device.name || device.name.trim() === '') {
-      errors.push(`Device at index ${index}: name is required`);
+    const label = isNonEmptyString(device.id)
+      ? `Device at index ${index} (${device.id})`
+      : `Device at index ${index}`;
+
+    if (!isNonEmptyString(device.id)) {
+      errors.push(`${label}: id is required`);
+    } else if (isTelraamSource(device) && !/^\d+$/.test(device.id)) {
+      errors.push(`${label}: id must be a numeric segment identifier string`);
+    } else if (!/^[\w-]+$/.test(device.id)) {
+      errors.push(`${label}: id may only contain letters, digits, "_" and "-"`);
+    } else if (seenIds.has(device.id)) {
+      errors.push(`${label}: duplicate id (already used at index ${seenIds.get(device.id)})`);
+    } else {
+      seenIds.set(device.id, index);
     }
 
-    if (!device.location || device.location.trim() === '') {
-      errors.push(`Device at index ${index}: location is required`);
+    if (!isNonEmptyString(device.name)) {
+      errors.push(`${label}: name is required`);
     }
+
+    if (!isNonEmptyString(device.location)) {
+      errors.push(`${label}: location is required`);
+    }
+
+    errors.push(...validateOptionalDeviceFields(device, label));
   });
 
   return {
@@ -62,6 +103,147 @@ export function validateDevices(devices: DeviceConfig[]): ValidationResult {
   };
 }
 
+/**
+ * Validate the optional per-device settings of a registry entry
+ */
+function validateOptionalDeviceFields(device: DeviceConfig, label: string): string[] {
+  const errors: string[] = [];
+
+  if (device.enabled !== undefined && typeof device.enabled !== 'boolean') {
+    errors.push(`${label}: enabled must be a boolean`);
+  }
+
+  if (device.daysToFetch !== undefined) {
+    const result = validateDaysToFetch(device.daysToFetch);
+    errors.push(...result.errors.map((error) => `${label}: ${error}`));
+  }
+
+  if (device.timezone !== undefined && !isValidTimeZone(device.timezone)) {
+    errors.push(`${label}: timezone must be an IANA time zone such as Europe/Berlin`);
+  }
+
+  if (device.coordinates !== undefined) {
+    const { lat, lon } = (device.coordinates ?? {}) as Partial<Coordinates>;
+    if (typeof lat !== 'number' || lat < -90 || lat > 90) {
+      errors.push(`${label}: coordinates.lat must be a number between -90 and 90`);
+    }
+    if (typeof lon !== 'number' || lon < -180 || lon > 180) {
+      errors.push(`${label}: coordinates.lon must be a number between -180 and 180`);
+    }
+  }
+
+  if (
+    device.speedLimit !== undefined &&
+    (typeof device.speedLimit !== 'number' || device.speedLimit <= 0)
+  ) {
+    errors.push(`${label}: speedLimit must be a positive number (km/h)`);
+  }
+
+  if (
+    device.tags !== undefined &&
+    (!Array.isArray(device.tags) || device.tags.some((tag) => !isNonEmptyString(tag)))
+  ) {
+    errors.push(`${label}: tags must be an array of non-empty strings`);
+  }
+
+  if (device.quarterHour !== undefined && typeof device.quarterHour !== 'boolean') {
+    errors.push(`${label}: quarterHour must be a boolean`);
+  }
+
+  if (device.baseline !== undefined && !API.PARAMS.TYPICAL_DURATIONS.includes(device.baseline)) {
+    errors.push(`${label}: baseline must be one of ${API.PARAMS.TYPICAL_DURATIONS.join(', ')}`);
+  }
+
+  if (device.source !== undefined) {
+    errors.push(...validateSource(device, label));
+  }
+
+  if (device.directionLabels !== undefined) {
+    const { lft, rgt } = (device.directionLabels ?? {}) as Partial<DirectionLabels>;
+    if (!isNonEmptyString(lft) || !isNonEmptyString(rgt)) {
+      errors.push(`${label}: directionLabels must have non-empty "lft" and "rgt" strings`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Source settings as read from the registry, before validation
+ */
+type RawSourceConfig = Partial<Omit<CountFileSourceConfig, 'type'>> & { type?: string };
+
+/**
+ * Validate the traffic source of a registry entry
+ */
+function validateSource(device: DeviceConfig, label: string): string[] {
+  const { type, path, intervalMinutes } = (device.source ?? {}) as RawSourceConfig;
+  const errors: string[] = [];
+
+  if (!SOURCES.TYPES.includes(type as (typeof SOURCES.TYPES)[number])) {
+    errors.push(`${label}: source.type must be one of ${SOURCES.TYPES.join(', ')}`);
+    return errors;
+  }
+
+  if (type === 'telraam') {
+    return errors;
+  }
+
+  if (!isNonEmptyString(path)) {
+    errors.push(`${label}: source.path is required for ${type} sources`);
+  }
+
+  if (
+    intervalMinutes !== undefined &&
+    (!Number.isInteger(intervalMinutes) ||
+      intervalMinutes < 1 ||
+      intervalMinutes > SOURCES.MAX_INTERVAL_MINUTES)
+  ) {
+    errors.push(
+      `${label}: source.intervalMinutes must be an integer between 1 and ${SOURCES.MAX_INTERVAL_MINUTES}`,
+    );
+  }
+
+  // Quarter-hour data and baselines come from the advanced Telraam API
+  if (device.quarterHour) {
+    errors.push(`${label}: quarterHour requires the telraam source`);
+  }
+  if (device.baseline !== undefined) {
+    errors.push(`${label}: baseline requires the telraam source`);
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a registry entry is counted by a Telraam camera (no source, or the telraam source)
+ */
+function isTelraamSource(device: DeviceConfig): boolean {
+  const type = (device.source as RawSourceConfig | undefined)?.type;
+  return (type ?? 'telraam') === 'telraam';
+}
+
+/**
+ * Validate a parsed device registry file
+ */
+export function validateDeviceRegistry(data: unknown): ValidationResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: ['Registry must be an object with "version" and "devices"'] };
+  }
+
+  const registry = data as Partial<DeviceRegistryFile>;
+  if (registry.version !== DEVICE_REGISTRY.VERSION) {
+    return {
+      valid: false,
+      errors: [
+        `Unsupported registry version ${String(registry.version)} (expected ${DEVICE_REGISTRY.VERSION})`,
+      ],
+    };
+  }
+
+  return validateDevices(registry.devices as DeviceConfig[]);
+}
+
 /**
  * Validate days to fetch
  */
@@ -83,18 +265,14 @@ export function validateDaysToFetch(days: number): ValidationResult {
 }
 
 /**
- * Validate entire configuration
+ * Validate environment configuration
+ * Devices are validated separately when the registry is loaded.
  */
 export function validateConfiguration(config: {
   apiKey: string | undefined;
-  devices: DeviceConfig[];
   daysToFetch: number;
 }): ValidationResult {
-  const results = [
-    validateApiKey(config.apiKey),
-    validateDevices(config.devices),
-    validateDaysToFetch(config.daysToFetch),
-  ];
+  const results = [validateApiKey(config.apiKey), validateDaysToFetch(config.daysToFetch)];
 
   const allErrors = results.flatMap((r) => r.errors);
 
@@ -111,6 +289,29 @@ export function isDefined<T>(value: T | undefined | null): value is T {
   return value !== undefined && value !== null;
 }
 
+/**
+ * Type guard for non-empty strings
+ */
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Check whether a string is a time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: unknown): boolean {
+  if (!isNonEmptyString(timeZone)) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Type guard for checking if error is a filesystem error
  */
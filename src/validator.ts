@@ -0,0 +1,191 @@
+/**
+ * Data Validator Module
+ *
+ * Checks stored hourly and daily files for structural problems and for daily
+ * totals that no longer match the hourly data they were derived from.
+ * Works entirely offline.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { Storage } from './services/index.js';
+import type {
+  DailyData,
+  DailyEntry,
+  DataIssue,
+  DataValidationReport,
+  DeviceConfig,
+  MonthlyData,
+} from './types.js';
+import { createLogger, extractMonth, LOG_NAMESPACES, shiftMonth } from './utils/index.js';
+
+const logger = createLogger(LOG_NAMESPACES.VALIDATOR);
+
+/**
+ * Validates the data files of a set of devices
+ */
+export class DataValidator {
+  constructor(private readonly storage: Storage) {}
+
+  /**
+   * Validate every hourly and daily month file of the given devices
+   */
+  async validateDevices(devices: DeviceConfig[]): Promise<DataValidationReport> {
+    const report: DataValidationReport = { devicesChecked: 0, filesChecked: 0, issues: [] };
+
+    for (const device of devices) {
+      await this.validateDevice(device.id, report);
+      report.devicesChecked++;
+    }
+
+    this.logReport(report);
+    return report;
+  }
+
+  /**
+   * Validate one device's files, appending problems to the report
+   */
+  private async validateDevice(deviceId: string, report: DataValidationReport): Promise<void> {
+    const hourlyMonths = await this.storage.listHourlyMonths(deviceId);
+    const dailyMonths = await this.storage.listDailyMonths(deviceId);
+    const invalidMonths = new Set<string>();
+    const addIssue = (month: string, file: DataIssue['file'], message: string) =>
+      report.issues.push({ deviceId, month, file, message });
+
+    for (const month of hourlyMonths) {
+      report.filesChecked++;
+      const monthly = await this.storage.loadMonthlyData(deviceId, month);
+      if (!monthly) continue;
+
+      const problems = this.checkMonthlyData(deviceId, month, monthly);
+      problems.forEach((message) => addIssue(month, 'hourly', message));
+      if (problems.length > 0) {
+        invalidMonths.add(month);
+      }
+    }
+
+    // Local days at a month's edges come from the neighbouring hourly files
+    const months = [...new Set([...hourlyMonths, ...dailyMonths])].sort();
+    for (const month of months) {
+      if (!hourlyMonths.includes(month)) {
+        report.filesChecked++;
+      }
+      if ([shiftMonth(month, -1), month, shiftMonth(month, 1)].some((m) => invalidMonths.has(m))) {
+        continue;
+      }
+
+      const daily = await this.storage.loadDailyData(deviceId, month);
+      this.checkDailyData(
+        await this.storage.buildMonthDailyEntries(deviceId, month),
+        daily,
+      ).forEach((message) => addIssue(month, 'daily', message));
+    }
+  }
+
+  /**
+   * Check an hourly file's structure and timestamps
+   */
+  private checkMonthlyData(deviceId: string, month: string, monthly: MonthlyData): string[] {
+    const problems: string[] = [];
+
+    if (monthly.device_id !== deviceId) {
+      problems.push(`device_id is ${monthly.device_id}, expected ${deviceId}`);
+    }
+    if (!Array.isArray(monthly.data)) {
+      problems.push('data is not an array');
+      return problems;
+    }
+
+    const seen = new Set<string>();
+    monthly.data.forEach((point, index) => {
+      const date = point.date ? new Date(point.date) : null;
+      if (!date || Number.isNaN(date.getTime())) {
+        problems.push(`Point ${index} has an invalid date: ${point.date}`);
+        return;
+      }
+
+      const timestamp = date.toISOString();
+      if (extractMonth(timestamp) !== month) {
+        problems.push(`Point ${index} (${point.date}) is outside ${month}`);
+      }
+      if (seen.has(timestamp)) {
+        problems.push(`Duplicate point for ${point.date}`);
+      }
+      seen.add(timestamp);
+    });
+
+    return problems;
+  }
+
+  /**
+   * Check a daily file against the days rebuilt from the hourly files
+   */
+  private checkDailyData(
+    expected: { timeZone: string; days: DailyEntry[] },
+    daily: DailyData | null,
+  ): string[] {
+    if (expected.days.length === 0) {
+      return daily ? ['Daily file has no matching hourly data'] : [];
+    }
+    if (!daily) {
+      return ['Daily file is missing'];
+    }
+
+    const timeZone = daily.timezone ?? 'UTC';
+    if (timeZone !== expected.timeZone) {
+      return [`Days are cut in ${timeZone}, hourly data is in ${expected.timeZone} (run rebuild)`];
+    }
+
+    return this.checkDailyEntries(expected.days, daily.days);
+  }
+
+  /**
+   * Compare stored daily entries against entries rebuilt from hourly data
+   */
+  private checkDailyEntries(expected: DailyEntry[], actual: DailyEntry[]): string[] {
+    const problems: string[] = [];
+    const actualByDate = new Map(actual.map((entry) => [entry.date, entry]));
+
+    for (const entry of expected) {
+      const stored = actualByDate.get(entry.date);
+      if (!stored) {
+        problems.push(`Missing daily entry for ${entry.date}`);
+      } else if (!this.totalsEqual(entry.totals, stored.totals)) {
+        problems.push(`Daily totals for ${entry.date} do not match hourly data`);
+      }
+      actualByDate.delete(entry.date);
+    }
+
+    for (const date of actualByDate.keys()) {
+      problems.push(`Daily entry for ${date} has no hourly data`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Compare two totals objects key by key, speed histograms bin by bin
+   */
+  private totalsEqual(a: DailyEntry['totals'], b: DailyEntry['totals']): boolean {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) =>
+      isDeepStrictEqual(a[key as keyof typeof a], b[key as keyof typeof b]),
+    );
+  }
+
+  /**
+   * Log the validation outcome
+   */
+  private logReport(report: DataValidationReport): void {
+    logger.info(`Checked ${report.filesChecked} file(s) across ${report.devicesChecked} device(s)`);
+
+    if (report.issues.length === 0) {
+      logger.info('No problems found');
+      return;
+    }
+
+    logger.warn(`Found ${report.issues.length} problem(s):`);
+    report.issues.forEach((issue) => {
+      logger.warn(`  - Device ${issue.deviceId}, ${issue.month} (${issue.file}): ${issue.message}`);
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Backfiller } from '../src/backfill.js';
+import { Storage } from '../src/services/index.js';
+import type { TelraamClient } from '../src/telraamClient.js';
+import type { DateRange, DeviceConfig, TrafficDataPoint } from '../src/types.js';
+
+const DEVICE: DeviceConfig = { id: '9000000001', name: 'Test street', location: 'Karlsruhe' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Client stub answering every window with one point at its start, failing the listed calls
+ */
+function createClient(failOnCalls: number[] = []) {
+  const windows: DateRange[] = [];
+  const client = {
+    fetchTrafficData: async (_deviceId: string, window: DateRange) => {
+      windows.push(window);
+      if (failOnCalls.includes(windows.length)) {
+        throw new Error('connection reset');
+      }
+      const point: TrafficDataPoint = { date: window.start.toISOString(), car: 1 };
+      return [point];
+    },
+  };
+  return { client: client as unknown as TelraamClient, windows };
+}
+
+describe('Backfiller', () => {
+  let dataDir: string;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backfill-'));
+    storage = new Storage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('fetches the history in windows of at most 90 days', async () => {
+    const { client, windows } = createClient();
+    const start = new Date(Date.now() - 200 * DAY_MS);
+
+    await new Backfiller({
+      client,
+      storage,
+      devices: [DEVICE],
+      concurrency: 1,
+    }).backfillAllDevices(start);
+
+    expect(windows).toHaveLength(3);
+    expect(windows[0].start).toEqual(start);
+    for (const window of windows) {
+      expect(window.end.getTime() - window.start.getTime()).toBeLessThanOrEqual(90 * DAY_MS);
+    }
+    expect((await storage.loadCollectionState()).backfill).toBeUndefined();
+  });
+
+  it('checkpoints completed windows and resumes after an interruption', async () => {
+    const start = new Date(Date.now() - 200 * DAY_MS);
+    const failing = createClient([2]);
+
+    const summary = await new Backfiller({
+      client: failing.client,
+      storage,
+      devices: [DEVICE],
+      concurrency: 1,
+    }).backfillAllDevices(start);
+    expect(summary.failedDevices).toBe(1);
+
+    const checkpoint = (await storage.loadCollectionState()).backfill?.[DEVICE.id];
+    expect(checkpoint?.start).toBe(start.toISOString());
+    expect(checkpoint?.completedUntil).toBe(failing.windows[0].end.toISOString());
+
+    const resumed = createClient();
+    await new Backfiller({
+      client: resumed.client,
+      storage,
+      devices: [DEVICE],
+      concurrency: 1,
+    }).backfillAllDevices(start);
+
+    expect(resumed.windows[0].start).toEqual(failing.windows[0].end);
+    expect(resumed.windows).toHaveLength(2);
+    expect((await storage.loadCollectionState()).backfill).toBeUndefined();
+  });
+
+  it('ignores a checkpoint of a backfill from another start', async () => {
+    const start = new Date(Date.now() - 200 * DAY_MS);
+    const failing = createClient([2]);
+    await new Backfiller({
+      client: failing.client,
+      storage,
+      devices: [DEVICE],
+      concurrency: 1,
+    }).backfillAllDevices(start);
+
+    const otherStart = new Date(Date.now() - 50 * DAY_MS);
+    const { client, windows } = createClient();
+    await new Backfiller({
+      client,
+      storage,
+      devices: [DEVICE],
+      concurrency: 1,
+    }).backfillAllDevices(otherStart);
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0].start).toEqual(otherStart);
+  });
+
+  it('saves windows fetched concurrently in order', async () => {
+    const { client, windows } = createClient();
+    const start = new Date(Date.now() - 200 * DAY_MS);
+
+    await new Backfiller({
+      client,
+      storage,
+      devices: [DEVICE],
+      concurrency: 3,
+    }).backfillAllDevices(start);
+
+    expect(windows).toHaveLength(3);
+    expect(await storage.getTotalHourlyDataPoints(DEVICE.id)).toBe(3);
+  });
+});
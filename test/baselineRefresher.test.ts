@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BaselineRefresher } from '../src/baselineRefresher.js';
+import { Storage } from '../src/services/index.js';
+import type { TelraamClient } from '../src/telraamClient.js';
+import type { DeviceConfig, TypicalTrafficEntry } from '../src/types.js';
+
+const DEVICE: DeviceConfig = {
+  id: '9000000001',
+  name: 'Test street',
+  location: 'Karlsruhe',
+  baseline: '91',
+};
+
+const ENTRIES = [
+  {
+    day_of_week: 'mon',
+    time: '08:00',
+    time_start: '2024-10-01T00:00:00Z',
+    time_end: '2024-12-31T00:00:00Z',
+    avg_car: 25,
+    std_car: 4,
+    avg_bike: 3,
+    samplesize: 13,
+  },
+] as unknown as TypicalTrafficEntry[];
+
+/**
+ * Client stub counting typical traffic requests
+ */
+function createClient(fetchTypicalTraffic: () => Promise<TypicalTrafficEntry[]>) {
+  const calls = { count: 0 };
+  const client = {
+    fetchTypicalTraffic: async () => {
+      calls.count++;
+      return fetchTypicalTraffic();
+    },
+  };
+  return { client: client as unknown as TelraamClient, calls };
+}
+
+describe('BaselineRefresher', () => {
+  let dataDir: string;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'baseline-'));
+    storage = new Storage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('stores typical traffic by weekday and local hour', async () => {
+    const { client } = createClient(async () => ENTRIES);
+
+    await new BaselineRefresher(client, storage).refresh(DEVICE);
+
+    const baseline = await storage.loadBaseline(DEVICE.id);
+    expect(baseline).toMatchObject({
+      duration: '91',
+      periodStart: '2024-10-01T00:00:00Z',
+      periodEnd: '2024-12-31T00:00:00Z',
+      profiles: { mon: { '8': { avg: { car: 25, bike: 3 }, std: { car: 4 }, samplesize: 13 } } },
+    });
+  });
+
+  it('skips devices without a baseline and fresh baselines', async () => {
+    const { client, calls } = createClient(async () => ENTRIES);
+    const refresher = new BaselineRefresher(client, storage);
+
+    await refresher.refresh({ ...DEVICE, baseline: undefined });
+    expect(calls.count).toBe(0);
+
+    await refresher.refresh(DEVICE);
+    await refresher.refresh(DEVICE);
+    expect(calls.count).toBe(1);
+
+    await refresher.refresh({ ...DEVICE, baseline: '365' });
+    expect(calls.count).toBe(2);
+  });
+
+  it('keeps the stored baseline when the refresh fails', async () => {
+    await new BaselineRefresher(createClient(async () => ENTRIES).client, storage).refresh(DEVICE);
+    const stored = await storage.loadBaseline(DEVICE.id);
+
+    const failing = createClient(async () => {
+      throw new Error('HTTP 403');
+    });
+    await new BaselineRefresher(failing.client, storage).refresh({ ...DEVICE, baseline: '365' });
+
+    expect(await storage.loadBaseline(DEVICE.id)).toEqual(stored);
+  });
+});
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { runCli } from '../src/cli.js';
+import { MockTelraamServer, NO_FAILURES } from '../src/mock/MockTelraamServer.js';
+import { Storage } from '../src/services/index.js';
+import { EXIT_CODES } from '../src/utils/index.js';
+
+const SEGMENT_ID = '9000000001';
+
+describe('runCli date ranges', () => {
+  let tempDir: string;
+  let dataDir: string;
+  let server: MockTelraamServer;
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    // The landing page is written next to the data directory
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+    dataDir = path.join(tempDir, 'data');
+    const registryPath = path.join(tempDir, 'devices.json');
+    await fs.writeFile(
+      registryPath,
+      JSON.stringify({
+        version: 1,
+        devices: [{ id: SEGMENT_ID, name: 'Test street', location: 'Karlsruhe' }],
+      }),
+    );
+    server = new MockTelraamServer({ port: 0, seed: 1, segmentCount: 1, failures: NO_FAILURES });
+    env = {
+      TELRAAM_API_URL: await server.start(),
+      TELRAAM_API_KEY: 'key',
+      TELRAAM_DEVICE_REGISTRY: registryPath,
+    };
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('backfills from a start date until --to', async () => {
+    const exitCode = await runCli(
+      ['backfill', '2025-06-02', '--to', '2025-06-04', '--data-dir', dataDir],
+      env,
+    );
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    const storage = new Storage(dataDir);
+    expect(await storage.listHourlyMonths(SEGMENT_ID)).toEqual(['2025-06']);
+    const dates = (await storage.loadMonthlyData(SEGMENT_ID, '2025-06'))!.data.map(
+      (point) => point.date!,
+    );
+    expect(dates.length).toBeGreaterThan(0);
+    expect(dates.every((date) => date >= '2025-06-02' && date < '2025-06-04')).toBe(true);
+  });
+
+  it('rejects a --to before the backfill start', async () => {
+    expect(
+      await runCli(['backfill', '2024-02-01', '--to', '2024-01-01', '--data-dir', dataDir], env),
+    ).toBe(EXIT_CODES.CONFIG_ERROR);
+  });
+
+  it('still requires --from with --to for collect', async () => {
+    expect(await runCli(['collect', '--to', '2024-01-03', '--data-dir', dataDir], env)).toBe(
+      EXIT_CODES.CONFIG_ERROR,
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DataCollector } from '../src/collector.js';
+import { Storage } from '../src/services/index.js';
+import type { TelraamClient } from '../src/telraamClient.js';
+import type { CollectionState, DateRange, DeviceConfig } from '../src/types.js';
+
+const FIRST: DeviceConfig = { id: '9000000001', name: 'First street', location: 'Karlsruhe' };
+const SECOND: DeviceConfig = { id: '9000000002', name: 'Second street', location: 'Karlsruhe' };
+
+/**
+ * Client stub answering every request with one point an hour before the window ends
+ */
+const client = {
+  fetchTrafficData: async (_deviceId: string, window: DateRange) => [
+    { date: new Date(window.end.getTime() - 2 * 60 * 60 * 1000).toISOString(), car: 1 },
+  ],
+  fetchInstances: async () => [],
+  fetchSegment: async () => null,
+} as unknown as TelraamClient;
+
+/**
+ * Storage whose collection state write fails while saving the given device's mark
+ */
+class FailingStateStorage extends Storage {
+  constructor(
+    dataDir: string,
+    private readonly failingDeviceId: string,
+  ) {
+    super(dataDir);
+  }
+
+  override async saveCollectionState(state: CollectionState): Promise<void> {
+    if (state.devices[this.failingDeviceId]) {
+      delete state.devices[this.failingDeviceId];
+      throw new Error('disk full');
+    }
+    await super.saveCollectionState(state);
+  }
+}
+
+describe('DataCollector', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'collector-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('fails only the device whose progress could not be saved', async () => {
+    const storage = new FailingStateStorage(dataDir, FIRST.id);
+
+    const summary = await new DataCollector({
+      client,
+      storage,
+      devices: [FIRST, SECOND],
+      daysToFetch: 1,
+      concurrency: 1,
+      overlapHours: 6,
+    }).collectAllDevices();
+
+    expect(summary.failedDevices).toBe(1);
+    expect(summary.results).toMatchObject([
+      { deviceId: FIRST.id, success: false, error: expect.stringContaining('disk full') },
+      { deviceId: SECOND.id, success: true },
+    ]);
+    const state = await storage.loadCollectionState();
+    expect(Object.keys(state.devices)).toEqual([SECOND.id]);
+    expect((await storage.loadDeviceMetadata()).map((meta) => meta.id)).toEqual([
+      FIRST.id,
+      SECOND.id,
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CsvImporter } from '../src/csvImporter.js';
+import { Storage } from '../src/services/index.js';
+import type { DeviceConfig } from '../src/types.js';
+
+const DEVICE: DeviceConfig = {
+  id: '9000000001',
+  name: 'Test street',
+  location: 'Karlsruhe',
+  timezone: 'Europe/Berlin',
+};
+
+describe('CsvImporter', () => {
+  let dir: string;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'import-'));
+    storage = new Storage(path.join(dir, 'data'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeCsv(name: string, content: string): Promise<string> {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, content);
+    return file;
+  }
+
+  it('reads hourly exports in local time and rebuilds the touched days', async () => {
+    const file = await writeCsv(
+      'hourly.csv',
+      'Date;Car;Bike;Pedestrian;Heavy;Uptime\n' +
+        '2024-06-01 08:00;12;3;4;1;0.8\n' +
+        '2024-06-01 09:00;20;5;2;0;0.9\n',
+    );
+
+    const report = await new CsvImporter(storage).importFiles(DEVICE, [file]);
+
+    expect(report).toMatchObject({ rows: 2, imported: 2, matched: 0, conflicts: [], skipped: [] });
+    const hourly = await storage.loadMonthlyData(DEVICE.id, '2024-06');
+    expect(hourly?.data.map((point) => [point.date, point.car])).toEqual([
+      ['2024-06-01T06:00:00.000Z', 12],
+      ['2024-06-01T07:00:00.000Z', 20],
+    ]);
+    const daily = await storage.loadDailyData(DEVICE.id, '2024-06');
+    expect(daily?.days[0].totals.car).toBe(32);
+  });
+
+  it('reads advanced exports in UTC with directions and histograms', async () => {
+    const file = await writeCsv(
+      'advanced.csv',
+      'date,interval,segment_id,instance_id,uptime,car,car_lft,car_rgt,car_speed_hist_0to120plus\n' +
+        '2024-06-01 08:00:00+00,hourly,9000000001,7,0.9,10,4,6,"[50.0, 50.0]"\n',
+    );
+
+    await new CsvImporter(storage).importFiles(DEVICE, [file]);
+
+    const [point] = (await storage.loadMonthlyData(DEVICE.id, '2024-06'))!.data;
+    expect(point).toMatchObject({
+      date: '2024-06-01T08:00:00.000Z',
+      instance_id: 7,
+      car_lft: 4,
+      car_rgt: 6,
+      car_speed_hist_0to120plus: [50, 50],
+    });
+  });
+
+  it('keeps stored hours and reports conflicting ones', async () => {
+    await storage.saveDeviceData(DEVICE.id, [
+      { date: '2024-06-01T06:00:00.000Z', car: 12 },
+      { date: '2024-06-01T07:00:00.000Z', car: 20 },
+    ]);
+    const file = await writeCsv(
+      'hourly.csv',
+      'date,car\n2024-06-01 08:00,12\n2024-06-01 09:00,25\n2024-06-01 10:00,7\n',
+    );
+
+    const report = await new CsvImporter(storage).importFiles(DEVICE, [file]);
+
+    expect(report).toMatchObject({
+      imported: 1,
+      matched: 1,
+      conflicts: [{ date: '2024-06-01T07:00:00.000Z', differences: ['car: 20 → 25'] }],
+    });
+    const hourly = await storage.loadMonthlyData(DEVICE.id, '2024-06');
+    expect(hourly?.data.map((point) => point.car)).toEqual([12, 20, 7]);
+  });
+
+  it('skips invalid rows with their reason', async () => {
+    const file = await writeCsv(
+      'bad.csv',
+      'date,car,uptime,segment_id\n' +
+        'yesterday,1,,\n' +
+        '2024-06-01 08:30,1,,\n' +
+        '2024-06-01 09:00,-1,,\n' +
+        '2024-06-01 10:00,1,1.5,\n' +
+        '2024-06-01 11:00,1,,9000000002\n' +
+        '2024-06-01 12:00,1,,\n' +
+        '2024-06-01 12:00,1,,\n',
+    );
+
+    const report = await new CsvImporter(storage).importFiles(DEVICE, [file]);
+
+    expect(report.imported).toBe(1);
+    expect(report.skipped.map(({ row, reason }) => [row, reason])).toEqual([
+      [1, 'invalid date "yesterday"'],
+      [2, 'date 2024-06-01T06:30:00.000Z is not on a full hour'],
+      [3, 'invalid car "-1"'],
+      [4, 'uptime 1.5 is outside 0-1'],
+      [5, 'segment 9000000002 is not device 9000000001'],
+      [7, 'duplicate hour 2024-06-01T10:00:00.000Z'],
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DataExporter, type ExportOptions } from '../src/exporter.js';
+import { Storage } from '../src/services/index.js';
+import type { DeviceConfig } from '../src/types.js';
+
+const DEVICE: DeviceConfig = { id: '9000000001', name: 'Test street', location: 'Karlsruhe' };
+const OTHER: DeviceConfig = { id: '9000000002', name: 'Other street', location: 'Karlsruhe' };
+
+/**
+ * Run an export and return everything written to the output
+ */
+async function runExport(
+  exporter: DataExporter,
+  devices: DeviceConfig[],
+  options: ExportOptions,
+): Promise<{ count: number; text: string }> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+  const count = await exporter.export(devices, options, output);
+  output.end();
+  return { count, text: Buffer.concat(chunks).toString() };
+}
+
+describe('DataExporter', () => {
+  let dataDir: string;
+  let storage: Storage;
+  let exporter: DataExporter;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'exporter-'));
+    storage = new Storage(dataDir);
+    exporter = new DataExporter(storage);
+    await storage.saveDeviceData(DEVICE.id, [
+      { date: '2025-01-31T08:00:00.000Z', car: 10 },
+      { date: '2025-02-01T08:00:00.000Z', car: 20 },
+    ]);
+    await storage.saveDeviceData(OTHER.id, [{ date: '2025-02-01T08:00:00.000Z', car: 5 }]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('streams one CSV header over all months', async () => {
+    const { count, text } = await runExport(exporter, [DEVICE], {
+      level: 'hourly',
+      format: 'csv',
+    });
+    const lines = text.trimEnd().split('\n');
+
+    expect(count).toBe(2);
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^device_id,date,/);
+    expect(lines.slice(1).map((line) => line.split(',').slice(0, 2))).toEqual([
+      [DEVICE.id, '2025-01-31T08:00:00.000Z'],
+      [DEVICE.id, '2025-02-01T08:00:00.000Z'],
+    ]);
+  });
+
+  it('keeps the CSV header for an empty export', async () => {
+    const { count, text } = await runExport(exporter, [DEVICE], {
+      level: 'daily',
+      format: 'csv',
+      range: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-02-01T00:00:00Z') },
+    });
+
+    expect(count).toBe(0);
+    expect(text).toMatch(/^device_id,date,hours,/);
+    expect(text.trimEnd().split('\n')).toHaveLength(1);
+  });
+
+  it('publishes month and device tables for the selection and a combined table of all devices', async () => {
+    const report = await exporter.publish([DEVICE], ['hourly'], ['csv']);
+
+    expect(report.rows).toEqual({ hourly: 3 });
+    expect(report.files.map((file) => path.relative(dataDir, file))).toEqual([
+      path.join(`device_${DEVICE.id}`, 'hourly', '2025-01.csv'),
+      path.join(`device_${DEVICE.id}`, 'hourly', '2025-02.csv'),
+      path.join(`device_${DEVICE.id}`, 'hourly.csv'),
+      'hourly.csv',
+    ]);
+    const combined = await fs.readFile(path.join(dataDir, 'hourly.csv'), 'utf-8');
+    expect(combined.trimEnd().split('\n')).toHaveLength(4);
+  });
+});
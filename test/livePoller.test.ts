@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LivePoller } from '../src/livePoller.js';
+import { Storage } from '../src/services/index.js';
+import { TelraamClient } from '../src/telraamClient.js';
+import type { DeviceConfig, LiveSnapshotFeature } from '../src/types.js';
+
+const DEVICES: DeviceConfig[] = [
+  { id: '9000000001', name: 'Live street', location: 'Karlsruhe' },
+  { id: '9000000002', name: 'Offline street', location: 'Karlsruhe' },
+  { id: '9000000003', name: 'Missing street', location: 'Karlsruhe' },
+];
+
+function feature(properties: Record<string, unknown>): LiveSnapshotFeature {
+  return { type: 'Feature', properties } as unknown as LiveSnapshotFeature;
+}
+
+/**
+ * Client stub answering each poll with the next snapshot, or throwing for null
+ */
+function createClient(snapshots: (LiveSnapshotFeature[] | null)[]): TelraamClient {
+  let poll = 0;
+  return {
+    fetchLiveSnapshot: async () => {
+      const snapshot = snapshots[poll++];
+      if (!snapshot) {
+        throw new Error('HTTP 502');
+      }
+      return snapshot;
+    },
+    resetRetryDecisions: () => {},
+  } as unknown as TelraamClient;
+}
+
+describe('LivePoller', () => {
+  let dataDir: string;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'live-'));
+    storage = new Storage(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  function poller(client: TelraamClient): LivePoller {
+    return new LivePoller({ client, storage, devices: DEVICES, intervalSeconds: 60 });
+  }
+
+  it('writes live, offline and missing devices to latest.json', async () => {
+    const client = createClient([
+      [
+        feature({ segment_id: 9000000001, date: '2025-01-06T08:00:00Z', car: 12, bike: 3 }),
+        feature({ segment_id: 9000000002, last_data_package: '2025-01-03T17:00:00Z' }),
+        feature({ segment_id: 9000000099, date: '2025-01-06T08:00:00Z', car: 1 }),
+      ],
+    ]);
+
+    const succeeded = await poller(client).run(new AbortController().signal, { once: true });
+
+    expect(succeeded).toBe(true);
+    expect((await storage.loadLatestSnapshot())?.devices).toEqual([
+      {
+        id: '9000000001',
+        name: 'Live street',
+        status: 'live',
+        date: '2025-01-06T08:00:00Z',
+        car: 12,
+        bike: 3,
+      },
+      {
+        id: '9000000002',
+        name: 'Offline street',
+        status: 'offline',
+        lastDataPackage: '2025-01-03T17:00:00Z',
+      },
+      { id: '9000000003', name: 'Missing street', status: 'missing' },
+    ]);
+  });
+
+  it('keeps the last counts of a device that went offline', async () => {
+    const live = feature({ segment_id: 9000000001, date: '2025-01-06T08:00:00Z', car: 12 });
+    await poller(createClient([[live]])).run(new AbortController().signal, { once: true });
+
+    await poller(createClient([[feature({ segment_id: 9000000001 })]])).run(
+      new AbortController().signal,
+      { once: true },
+    );
+
+    expect((await storage.loadLatestSnapshot())?.devices[0]).toMatchObject({
+      status: 'offline',
+      date: '2025-01-06T08:00:00Z',
+      car: 12,
+    });
+  });
+
+  it('keeps latest.json when a poll fails', async () => {
+    const live = feature({ segment_id: 9000000001, date: '2025-01-06T08:00:00Z', car: 12 });
+    await poller(createClient([[live]])).run(new AbortController().signal, { once: true });
+    const before = await storage.loadLatestSnapshot();
+
+    const succeeded = await poller(createClient([null])).run(new AbortController().signal, {
+      once: true,
+    });
+
+    expect(succeeded).toBe(false);
+    expect(await storage.loadLatestSnapshot()).toEqual(before);
+  });
+
+  it('stops polling when aborted', async () => {
+    const controller = new AbortController();
+    let polls = 0;
+    const client = {
+      fetchLiveSnapshot: async () => {
+        if (++polls === 2) controller.abort();
+        return [];
+      },
+      resetRetryDecisions: () => {},
+    } as unknown as TelraamClient;
+
+    await new LivePoller({ client, storage, devices: DEVICES, intervalSeconds: 0 }).run(
+      controller.signal,
+    );
+
+    expect(polls).toBe(2);
+  });
+});
+
+describe('LivePoller retry budget', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'live-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('gives every poll the full retry budget', async () => {
+    // Each poll is rate limited once before it succeeds
+    let calls = 0;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        calls++ % 2 === 0
+          ? new Response(JSON.stringify({ message: 'Too many requests' }), {
+              status: 429,
+              headers: { 'Content-Type': 'application/json', 'Retry-After': '0' },
+            })
+          : new Response(JSON.stringify({ features: [] }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            }),
+      ),
+    );
+    const client = new TelraamClient('https://telraam.test', 'key', { retryBudget: 1 });
+    const poller = new LivePoller({
+      client,
+      storage: new Storage(dataDir),
+      devices: DEVICES,
+      intervalSeconds: 60,
+    });
+    const signal = new AbortController().signal;
+
+    for (let poll = 0; poll < 3; poll++) {
+      expect(await poller.run(signal, { once: true })).toBe(true);
+    }
+    expect(calls).toBe(6);
+    expect(client.getRetryDecisions()).toMatchObject({ retryAfterWaits: 1, budgetExhausted: 0 });
+  });
+});
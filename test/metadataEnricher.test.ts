@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { MetadataEnricher } from '../src/metadataEnricher.js';
+import type { TelraamClient } from '../src/telraamClient.js';
+import type {
+  CameraInstance,
+  DeviceConfig,
+  DeviceMetadata,
+  SegmentByIdFeature,
+} from '../src/types.js';
+
+const DEVICE: DeviceConfig = { id: '9000000001', name: 'Test street', location: 'Karlsruhe' };
+
+/**
+ * Segment running due east: from (8.40, 49.00) to (8.41, 49.00)
+ */
+const SEGMENT = {
+  type: 'Feature',
+  geometry: {
+    type: 'MultiLineString',
+    coordinates: [
+      [
+        [8.4, 49.0],
+        [8.41, 49.0],
+      ],
+    ],
+  },
+  properties: {
+    first_data_package: '2021-03-01T10:00:00Z',
+    last_data_package: '2024-12-06T09:00:00Z',
+  },
+} as unknown as SegmentByIdFeature;
+
+const INSTANCES = [
+  {
+    instance_id: 1,
+    status: 'stopped',
+    hardware_version: 1,
+    time_added: '2020-05-01T00:00:00Z',
+    time_end: '2022-01-01T00:00:00Z',
+    first_data_package: '2020-05-02T08:00:00Z',
+    last_data_package: '2021-12-31T16:00:00Z',
+  },
+  {
+    instance_id: 2,
+    status: 'active',
+    hardware_version: 2,
+    time_added: '2022-01-10T00:00:00Z',
+    time_end: null,
+    first_data_package: '2022-01-11T08:00:00Z',
+    last_data_package: '2024-12-06T10:00:00Z',
+  },
+] as unknown as CameraInstance[];
+
+function createClient(
+  instances: () => Promise<CameraInstance[]>,
+  segment: () => Promise<SegmentByIdFeature | null>,
+): TelraamClient {
+  return { fetchInstances: instances, fetchSegment: segment } as unknown as TelraamClient;
+}
+
+describe('MetadataEnricher', () => {
+  it('takes camera details from the open instance and the widest data package range', async () => {
+    const enricher = new MetadataEnricher(
+      createClient(
+        async () => INSTANCES,
+        async () => SEGMENT,
+      ),
+    );
+
+    const metadata = await enricher.refresh(DEVICE, undefined);
+
+    expect(metadata.cameraStatus).toBe('active');
+    expect(metadata.hardwareVersion).toBe(2);
+    expect(metadata.firstDataPackage).toBe('2020-05-02T08:00:00.000Z');
+    expect(metadata.lastDataPackage).toBe('2024-12-06T10:00:00.000Z');
+    expect(metadata.geometry?.type).toBe('MultiLineString');
+    expect(metadata.metadataRefreshedAt).toBeDefined();
+  });
+
+  it('derives direction labels from the segment heading', async () => {
+    const enricher = new MetadataEnricher(
+      createClient(
+        async () => INSTANCES,
+        async () => SEGMENT,
+      ),
+    );
+
+    const metadata = await enricher.refresh(DEVICE, undefined);
+
+    expect(metadata.directionLabels).toEqual({ rgt: 'towards E', lft: 'towards W' });
+  });
+
+  it('prefers direction labels from the registry', async () => {
+    const directionLabels = { lft: 'into town', rgt: 'out of town' };
+    const enricher = new MetadataEnricher(
+      createClient(
+        async () => INSTANCES,
+        async () => SEGMENT,
+      ),
+    );
+
+    const metadata = await enricher.refresh({ ...DEVICE, directionLabels }, undefined);
+
+    expect(metadata.directionLabels).toEqual(directionLabels);
+  });
+
+  it('keeps the previous values when the refresh fails', async () => {
+    const previous: DeviceMetadata = {
+      ...DEVICE,
+      lastUpdated: '2024-12-01T00:00:00.000Z',
+      totalDataPoints: 10,
+      cameraStatus: 'active',
+      hardwareVersion: 2,
+      metadataRefreshedAt: '2024-12-01T00:00:00.000Z',
+      directionLabels: { lft: 'towards W', rgt: 'towards E' },
+    };
+    const enricher = new MetadataEnricher(
+      createClient(
+        async () => {
+          throw new Error('HTTP 503');
+        },
+        async () => SEGMENT,
+      ),
+    );
+
+    const metadata = await enricher.refresh(DEVICE, previous);
+
+    expect(metadata.cameraStatus).toBe('active');
+    expect(metadata.hardwareVersion).toBe(2);
+    expect(metadata.metadataRefreshedAt).toBe('2024-12-01T00:00:00.000Z');
+    expect(metadata.directionLabels).toEqual(previous.directionLabels);
+  });
+});
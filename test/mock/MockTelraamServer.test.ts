@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  MockTelraamServer,
+  NO_FAILURES,
+  type FailureInjection,
+} from '../../src/mock/MockTelraamServer.js';
+import { TelraamClient } from '../../src/telraamClient.js';
+
+const SEGMENT_ID = '9000000001';
+const RANGE = {
+  start: new Date('2025-06-02T00:00:00Z'),
+  end: new Date('2025-06-04T00:00:00Z'),
+};
+
+describe('MockTelraamServer', () => {
+  const servers: MockTelraamServer[] = [];
+
+  async function startServer(
+    seed = 1,
+    failures: Partial<FailureInjection> = {},
+  ): Promise<{ server: MockTelraamServer; baseUrl: string }> {
+    const server = new MockTelraamServer({
+      port: 0,
+      seed,
+      segmentCount: 3,
+      failures: { ...NO_FAILURES, ...failures },
+    });
+    servers.push(server);
+    return { server, baseUrl: await server.start() };
+  }
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => server.stop()));
+  });
+
+  it('serves the same daylight hours for the same seed', async () => {
+    const first = await startServer(7);
+    const second = await startServer(7);
+    const other = await startServer(8);
+
+    const data = await new TelraamClient(first.baseUrl, 'key').fetchTrafficData(SEGMENT_ID, RANGE);
+
+    expect(data.length).toBeGreaterThan(20);
+    expect(data.length).toBeLessThan(48);
+    for (const point of data) {
+      expect(new Date(point.date!) >= RANGE.start && new Date(point.date!) < RANGE.end).toBe(true);
+      expect(point.uptime).toBeLessThan(1);
+      expect(point.car_speed_hist_0to120plus).toHaveLength(25);
+    }
+    expect(
+      await new TelraamClient(second.baseUrl, 'key').fetchTrafficData(SEGMENT_ID, RANGE),
+    ).toEqual(data);
+    expect(
+      await new TelraamClient(other.baseUrl, 'key').fetchTrafficData(SEGMENT_ID, RANGE),
+    ).not.toEqual(data);
+  });
+
+  it('serves instances and segment geometry for any numeric segment', async () => {
+    const { baseUrl } = await startServer();
+    const client = new TelraamClient(baseUrl, 'key');
+
+    const instances = await client.fetchInstances('9000012345');
+    const segment = await client.fetchSegment('9000012345');
+
+    expect(instances.some((instance) => instance.status === 'active')).toBe(true);
+    expect(segment?.geometry?.coordinates?.[0].length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('rejects requests without an API key and ranges longer than the API allows', async () => {
+    const { baseUrl } = await startServer();
+
+    const forbidden = await fetch(`${baseUrl}/v1/segments`);
+    expect(forbidden.status).toBe(403);
+
+    const tooLong = await fetch(`${baseUrl}/v1/reports/traffic`, {
+      method: 'POST',
+      headers: { 'X-Api-Key': 'key', 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        level: 'segments',
+        format: 'per-hour',
+        id: SEGMENT_ID,
+        time_start: '2025-01-01 00:00:00Z',
+        time_end: '2025-06-01 00:00:00Z',
+      }),
+    });
+    expect(tooLong.status).toBe(400);
+  });
+
+  it('injects rate limiting with a Retry-After header', async () => {
+    const { server, baseUrl } = await startServer(1, { rateLimited: 1, retryAfterSeconds: 0 });
+    const client = new TelraamClient(baseUrl, 'key');
+
+    await expect(client.fetchInstances(SEGMENT_ID)).rejects.toMatchObject({ statusCode: 429 });
+
+    expect(server.getStats()).toMatchObject({ requests: 3, rateLimited: 3 });
+    expect(client.getRetryDecisions().retryAfterWaits).toBe(2);
+  });
+
+  it('cuts off the body of malformed responses', async () => {
+    const { server, baseUrl } = await startServer(1, { malformed: 1 });
+
+    const response = await fetch(`${baseUrl}/v1/segments`, { headers: { 'X-Api-Key': 'key' } });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).rejects.toThrow();
+    expect(server.getStats().malformed).toBe(1);
+  });
+});
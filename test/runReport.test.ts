@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { buildRunReport } from '../src/runReport.js';
+import type { TelraamClient } from '../src/telraamClient.js';
+import type { ApiUsage, CollectionSummary, RetryDecisions } from '../src/types.js';
+
+const USAGE: Record<string, ApiUsage> = {
+  '9000000001': { requests: 2, retries: 1, failures: 0 },
+  '9000000002': { requests: 3, retries: 2, failures: 1 },
+};
+
+const RETRY_DECISIONS: RetryDecisions = {
+  retryBudget: 50,
+  retryAfterWaits: 1,
+  budgetExhausted: 0,
+  retryAfterTooLong: 0,
+  circuitOpened: 0,
+  circuitRejected: 0,
+  circuitState: 'closed',
+};
+
+const client = {
+  getUsage: (deviceId?: string): ApiUsage =>
+    deviceId === undefined
+      ? { requests: 6, retries: 3, failures: 1 }
+      : (USAGE[deviceId] ?? { requests: 0, retries: 0, failures: 0 }),
+  getRetryDecisions: () => RETRY_DECISIONS,
+} as unknown as TelraamClient;
+
+describe('buildRunReport', () => {
+  it('combines device results, month changes and API usage', () => {
+    const summary: CollectionSummary = {
+      totalDevices: 2,
+      successfulDevices: 1,
+      failedDevices: 1,
+      startTime: '2025-01-06T10:00:00.000Z',
+      endTime: '2025-01-06T10:01:00.000Z',
+      results: [
+        {
+          deviceId: '9000000001',
+          success: true,
+          dataPointsCollected: 30,
+          lastCompleteHour: '2025-01-06T09:00:00.000Z',
+        },
+        { deviceId: '9000000002', success: false, dataPointsCollected: 0, error: 'HTTP 500' },
+      ],
+    };
+    const changes = [
+      {
+        deviceId: '9000000001',
+        month: '2024-12',
+        added: 4,
+        replaced: 1,
+        unchanged: 0,
+        shiftedDays: [],
+      },
+      {
+        deviceId: '9000000001',
+        month: '2025-01',
+        added: 20,
+        replaced: 0,
+        unchanged: 5,
+        shiftedDays: [],
+      },
+    ];
+
+    const report = buildRunReport('collect', summary, changes, client);
+
+    expect(report.success).toBe(false);
+    expect(report.devices).toEqual([
+      {
+        deviceId: '9000000001',
+        success: true,
+        pointsFetched: 30,
+        pointsAdded: 24,
+        pointsReplaced: 1,
+        requests: 2,
+        retries: 1,
+        failures: 0,
+        lastCompleteHour: '2025-01-06T09:00:00.000Z',
+        error: undefined,
+      },
+      {
+        deviceId: '9000000002',
+        success: false,
+        pointsFetched: 0,
+        pointsAdded: 0,
+        pointsReplaced: 0,
+        requests: 3,
+        retries: 2,
+        failures: 1,
+        lastCompleteHour: undefined,
+        error: 'HTTP 500',
+      },
+    ]);
+    expect(report.totals).toEqual({
+      pointsFetched: 30,
+      pointsAdded: 24,
+      pointsReplaced: 1,
+      requests: 6,
+      retries: 3,
+      failures: 1,
+      errors: 1,
+    });
+    expect(report.retryDecisions).toEqual(RETRY_DECISIONS);
+  });
+});
@@ -0,0 +1,66 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { describe, expect, it } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from '../../src/services/CircuitBreaker.js';
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and rejects requests', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000 });
+
+    for (let i = 0; i < 3; i++) {
+      breaker.beforeRequest();
+      breaker.recordFailure();
+    }
+
+    expect(() => breaker.beforeRequest()).toThrow(CircuitOpenError);
+    expect(breaker.getStats()).toEqual({ state: 'open', opened: 1, rejected: 1 });
+  });
+
+  it('starts counting again after a success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 60_000 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(() => breaker.beforeRequest()).not.toThrow();
+    expect(breaker.getStats().state).toBe('closed');
+  });
+
+  it('lets one trial through after the cooldown and closes on success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 20 });
+    breaker.recordFailure();
+    await sleep(30);
+
+    breaker.beforeRequest();
+    expect(breaker.getStats().state).toBe('half-open');
+    expect(() => breaker.beforeRequest()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(() => breaker.beforeRequest()).not.toThrow();
+  });
+
+  it('reopens when the trial fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 20 });
+    breaker.recordFailure();
+    await sleep(30);
+
+    breaker.beforeRequest();
+    breaker.recordFailure();
+
+    expect(() => breaker.beforeRequest()).toThrow(CircuitOpenError);
+    expect(breaker.getStats().opened).toBe(2);
+  });
+
+  it('lets the next request be the trial after an inconclusive one', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 20 });
+    breaker.recordFailure();
+    await sleep(30);
+
+    breaker.beforeRequest();
+    breaker.recordInconclusive();
+
+    expect(() => breaker.beforeRequest()).not.toThrow();
+    expect(() => breaker.beforeRequest()).toThrow(CircuitOpenError);
+    expect(breaker.getStats().state).toBe('half-open');
+  });
+});
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DataDirLock, DataDirLockedError } from '../../src/services/DataDirLock.js';
+import { FILESYSTEM } from '../../src/utils/index.js';
+
+describe('DataDirLock', () => {
+  let dataDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lock-'));
+    lockPath = path.join(dataDir, FILESYSTEM.LOCK_FILE);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function writeLock(owner: { pid: number; hostname: string }): Promise<void> {
+    await fs.writeFile(
+      lockPath,
+      JSON.stringify({ ...owner, command: 'backfill', acquiredAt: '2025-01-01T00:00:00.000Z' }),
+    );
+  }
+
+  it('lets only one holder write at a time', async () => {
+    const first = new DataDirLock(dataDir);
+    await first.acquire('collect');
+
+    const second = new DataDirLock(dataDir);
+    await expect(second.acquire('backfill')).rejects.toBeInstanceOf(DataDirLockedError);
+    await expect(second.acquire('backfill')).rejects.toThrow(`"collect" (pid ${process.pid}`);
+
+    await first.release();
+    await second.acquire('backfill');
+    await second.release();
+    expect(await fs.readdir(dataDir)).toEqual([]);
+  });
+
+  it('does not remove a lock it does not hold', async () => {
+    await writeLock({ pid: process.pid, hostname: os.hostname() });
+
+    await new DataDirLock(dataDir).release();
+
+    await expect(fs.access(lockPath)).resolves.toBeUndefined();
+  });
+
+  it('takes over a lock of a process that no longer runs', async () => {
+    await writeLock({ pid: 2 ** 30, hostname: os.hostname() });
+    const lock = new DataDirLock(dataDir);
+
+    await lock.acquire('collect');
+
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf-8'))).toMatchObject({
+      pid: process.pid,
+      command: 'collect',
+    });
+    await lock.release();
+  });
+
+  it('never takes over a lock of another host', async () => {
+    await writeLock({ pid: 2 ** 30, hostname: `${os.hostname()}-other` });
+
+    await expect(new DataDirLock(dataDir).acquire('collect')).rejects.toBeInstanceOf(
+      DataDirLockedError,
+    );
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { DataMerger } from '../../src/services/DataMerger.js';
+import type {
+  DailyEntry,
+  QuarterHourDataPoint,
+  TrafficBaseline,
+  TrafficDataPoint,
+} from '../../src/types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * One point per UTC hour in [start, end), each counting one car
+ */
+function hourlyPoints(start: string, end: string): TrafficDataPoint[] {
+  const points: TrafficDataPoint[] = [];
+  for (let time = Date.parse(start); time < Date.parse(end); time += HOUR_MS) {
+    points.push({ date: new Date(time).toISOString(), car: 1 });
+  }
+  return points;
+}
+
+/**
+ * Number of hours each day of a set of daily entries holds
+ */
+function hoursPerDay(entries: DailyEntry[]): Record<string, number> {
+  return Object.fromEntries(entries.map((entry) => [entry.date, entry.totals.hours]));
+}
+
+/**
+ * Quarter-hour point at the given minute of 2025-01-06 08:00 UTC
+ */
+function quarter(minute: number, fields: Partial<QuarterHourDataPoint> = {}): QuarterHourDataPoint {
+  const date = new Date(Date.UTC(2025, 0, 6, 8, minute)).toISOString();
+  return { date, interval: 'quarterly', ...fields } as QuarterHourDataPoint;
+}
+
+describe('DataMerger quarter-hour roll-up', () => {
+  const merger = new DataMerger();
+
+  it('sums counts, averages uptime and weights speed histograms by cars', () => {
+    const [hour] = merger.rollUpQuarterHours([
+      quarter(0, { car: 10, heavy: 1, uptime: 1, v85: 40, car_speed_hist_0to120plus: [1, 0] }),
+      quarter(15, { car: 30, heavy: 0, uptime: 0.5, v85: 50, car_speed_hist_0to120plus: [0, 1] }),
+      quarter(30, { car: 0, heavy: 2, uptime: 1, v85: 45, car_speed_hist_0to120plus: [1, 0] }),
+      quarter(45, { car: 0, heavy: 0, uptime: 0.5, v85: 45, car_speed_hist_0to120plus: [1, 0] }),
+    ]);
+
+    expect(hour).toMatchObject({
+      date: '2025-01-06T08:00:00.000Z',
+      interval: 'hourly',
+      car: 40,
+      heavy: 3,
+      uptime: 0.75,
+      v85: null,
+      car_speed_hist_0to120plus: [0.25, 0.75],
+    });
+  });
+
+  it('only rolls up hours with all four quarters', () => {
+    const points = [quarter(0, { car: 1 }), quarter(15, { car: 1 }), quarter(30, { car: 1 })];
+
+    expect(merger.rollUpQuarterHours(points)).toEqual([]);
+    expect(merger.rollUpQuarterHours([...points, quarter(45, { car: 1 })])).toHaveLength(1);
+  });
+
+  it('keeps quarter-hour and hourly points with the same timestamp apart', () => {
+    const merged = merger.mergeDataPoints<{ date?: string; interval?: string; car?: number }>(
+      '9000000001',
+      [{ date: '2025-01-06T08:00:00.000Z', interval: 'hourly', car: 40 }],
+      [{ date: '2025-01-06T08:00:00.000Z', interval: 'quarterly', car: 10 }],
+    );
+
+    expect(merged).toHaveLength(2);
+  });
+});
+
+describe('DataMerger baseline deviation', () => {
+  const merger = new DataMerger();
+  const baseline: TrafficBaseline = {
+    device_id: '9000000001',
+    duration: '91',
+    periodStart: '2024-10-01T00:00:00Z',
+    periodEnd: '2024-12-31T00:00:00Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    profiles: {
+      // Monday 2025-01-06, 09:00 and 10:00 in Berlin
+      mon: { '9': { avg: { car: 20, bike: 4 }, std: {} } },
+      wday: { '10': { avg: { car: 40 }, std: {} } },
+    },
+  };
+
+  it('compares the hours with a typical value in local time', () => {
+    const [day] = merger.buildDailyEntries(
+      [
+        { date: '2025-01-06T08:00:00.000Z', timezone: 'Europe/Berlin', car: 30, bike: 2 },
+        { date: '2025-01-06T09:00:00.000Z', timezone: 'Europe/Berlin', car: 30 },
+        { date: '2025-01-06T12:00:00.000Z', timezone: 'Europe/Berlin', car: 500 },
+      ],
+      baseline,
+    );
+
+    expect(day.deviation).toEqual({
+      baselinePeriodEnd: '2024-12-31T00:00:00Z',
+      hours: 2,
+      expected: { car: 60, bike: 4 },
+      relative: { car: 0, bike: -0.5 },
+    });
+  });
+
+  it('leaves out the deviation without a matching hour or baseline', () => {
+    const points = [{ date: '2025-01-06T20:00:00.000Z', car: 5 }];
+
+    expect(merger.buildDailyEntries(points, baseline)[0].deviation).toBeUndefined();
+    expect(merger.buildDailyEntries(points)[0].deviation).toBeUndefined();
+  });
+});
+
+describe('DataMerger local days', () => {
+  const merger = new DataMerger();
+
+  it('groups hours by calendar day in the time zone', () => {
+    const points = hourlyPoints('2024-12-06T23:00:00Z', '2024-12-07T01:00:00Z');
+
+    expect([...merger.groupByDay(points, 'Europe/Berlin').keys()]).toEqual(['2024-12-07']);
+    expect([...merger.groupByDay(points).keys()]).toEqual(['2024-12-06', '2024-12-07']);
+  });
+
+  it('gives the spring DST day 23 hours', () => {
+    const points = hourlyPoints('2025-03-28T23:00:00Z', '2025-03-31T22:00:00Z');
+
+    expect(hoursPerDay(merger.buildDailyEntries(points, null, 'Europe/Berlin'))).toEqual({
+      '2025-03-29': 24,
+      '2025-03-30': 23,
+      '2025-03-31': 24,
+    });
+  });
+
+  it('gives the autumn DST day 25 hours', () => {
+    const points = hourlyPoints('2025-10-24T22:00:00Z', '2025-10-27T23:00:00Z');
+
+    expect(hoursPerDay(merger.buildDailyEntries(points, null, 'Europe/Berlin'))).toEqual({
+      '2025-10-25': 24,
+      '2025-10-26': 25,
+      '2025-10-27': 24,
+    });
+  });
+
+  it('cuts days in the time zone of the latest point that names a valid one', () => {
+    expect(
+      merger.resolveTimeZone([
+        { date: '2025-01-01T00:00:00.000Z', timezone: 'America/New_York' },
+        { date: '2025-01-02T00:00:00.000Z', timezone: 'Europe/Berlin' },
+        { date: '2025-01-03T00:00:00.000Z' },
+      ]),
+    ).toBe('Europe/Berlin');
+    expect(
+      merger.resolveTimeZone([{ date: '2025-01-01T00:00:00.000Z', timezone: 'Not/A_Zone' }]),
+    ).toBe('UTC');
+    expect(merger.resolveTimeZone([])).toBe('UTC');
+  });
+
+  it("prefers the device's time zone over that of the points", () => {
+    const points = [{ date: '2025-01-01T00:00:00.000Z', timezone: 'Europe/Berlin' }];
+
+    expect(merger.resolveTimeZone(points, 'America/New_York')).toBe('America/New_York');
+    expect(merger.resolveTimeZone(points, 'Not/A_Zone')).toBe('Europe/Berlin');
+    expect(merger.resolveTimeZone([], 'America/New_York')).toBe('America/New_York');
+  });
+});
+
+describe('DataMerger aggregate tiers', () => {
+  const merger = new DataMerger();
+
+  it('assigns days to ISO weeks across the year boundary', () => {
+    expect(merger.getPeriod('2024-12-30', 'weekly')).toBe('2025-W01');
+    expect(merger.getPeriodDays('2025-W01', 'weekly')).toEqual({
+      start: '2024-12-30',
+      end: '2025-01-05',
+    });
+    expect(merger.getPeriodDays('2024-02', 'monthly')).toEqual({
+      start: '2024-02-01',
+      end: '2024-02-29',
+    });
+  });
+
+  it('relates coverage to the hours of a month with a DST change', () => {
+    const points = hourlyPoints('2025-02-28T23:00:00Z', '2025-03-31T22:00:00Z');
+    const days = merger.buildDailyEntries(points, null, 'Europe/Berlin');
+
+    const [march] = merger.buildPeriodEntries(days, 'monthly', 'Europe/Berlin');
+
+    expect(march.period).toBe('2025-03');
+    expect(march.totals.hours).toBe(743);
+    expect(march.totals.car).toBe(743);
+    expect(march.avgPerDay.car).toBe(24);
+    expect(march.coverage).toEqual({ days: 31, calendarDays: 31, dayShare: 1, hourShare: 1 });
+  });
+
+  it('averages over the days with data only', () => {
+    const points = hourlyPoints('2025-01-06T00:00:00Z', '2025-01-08T00:00:00Z');
+    const days = merger.buildDailyEntries(points);
+
+    const [week] = merger.buildPeriodEntries(days, 'weekly', 'UTC');
+
+    expect(week.period).toBe('2025-W02');
+    expect(week.avgPerDay.car).toBe(24);
+    expect(week.coverage).toEqual({
+      days: 2,
+      calendarDays: 7,
+      dayShare: 0.286,
+      hourShare: 0.286,
+    });
+  });
+});
+
+describe('DataMerger speed figures', () => {
+  it('weights hourly histograms by cars and estimates v85 and threshold shares', () => {
+    // 5 km/h bins: half the cars at 40-45 km/h, half at 50-55 km/h
+    const histogram = Array(25).fill(0);
+    histogram[8] = 50;
+    histogram[10] = 50;
+    const slow = Array(25).fill(0);
+    slow[2] = 100;
+    const points: TrafficDataPoint[] = [
+      { date: '2025-01-06T08:00:00.000Z', car: 30, car_speed_hist_0to120plus: histogram },
+      { date: '2025-01-06T09:00:00.000Z', car: 0, car_speed_hist_0to120plus: slow },
+      { date: '2025-01-06T10:00:00.000Z', car: 10 },
+    ];
+
+    const [day] = new DataMerger([30, 50, 200]).buildDailyEntries(points);
+
+    expect(day.totals.car).toBe(40);
+    expect(day.totals.car_speed_hist_0to120plus).toEqual(histogram);
+    expect(day.totals.v85).toBeCloseTo(53.5);
+    expect(day.totals.car_speed_above).toEqual({ '30': 100, '50': 50 });
+  });
+
+  it('leaves out speed figures for days without histograms', () => {
+    const [day] = new DataMerger().buildDailyEntries([
+      { date: '2025-01-06T08:00:00.000Z', car: 30 },
+    ]);
+
+    expect(day.totals.v85).toBeUndefined();
+    expect(day.totals.car_speed_above).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DeviceRegistry } from '../../src/services/DeviceRegistry.js';
+
+describe('DeviceRegistry', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'registry-'));
+    filePath = path.join(dir, 'devices.json');
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        version: 1,
+        devices: [
+          { id: '9000000001', name: 'Active', location: 'Karlsruhe' },
+          { id: '9000000002', name: 'Retired', location: 'Karlsruhe', enabled: false },
+        ],
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads only enabled devices for collection', async () => {
+    const registry = new DeviceRegistry(filePath);
+
+    expect((await registry.loadAll()).map((device) => device.id)).toEqual([
+      '9000000001',
+      '9000000002',
+    ]);
+    expect((await registry.loadEnabled()).map((device) => device.id)).toEqual(['9000000001']);
+  });
+
+  it('appends only devices that are not registered yet', async () => {
+    const registry = new DeviceRegistry(filePath);
+
+    const added = await registry.addDevices([
+      { id: '9000000002', name: 'Duplicate', location: 'Karlsruhe' },
+      { id: '9000000003', name: 'New', location: 'Karlsruhe', enabled: false },
+    ]);
+
+    expect(added).toBe(1);
+    const devices = await registry.loadAll();
+    expect(devices.map((device) => device.name)).toEqual(['Active', 'Retired', 'New']);
+  });
+
+  it('fails on a missing or invalid registry', async () => {
+    await expect(new DeviceRegistry(path.join(dir, 'missing.json')).loadAll()).rejects.toThrow(
+      'Device registry not found',
+    );
+
+    await fs.writeFile(filePath, JSON.stringify({ version: 1, devices: [{ id: 'x' }] }));
+    await expect(new DeviceRegistry(filePath).loadAll()).rejects.toThrow(
+      /Invalid device registry .*id must be a numeric segment identifier string/,
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileService, WriteBatch } from '../../src/services/FileService.js';
+import { FILESYSTEM } from '../../src/utils/index.js';
+
+describe('FileService.recoverJournals', () => {
+  let rootDir: string;
+  let journalDir: string;
+  const fileService = new FileService();
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-service-'));
+    journalDir = path.join(rootDir, FILESYSTEM.JOURNAL_DIR);
+    await fs.mkdir(journalDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('keeps temporary files that may belong to a write in progress', async () => {
+    const inFlight = path.join(rootDir, `latest.json.1-2-ab${FILESYSTEM.TEMP_SUFFIX}`);
+    await fs.writeFile(inFlight, '{}');
+
+    await fileService.recoverJournals(journalDir, rootDir);
+
+    await expect(fs.access(inFlight)).resolves.toBeUndefined();
+  });
+
+  it('removes stale temporary files', async () => {
+    const stale = path.join(rootDir, `2025-01.json.1-2-ab${FILESYSTEM.TEMP_SUFFIX}`);
+    await fs.writeFile(stale, '{}');
+    const modified = new Date(Date.now() - FILESYSTEM.STALE_TEMP_MS - 60_000);
+    await fs.utimes(stale, modified, modified);
+
+    await fileService.recoverJournals(journalDir, rootDir);
+
+    await expect(fs.access(stale)).rejects.toThrow();
+  });
+
+  it('completes an interrupted commit', async () => {
+    const target = path.join(rootDir, '2025-01.json');
+    const temp = `${target}.1-2-ab${FILESYSTEM.TEMP_SUFFIX}`;
+    const deleted = path.join(rootDir, '2025-01.json.gz');
+    await fs.writeFile(temp, '{"new":true}');
+    await fs.writeFile(deleted, '');
+    await fs.writeFile(
+      path.join(journalDir, `1-2-ab${FILESYSTEM.JOURNAL_SUFFIX}`),
+      JSON.stringify({
+        createdAt: '2025-01-01T00:00:00.000Z',
+        renames: [{ from: temp, to: target }],
+        deletes: [deleted],
+      }),
+    );
+
+    expect(await fileService.recoverJournals(journalDir, rootDir)).toBe(1);
+    expect(await fs.readFile(target, 'utf-8')).toBe('{"new":true}');
+    await expect(fs.access(deleted)).rejects.toThrow();
+    expect(await fs.readdir(journalDir)).toEqual([]);
+  });
+});
+
+describe('FileService.commit', () => {
+  let rootDir: string;
+  let journalDir: string;
+  const fileService = new FileService();
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-service-'));
+    journalDir = path.join(rootDir, FILESYSTEM.JOURNAL_DIR);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('publishes staged writes and deletes together and removes the journal', async () => {
+    const hourly = path.join(rootDir, 'hourly', '2025-01.json');
+    const daily = path.join(rootDir, 'daily', '2025-01.json');
+    const obsolete = path.join(rootDir, '2025-01.json');
+    await fs.writeFile(obsolete, '{}');
+
+    const batch = new WriteBatch();
+    await fileService.writeJson(hourly, { hourly: true }, 'test', batch);
+    await fileService.writeJson(daily, { daily: true }, 'test', batch);
+    await fileService.deleteFile(obsolete, batch);
+    await expect(fs.access(hourly)).rejects.toThrow();
+
+    await fileService.commit(batch, journalDir, 'test');
+
+    expect(await fileService.readJson(hourly, 'test')).toEqual({ hourly: true });
+    expect(await fileService.readJson(daily, 'test')).toEqual({ daily: true });
+    await expect(fs.access(obsolete)).rejects.toThrow();
+    expect(await fs.readdir(journalDir)).toEqual([]);
+  });
+
+  it('keeps staged writes in memory in dry-run mode', async () => {
+    const dryRun = new FileService(true);
+    const filePath = path.join(rootDir, '2025-01.json');
+    const batch = new WriteBatch();
+    await dryRun.writeJson(filePath, { pending: true }, 'test', batch);
+
+    await dryRun.commit(batch, journalDir, 'test');
+
+    expect(await dryRun.readJson(filePath, 'test')).toEqual({ pending: true });
+    expect(await fs.readdir(rootDir)).toEqual([]);
+  });
+});
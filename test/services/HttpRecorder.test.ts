@@ -0,0 +1,175 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FixtureNotFoundError, HttpRecorder } from '../../src/services/HttpRecorder.js';
+import { TelraamClient } from '../../src/telraamClient.js';
+import type { HttpFixture } from '../../src/types.js';
+
+const API_KEY = 'secret-api-key';
+const DEVICE_ID = '9000000001';
+
+describe('HttpRecorder', () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  async function readFixtures(): Promise<HttpFixture[]> {
+    const files = await fs.readdir(fixturesDir);
+    return Promise.all(
+      files.map(async (file) =>
+        JSON.parse(await fs.readFile(path.join(fixturesDir, file), 'utf8')),
+      ),
+    );
+  }
+
+  it('records responses without the API key', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify({ camera: [{ instance_id: 1, note: `key ${API_KEY}` }] }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'session=1' },
+          }),
+      ),
+    );
+    const recorder = new HttpRecorder({ mode: 'record', fixturesDir, apiKey: API_KEY });
+    const client = new TelraamClient('https://telraam.test', API_KEY, { recorder });
+
+    await client.fetchInstances(DEVICE_ID);
+
+    const [fixture] = await readFixtures();
+    expect(JSON.stringify(fixture)).not.toContain(API_KEY);
+    expect(fixture.request).toEqual({
+      method: 'GET',
+      url: `https://telraam.test/v1/instances/segment/${DEVICE_ID}`,
+    });
+    expect(fixture.response.headers).toEqual({ 'content-type': 'application/json' });
+    expect(fixture.response.body).toEqual({
+      camera: [{ instance_id: 1, note: 'key <TELRAAM_API_KEY>' }],
+    });
+  });
+
+  it('replays recorded responses without network access or API key', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify({ camera: [{ instance_id: 1 }] }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          }),
+      ),
+    );
+    const recording = new TelraamClient('https://telraam.test', API_KEY, {
+      recorder: new HttpRecorder({ mode: 'record', fixturesDir, apiKey: API_KEY }),
+    });
+    const recorded = await recording.fetchInstances(DEVICE_ID);
+
+    const fetchSpy = vi.fn();
+    vi.stubGlobal('fetch', fetchSpy);
+    const replaying = new TelraamClient('https://telraam.test', '', {
+      recorder: new HttpRecorder({ mode: 'replay', fixturesDir }),
+    });
+
+    expect(await replaying.fetchInstances(DEVICE_ID)).toEqual(recorded);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('replays a typical-traffic baseline recorded on another day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-02T08:00:00Z'));
+    const report = [{ day_of_week: 'monday', time: '08:00', avg_car: 120 }];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify({ report }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          }),
+      ),
+    );
+    const recording = new TelraamClient('https://telraam.test', API_KEY, {
+      recorder: new HttpRecorder({ mode: 'record', fixturesDir, apiKey: API_KEY }),
+    });
+    await recording.fetchTypicalTraffic(DEVICE_ID, 'month');
+
+    vi.setSystemTime(new Date('2025-06-09T17:30:00Z'));
+    const fetchSpy = vi.fn();
+    vi.stubGlobal('fetch', fetchSpy);
+    const replaying = new TelraamClient('https://telraam.test', '', {
+      recorder: new HttpRecorder({ mode: 'replay', fixturesDir }),
+    });
+
+    expect(await replaying.fetchTypicalTraffic(DEVICE_ID, 'month')).toEqual(report);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    const [fixture] = await readFixtures();
+    expect(fixture.request.body).toMatchObject({ time_end: '2025-06-02 08:00:00Z' });
+    await expect(replaying.fetchTypicalTraffic('9000000002', 'month')).rejects.toBeInstanceOf(
+      FixtureNotFoundError,
+    );
+  });
+
+  it('replays recorded error responses', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        async () =>
+          new Response(JSON.stringify({ message: 'Forbidden' }), {
+            status: 403,
+            headers: { 'Content-Type': 'application/json' },
+          }),
+      ),
+    );
+    const recording = new TelraamClient('https://telraam.test', API_KEY, {
+      recorder: new HttpRecorder({ mode: 'record', fixturesDir, apiKey: API_KEY }),
+    });
+    await expect(recording.fetchInstances(DEVICE_ID)).rejects.toThrow('Forbidden');
+
+    const replaying = new TelraamClient('https://telraam.test', '', {
+      recorder: new HttpRecorder({ mode: 'replay', fixturesDir }),
+    });
+
+    await expect(replaying.fetchInstances(DEVICE_ID)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('fails a request that was never recorded without retrying', async () => {
+    const client = new TelraamClient('https://telraam.test', '', {
+      recorder: new HttpRecorder({ mode: 'replay', fixturesDir }),
+    });
+
+    await expect(client.fetchInstances(DEVICE_ID)).rejects.toBeInstanceOf(FixtureNotFoundError);
+    expect(client.getUsage()).toEqual({ requests: 1, retries: 0, failures: 1 });
+  });
+
+  it('records and replays requests outside the typed fetcher', async () => {
+    const fetchFn = vi.fn(async () => new Response('id,name\n1,test\n', { status: 200 }));
+    const url = `https://downloads.telraam.test/export.csv?key=${API_KEY}`;
+    await new HttpRecorder({ mode: 'record', fixturesDir, apiKey: API_KEY }).wrapFetch(fetchFn)(
+      url,
+    );
+
+    const [fixture] = await readFixtures();
+    expect(fixture.request.url).toBe(
+      'https://downloads.telraam.test/export.csv?key=<TELRAAM_API_KEY>',
+    );
+
+    const replayed = await new HttpRecorder({
+      mode: 'replay',
+      fixturesDir,
+      apiKey: API_KEY,
+    }).wrapFetch(fetchFn)(url);
+    expect(await replayed.text()).toBe('id,name\n1,test\n');
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+});
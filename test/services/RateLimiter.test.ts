@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../../src/services/RateLimiter.js';
+import { RunCancelledError } from '../../src/utils/index.js';
+
+describe('RateLimiter', () => {
+  it('lets a full bucket through without waiting', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 5, requestsPerMinute: 0 });
+
+    const started = Date.now();
+    for (let i = 0; i < 5; i++) await limiter.acquire();
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('spaces requests beyond the budget at the refill rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, requestsPerMinute: 0 });
+
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 25 }, () => limiter.acquire()));
+
+    // 20 tokens up front, the other 5 refill at one per 50ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+  });
+
+  it('serves callers in request order', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 50, requestsPerMinute: 0 });
+    const order: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 55 }, (_, index) => limiter.acquire().then(() => order.push(index))),
+    );
+
+    expect(order).toEqual(Array.from({ length: 55 }, (_, index) => index));
+  });
+
+  it('applies no limit when both budgets are disabled', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, requestsPerMinute: 0 });
+
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 100 }, () => limiter.acquire()));
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('stops waiting for a token when the run is cancelled', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, requestsPerMinute: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire(controller.signal);
+    const started = Date.now();
+    const waiting = limiter.acquire(controller.signal);
+    setTimeout(() => controller.abort(new RunCancelledError('Run deadline reached')), 20);
+
+    await expect(waiting).rejects.toBeInstanceOf(RunCancelledError);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  it('fails right away once the run is cancelled', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, requestsPerMinute: 0 });
+    const controller = new AbortController();
+    controller.abort(new RunCancelledError('Run cancelled by SIGTERM'));
+
+    await expect(limiter.acquire(controller.signal)).rejects.toBeInstanceOf(RunCancelledError);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { createRetryStrategy } from '../../src/services/RetryStrategy.js';
+import { RunCancelledError } from '../../src/utils/index.js';
+
+describe('RetryStrategy', () => {
+  it('stops waiting for the next attempt when the run is cancelled', async () => {
+    const strategy = createRetryStrategy({
+      maxAttempts: 3,
+      baseDelayMs: 120_000,
+      shouldRetry: () => true,
+    });
+    const controller = new AbortController();
+    let attempts = 0;
+
+    const started = Date.now();
+    const result = strategy.execute(
+      async () => {
+        attempts++;
+        throw new Error('unavailable');
+      },
+      'test',
+      controller.signal,
+    );
+    setTimeout(() => controller.abort(new RunCancelledError('Run cancelled by SIGINT')), 20);
+
+    await expect(result).rejects.toBeInstanceOf(RunCancelledError);
+    expect(attempts).toBe(1);
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  it('retries after the backoff without a signal', async () => {
+    const strategy = createRetryStrategy({ maxAttempts: 3, baseDelayMs: 1 });
+    let attempts = 0;
+
+    const result = await strategy.execute(async () => {
+      if (++attempts < 3) throw Object.assign(new Error('unavailable'), { statusCode: 503 });
+      return 'ok';
+    }, 'test');
+
+    expect(result).toBe('ok');
+    expect(attempts).toBe(3);
+    expect(strategy.getStats().retries).toBe(2);
+  });
+
+  it('stops retrying once the budget of all operations is used up', async () => {
+    const strategy = createRetryStrategy({
+      maxAttempts: 3,
+      baseDelayMs: 1,
+      maxTotalRetries: 3,
+      shouldRetry: (_error, attempt) => attempt < 3,
+    });
+    let attempts = 0;
+    const failing = async () => {
+      attempts++;
+      throw new Error('unavailable');
+    };
+
+    await expect(strategy.execute(failing, 'first')).rejects.toThrow('unavailable');
+    await expect(strategy.execute(failing, 'second')).rejects.toThrow('unavailable');
+
+    expect(attempts).toBe(5);
+    expect(strategy.getStats()).toMatchObject({ retries: 3, budgetExhausted: 1 });
+  });
+
+  it('restores the full budget after a reset', async () => {
+    const strategy = createRetryStrategy({
+      maxAttempts: 2,
+      baseDelayMs: 1,
+      maxTotalRetries: 1,
+      shouldRetry: (_error, attempt) => attempt < 2,
+    });
+    const failing = async () => {
+      throw new Error('unavailable');
+    };
+
+    await expect(strategy.execute(failing, 'first')).rejects.toThrow('unavailable');
+    await expect(strategy.execute(failing, 'second')).rejects.toThrow('unavailable');
+    expect(strategy.getStats()).toMatchObject({ retries: 1, budgetExhausted: 1 });
+
+    strategy.resetStats();
+    await expect(strategy.execute(failing, 'third')).rejects.toThrow('unavailable');
+    expect(strategy.getStats()).toMatchObject({ retries: 1, budgetExhausted: 0 });
+  });
+
+  it('waits for a server-requested delay instead of the backoff', async () => {
+    const strategy = createRetryStrategy({
+      maxAttempts: 3,
+      baseDelayMs: 120_000,
+      maxRetryAfterMs: 1_000,
+      shouldRetry: () => true,
+      getRetryAfterMs: () => 10,
+    });
+    let attempts = 0;
+
+    const result = await strategy.execute(async () => {
+      if (++attempts < 2) throw new Error('rate limited');
+      return 'ok';
+    }, 'test');
+
+    expect(result).toBe('ok');
+    expect(strategy.getStats()).toMatchObject({ retries: 1, retryAfterWaits: 1 });
+  });
+
+  it('fails instead of waiting longer than the Retry-After limit', async () => {
+    const strategy = createRetryStrategy({
+      maxAttempts: 3,
+      maxRetryAfterMs: 120_000,
+      shouldRetry: () => true,
+      getRetryAfterMs: () => 300_000,
+    });
+
+    await expect(
+      strategy.execute(async () => {
+        throw new Error('rate limited');
+      }, 'test'),
+    ).rejects.toThrow('rate limited');
+    expect(strategy.getStats()).toMatchObject({ retries: 0, retryAfterTooLong: 1 });
+  });
+});
@@ -0,0 +1,353 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Storage } from '../../src/services/index.js';
+import type { QuarterHourDataPoint, RunReport, TrafficDataPoint } from '../../src/types.js';
+import { createLogger, type Logger } from '../../src/utils/index.js';
+
+const DEVICE_ID = '9000000001';
+
+/**
+ * Run report ending at `endTime` with one device that succeeded or failed
+ */
+function runReport(endTime: string, success: boolean): RunReport {
+  return {
+    command: 'collect',
+    startTime: endTime,
+    endTime,
+    success,
+    devices: [
+      {
+        deviceId: DEVICE_ID,
+        success,
+        pointsFetched: 0,
+        pointsAdded: 0,
+        pointsReplaced: 0,
+        requests: 1,
+        retries: 0,
+        failures: success ? 0 : 1,
+        error: success ? undefined : 'HTTP 500',
+      },
+    ],
+    totals: {
+      pointsFetched: 0,
+      pointsAdded: 0,
+      pointsReplaced: 0,
+      requests: 1,
+      retries: 0,
+      failures: success ? 0 : 1,
+      errors: success ? 0 : 1,
+    },
+  };
+}
+
+describe('Storage dry run', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('previews added, replaced and unchanged points and shifted days without writing', async () => {
+    const stored: TrafficDataPoint[] = [
+      { date: '2025-01-06T08:00:00.000Z', car: 10 },
+      { date: '2025-01-06T09:00:00.000Z', car: 20 },
+    ];
+    await new Storage(dataDir).saveDeviceData(DEVICE_ID, stored);
+    const before = await new Storage(dataDir).loadMonthlyData(DEVICE_ID, '2025-01');
+
+    const storage = new Storage(dataDir, { dryRun: true });
+    await storage.saveDeviceData(DEVICE_ID, [
+      { date: '2025-01-06T08:00:00.000Z', car: 10 },
+      { date: '2025-01-06T09:00:00.000Z', car: 25 },
+      { date: '2025-01-07T08:00:00.000Z', car: 5 },
+    ]);
+
+    expect(storage.getMonthChanges()).toEqual([
+      {
+        deviceId: DEVICE_ID,
+        month: '2025-01',
+        added: 1,
+        replaced: 1,
+        unchanged: 1,
+        shiftedDays: ['2025-01-06', '2025-01-07'],
+      },
+    ]);
+    expect(await new Storage(dataDir).loadMonthlyData(DEVICE_ID, '2025-01')).toEqual(before);
+  });
+
+  it('reads its own pending writes back within the run', async () => {
+    const storage = new Storage(dataDir, { dryRun: true });
+    await storage.saveDeviceData(DEVICE_ID, [{ date: '2025-01-06T08:00:00.000Z', car: 10 }]);
+    await storage.saveDeviceData(DEVICE_ID, [{ date: '2025-01-06T08:00:00.000Z', car: 10 }]);
+
+    expect(storage.getMonthChanges()[0]).toMatchObject({ added: 1, unchanged: 1 });
+    await expect(fs.readdir(dataDir)).resolves.toEqual([]);
+  });
+
+  it('logs what it would save instead of what it saved', async () => {
+    // Every namespaced logger writes through the shared base logger
+    const baseLogger = Object.getPrototypeOf(createLogger('test')) as Logger;
+    const write = vi.spyOn(baseLogger, 'write');
+
+    await new Storage(dataDir, { dryRun: true }).saveDeviceData(DEVICE_ID, [
+      { date: '2025-01-06T08:00:00.000Z', car: 10 },
+    ]);
+
+    const messages = write.mock.calls.map(([info]) => String(info.message));
+    expect(messages).toContain(`Would save 1 data points for device ${DEVICE_ID}, month 2025-01`);
+    expect(messages).toContain(
+      `Would save 1 daily aggregates for device ${DEVICE_ID}, month 2025-01`,
+    );
+    expect(messages.filter((message) => message.startsWith('Saved'))).toEqual([]);
+    write.mockRestore();
+  });
+});
+
+describe('Storage run history', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps the newest reports and device status beyond the retention', async () => {
+    const storage = new Storage(dataDir);
+    await storage.appendRunReport(runReport('2025-01-01T00:00:00.000Z', true), 2);
+    await storage.appendRunReport(runReport('2025-01-02T00:00:00.000Z', false), 2);
+    await storage.appendRunReport(runReport('2025-01-03T00:00:00.000Z', false), 2);
+
+    const history = await new Storage(dataDir).loadRunHistory();
+
+    expect(history.runs.map((run) => run.endTime)).toEqual([
+      '2025-01-03T00:00:00.000Z',
+      '2025-01-02T00:00:00.000Z',
+    ]);
+    expect(history.devices[DEVICE_ID]).toEqual({
+      lastSuccess: '2025-01-01T00:00:00.000Z',
+      lastFailure: '2025-01-03T00:00:00.000Z',
+      lastError: 'HTTP 500',
+      consecutiveFailures: 2,
+    });
+  });
+
+  it('resets consecutive failures after a success', async () => {
+    const storage = new Storage(dataDir);
+    await storage.appendRunReport(runReport('2025-01-01T00:00:00.000Z', false), 5);
+    await storage.appendRunReport(runReport('2025-01-02T00:00:00.000Z', true), 5);
+
+    const status = (await storage.loadRunHistory()).devices[DEVICE_ID];
+    expect(status.consecutiveFailures).toBe(0);
+    expect(status.lastSuccess).toBe('2025-01-02T00:00:00.000Z');
+  });
+});
+
+describe('Storage quarter-hour tier', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('rolls an hour up once its quarters complete across runs', async () => {
+    const quarters = [0, 15, 30, 45].map(
+      (minute) =>
+        ({
+          date: new Date(Date.UTC(2025, 0, 6, 8, minute)).toISOString(),
+          interval: 'quarterly',
+          car: 5,
+        }) as QuarterHourDataPoint,
+    );
+    const storage = new Storage(dataDir);
+
+    expect(await storage.saveQuarterHourData(DEVICE_ID, quarters.slice(0, 2))).toEqual([]);
+    const hourly = await storage.saveQuarterHourData(DEVICE_ID, quarters.slice(2));
+
+    expect(hourly).toHaveLength(1);
+    expect((await storage.loadQuarterlyData(DEVICE_ID, '2025-01'))?.data).toHaveLength(4);
+    expect((await storage.loadMonthlyData(DEVICE_ID, '2025-01'))?.data).toMatchObject([
+      { date: '2025-01-06T08:00:00.000Z', car: 20 },
+    ]);
+  });
+});
+
+describe('Storage compression', () => {
+  let dataDir: string;
+  const point: TrafficDataPoint = { date: '2025-01-06T08:00:00.000Z', car: 10 };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function listMonthFiles(level: 'hourly' | 'daily'): Promise<string[]> {
+    return (await fs.readdir(path.join(dataDir, `device_${DEVICE_ID}`, level))).sort();
+  }
+
+  it('writes only gzip files and reads them back', async () => {
+    const storage = new Storage(dataDir, { compression: 'gzip' });
+    await storage.saveDeviceData(DEVICE_ID, [point]);
+
+    expect(await listMonthFiles('hourly')).toEqual(['2025-01.json.gz']);
+    expect(await listMonthFiles('daily')).toEqual(['2025-01.json.gz']);
+    expect((await new Storage(dataDir).loadMonthlyData(DEVICE_ID, '2025-01'))?.data).toEqual([
+      point,
+    ]);
+  });
+
+  it('writes plain and gzip files side by side', async () => {
+    await new Storage(dataDir, { compression: 'both' }).saveDeviceData(DEVICE_ID, [point]);
+
+    expect(await listMonthFiles('hourly')).toEqual(['2025-01.json', '2025-01.json.gz']);
+  });
+
+  it('removes the gzip files of a gzip tree when rewriting it as plain JSON', async () => {
+    await new Storage(dataDir, { compression: 'both' }).saveDeviceData(DEVICE_ID, [point]);
+    await new Storage(dataDir, { compression: 'gzip' }).saveDeviceData(DEVICE_ID, [point]);
+
+    const update: TrafficDataPoint = { date: '2025-01-06T09:00:00.000Z', car: 20 };
+    await new Storage(dataDir).saveDeviceData(DEVICE_ID, [update]);
+
+    expect(await listMonthFiles('hourly')).toEqual(['2025-01.json']);
+    expect(await listMonthFiles('daily')).toEqual(['2025-01.json']);
+    const reread = new Storage(dataDir, { compression: 'gzip' });
+    expect((await reread.loadMonthlyData(DEVICE_ID, '2025-01'))?.data).toEqual([point, update]);
+    expect((await reread.loadDailyData(DEVICE_ID, '2025-01'))?.days[0].totals.car).toBe(30);
+  });
+
+  it('migrates month files to gzip and back to plain JSON', async () => {
+    await new Storage(dataDir).saveDeviceData(DEVICE_ID, [point]);
+
+    expect(await new Storage(dataDir, { compression: 'gzip' }).migrateMonthFiles(DEVICE_ID)).toBe(
+      2,
+    );
+    expect(await listMonthFiles('hourly')).toEqual(['2025-01.json.gz']);
+
+    await new Storage(dataDir).migrateMonthFiles(DEVICE_ID);
+    expect(await listMonthFiles('hourly')).toEqual(['2025-01.json']);
+    expect(await listMonthFiles('daily')).toEqual(['2025-01.json']);
+    expect((await new Storage(dataDir).loadMonthlyData(DEVICE_ID, '2025-01'))?.data).toEqual([
+      point,
+    ]);
+  });
+});
+
+describe('Storage aggregate tiers', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('updates the weekly, monthly and yearly periods of the saved days', async () => {
+    const storage = new Storage(dataDir);
+    await storage.saveDeviceData(DEVICE_ID, [{ date: '2024-12-31T08:00:00.000Z', car: 10 }]);
+    await storage.saveDeviceData(DEVICE_ID, [{ date: '2025-01-02T08:00:00.000Z', car: 5 }]);
+
+    const weekly = await storage.loadAggregateData(DEVICE_ID, 'weekly', '2025');
+    expect(weekly?.periods.map(({ period, totals }) => [period, totals.car])).toEqual([
+      ['2025-W01', 15],
+    ]);
+    const monthly = await storage.loadAggregateData(DEVICE_ID, 'monthly', '2024');
+    expect(monthly?.periods.map(({ period, totals }) => [period, totals.car])).toEqual([
+      ['2024-12', 10],
+    ]);
+    const yearly = await storage.loadAggregateData(DEVICE_ID, 'yearly', '2025');
+    expect(yearly?.periods.map(({ period, totals }) => [period, totals.car])).toEqual([
+      ['2025', 5],
+    ]);
+  });
+
+  it('removes the aggregates of years without daily data on rebuild', async () => {
+    const storage = new Storage(dataDir);
+    await storage.saveDeviceData(DEVICE_ID, [
+      { date: '2024-06-03T08:00:00.000Z', car: 10 },
+      { date: '2025-06-02T08:00:00.000Z', car: 5 },
+    ]);
+    await fs.rm(path.join(dataDir, `device_${DEVICE_ID}`, 'daily', '2024-06.json'));
+
+    await storage.rebuildAggregateData(DEVICE_ID);
+
+    for (const tier of ['weekly', 'monthly', 'yearly'] as const) {
+      expect(await fs.readdir(path.join(dataDir, `device_${DEVICE_ID}`, tier))).toEqual([
+        '2025.json',
+      ]);
+    }
+    expect(await storage.loadAggregateData(DEVICE_ID, 'yearly', '2024')).toBeNull();
+  });
+
+  it('writes aggregates in the configured compression', async () => {
+    const storage = new Storage(dataDir, { compression: 'gzip' });
+    await storage.saveDeviceData(DEVICE_ID, [{ date: '2025-06-02T08:00:00.000Z', car: 5 }]);
+    const monthlyDir = path.join(dataDir, `device_${DEVICE_ID}`, 'monthly');
+    expect(await fs.readdir(monthlyDir)).toEqual(['2025.json.gz']);
+
+    await storage.rebuildAggregateData(DEVICE_ID);
+
+    expect(await fs.readdir(monthlyDir)).toEqual(['2025.json.gz']);
+    const monthly = await storage.loadAggregateData(DEVICE_ID, 'monthly', '2025');
+    expect(monthly?.periods.map(({ period, totals }) => [period, totals.car])).toEqual([
+      ['2025-06', 5],
+    ]);
+  });
+});
+
+describe('Storage local days', () => {
+  let dataDir: string;
+  // 23:00 UTC is already the next day in Berlin and still the same day in New York
+  const points: TrafficDataPoint[] = [
+    { date: '2025-01-06T23:00:00.000Z', car: 10, timezone: 'Europe/Berlin' },
+  ];
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("cuts days in the device's registry time zone before that of the points", async () => {
+    const storage = new Storage(dataDir, {
+      devices: [
+        { id: DEVICE_ID, name: 'Test street', location: 'Karlsruhe', timezone: 'America/New_York' },
+      ],
+    });
+    await storage.saveDeviceData(DEVICE_ID, points);
+
+    const daily = await storage.loadDailyData(DEVICE_ID, '2025-01');
+    expect(daily?.timezone).toBe('America/New_York');
+    expect(daily?.days.map((day) => day.date)).toEqual(['2025-01-06']);
+  });
+
+  it("falls back to the points' time zone without a registry time zone", async () => {
+    const storage = new Storage(dataDir, {
+      devices: [{ id: DEVICE_ID, name: 'Test street', location: 'Karlsruhe' }],
+    });
+    await storage.saveDeviceData(DEVICE_ID, points);
+
+    const daily = await storage.loadDailyData(DEVICE_ID, '2025-01');
+    expect(daily?.timezone).toBe('Europe/Berlin');
+    expect(daily?.days.map((day) => day.date)).toEqual(['2025-01-07']);
+  });
+});
@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CountFileSource } from '../../src/sources/CountFileSource.js';
+import type { DeviceConfig } from '../../src/types.js';
+
+const DEVICE: DeviceConfig = { id: '9000000001', name: 'Loop street', location: 'Karlsruhe' };
+const RANGE = {
+  start: new Date('2024-06-01T00:00:00Z'),
+  end: new Date('2024-06-02T00:00:00Z'),
+};
+
+describe('CountFileSource', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'counts-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeFile(name: string, content: string): Promise<string> {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, content);
+    return file;
+  }
+
+  it('sums quarter-hour loop records into hours with their covered share as uptime', async () => {
+    const file = await writeFile(
+      'loop.csv',
+      'start,car,bike\n' +
+        '2024-06-01T08:00:00Z,10,1\n' +
+        '2024-06-01T08:15:00Z,20,2\n' +
+        '2024-06-01T08:30:00Z,30,3\n' +
+        '2024-06-01T08:45:00Z,40,4\n' +
+        '2024-06-01T09:00:00Z,5,\n',
+    );
+
+    const points = await new CountFileSource({
+      type: 'inductive-loop',
+      path: file,
+    }).fetchHourlyData(DEVICE, RANGE);
+
+    expect(points).toEqual([
+      { date: '2024-06-01T08:00:00.000Z', interval: 'hourly', uptime: 1, car: 100, bike: 10 },
+      { date: '2024-06-01T09:00:00.000Z', interval: 'hourly', uptime: 0.25, car: 5 },
+    ]);
+  });
+
+  it('spreads a record over the hours it overlaps in proportion', async () => {
+    const file = await writeFile(
+      'manual.json',
+      JSON.stringify([{ start: '2024-06-01T08:30:00Z', end: '2024-06-01T10:00:00Z', car: 90 }]),
+    );
+
+    const points = await new CountFileSource({ type: 'manual', path: file }).fetchHourlyData(
+      DEVICE,
+      RANGE,
+    );
+
+    expect(points.map(({ date, car, uptime }) => ({ date, car, uptime }))).toEqual([
+      { date: '2024-06-01T08:00:00.000Z', car: 30, uptime: 0.5 },
+      { date: '2024-06-01T09:00:00.000Z', car: 60, uptime: 1 },
+    ]);
+  });
+
+  it('reads local timestamps in the device time zone and semicolon CSVs', async () => {
+    const file = await writeFile('manual.csv', 'start;minutes;car\n2024-06-01 10:00;60;12\n');
+
+    const points = await new CountFileSource({ type: 'manual', path: file }).fetchHourlyData(
+      { ...DEVICE, timezone: 'Europe/Berlin' },
+      RANGE,
+    );
+
+    expect(points).toMatchObject([
+      { date: '2024-06-01T08:00:00.000Z', car: 12, timezone: 'Europe/Berlin' },
+    ]);
+  });
+
+  it('skips invalid records and reads all count files of a directory', async () => {
+    await writeFile('a.csv', 'start,car\n2024-06-01T08:00:00Z,-3\nnot a date,4\n');
+    await fs.mkdir(path.join(dir, 'june'));
+    await writeFile(
+      'june/b.json',
+      JSON.stringify({ records: [{ start: '2024-06-01T12:00:00Z', car: 7 }] }),
+    );
+    const source = new CountFileSource({ type: 'manual', path: dir });
+
+    const points = await source.fetchHourlyData(DEVICE, RANGE);
+
+    expect(points.map((point) => [point.date, point.car])).toEqual([
+      ['2024-06-01T12:00:00.000Z', 7],
+    ]);
+    expect(await source.findFirstDataPoint(DEVICE)).toEqual(new Date('2024-06-01T12:00:00Z'));
+  });
+
+  it('fails for a missing count file', async () => {
+    const source = new CountFileSource({ type: 'manual', path: path.join(dir, 'missing.csv') });
+
+    await expect(source.fetchHourlyData(DEVICE, RANGE)).rejects.toThrow('not found');
+  });
+});
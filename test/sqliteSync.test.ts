@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SqliteStore, Storage } from '../src/services/index.js';
+import { SqliteSync } from '../src/sqliteSync.js';
+import type { DeviceMetadata, RunReport, TrafficDataPoint } from '../src/types.js';
+
+const DEVICE: DeviceMetadata = {
+  id: '9000000001',
+  name: 'Test street',
+  location: 'Karlsruhe',
+  lastUpdated: '2025-01-07T00:00:00.000Z',
+  totalDataPoints: 2,
+};
+
+const POINTS: TrafficDataPoint[] = [
+  { date: '2025-01-06T08:00:00.000Z', car: 10, uptime: 0.9 },
+  { date: '2025-01-06T09:00:00.000Z', car: 20, uptime: 0.9 },
+];
+
+const RUN: RunReport = {
+  command: 'collect',
+  startTime: '2025-01-07T00:00:00.000Z',
+  endTime: '2025-01-07T00:01:00.000Z',
+  success: true,
+  devices: [],
+  totals: {
+    pointsFetched: 2,
+    pointsAdded: 2,
+    pointsReplaced: 0,
+    requests: 1,
+    retries: 0,
+    failures: 0,
+    errors: 0,
+  },
+};
+
+describe('SQLite backend', () => {
+  let dataDir: string;
+  let databasePath: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-'));
+    databasePath = path.join(dataDir, 'telraam.sqlite');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function countRows(): Promise<Record<string, number>> {
+    const store = await SqliteStore.open(databasePath);
+    try {
+      return store.countRows();
+    } finally {
+      store.close();
+    }
+  }
+
+  it('mirrors writes into the database and saves it on close', async () => {
+    const storage = new Storage(dataDir);
+    await storage.openDatabase(databasePath);
+
+    await storage.saveDeviceMetadata([DEVICE]);
+    await storage.saveDeviceData(DEVICE.id, POINTS);
+    await storage.appendRunReport(RUN, 10);
+    await storage.close();
+
+    expect(await countRows()).toEqual({ devices: 1, hourly: 2, daily: 1, runs: 1 });
+  });
+
+  it('writes no database file in a dry run', async () => {
+    const storage = new Storage(dataDir, { dryRun: true });
+    await storage.openDatabase(databasePath);
+
+    await storage.saveDeviceData(DEVICE.id, POINTS);
+    await storage.close();
+
+    await expect(fs.access(databasePath)).rejects.toThrow();
+  });
+
+  it('syncs data written without the database and replaces earlier contents', async () => {
+    const storage = new Storage(dataDir);
+    await storage.saveDeviceMetadata([DEVICE]);
+    await storage.saveDeviceData(DEVICE.id, POINTS);
+    await storage.saveDeviceData('9000000002', [{ date: '2025-02-01T08:00:00.000Z', car: 5 }]);
+    await storage.appendRunReport(RUN, 10);
+
+    for (let pass = 0; pass < 2; pass++) {
+      const store = await SqliteStore.open(databasePath);
+      const report = await new SqliteSync(storage, store).sync();
+      store.close();
+
+      expect(report).toEqual({ devices: 1, hourly: 3, daily: 2, runs: 1 });
+    }
+    expect(await countRows()).toEqual({ devices: 1, hourly: 3, daily: 2, runs: 1 });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { buildDailyTable, buildHourlyTable, encodeCsv, encodeParquet } from '../src/tabular.js';
+
+const DEVICE_ID = '9000000001';
+
+describe('buildHourlyTable', () => {
+  it('gives each speed histogram bin its own column', () => {
+    const histogram = [1, 2, 3, 4, 5, 6, 7, 8];
+    const table = buildHourlyTable([
+      {
+        deviceId: DEVICE_ID,
+        record: { date: '2025-01-06T08:00:00.000Z', car: 10, car_speed_hist_0to70plus: histogram },
+      },
+    ]);
+    const names = table.columns.map((column) => column.name);
+
+    expect(names.slice(0, 3)).toEqual(['device_id', 'date', 'interval']);
+    const first = names.indexOf('car_speed_hist_0to70plus_0_10');
+    expect(names.slice(first, first + 8)).toEqual([
+      'car_speed_hist_0to70plus_0_10',
+      'car_speed_hist_0to70plus_10_20',
+      'car_speed_hist_0to70plus_20_30',
+      'car_speed_hist_0to70plus_30_40',
+      'car_speed_hist_0to70plus_40_50',
+      'car_speed_hist_0to70plus_50_60',
+      'car_speed_hist_0to70plus_60_70',
+      'car_speed_hist_0to70plus_70plus',
+    ]);
+    expect(table.rows[0].slice(first, first + 8)).toEqual(histogram);
+    expect(names.at(-1)).toBe('car_speed_hist_0to120plus_120plus');
+  });
+
+  it('writes missing and null counts as empty CSV fields', () => {
+    const csv = encodeCsv(
+      buildHourlyTable([
+        { deviceId: DEVICE_ID, record: { date: '2025-01-06T08:00:00.000Z', car: 10, night: null } },
+      ]),
+    );
+    const [header, row] = csv.trimEnd().split('\n');
+    const cells = Object.fromEntries(header.split(',').map((name, i) => [name, row.split(',')[i]]));
+
+    expect(cells).toMatchObject({ device_id: DEVICE_ID, car: '10', night: '', bike: '' });
+  });
+});
+
+describe('buildDailyTable', () => {
+  it('flattens totals and the baseline deviation', () => {
+    const table = buildDailyTable([
+      {
+        deviceId: DEVICE_ID,
+        record: {
+          date: '2025-01-06',
+          totals: { hours: 24, car: 480 },
+          deviation: {
+            baselinePeriodEnd: '2024-12-31',
+            hours: 24,
+            expected: { car: 400 },
+            relative: { car: 0.2 },
+          },
+        },
+      },
+    ]);
+    const row = Object.fromEntries(
+      table.columns.map((column, i) => [column.name, table.rows[0][i]]),
+    );
+
+    expect(row).toMatchObject({
+      date: '2025-01-06',
+      hours: 24,
+      car: 480,
+      baseline_period_end: '2024-12-31',
+      expected_car: 400,
+      relative_car: 0.2,
+      expected_bike: null,
+    });
+  });
+
+  it('adds the daily v85 and speed histogram', () => {
+    const histogram = Array.from({ length: 25 }, (_, bin) => bin);
+    const table = buildDailyTable([
+      {
+        deviceId: DEVICE_ID,
+        record: {
+          date: '2025-01-06',
+          totals: { hours: 24, car: 300, v85: 53.5, car_speed_hist_0to120plus: histogram },
+        },
+      },
+    ]);
+    const row = Object.fromEntries(
+      table.columns.map((column, i) => [column.name, table.rows[0][i]]),
+    );
+
+    expect(row).toMatchObject({
+      v85: 53.5,
+      car_speed_hist_0to120plus_45_50: 9,
+      car_speed_hist_0to120plus_120plus: 24,
+      car_speed_hist_0to70plus_0_10: null,
+    });
+  });
+});
+
+describe('encodeParquet', () => {
+  it('writes a Parquet file', () => {
+    const bytes = encodeParquet(
+      buildHourlyTable([
+        { deviceId: DEVICE_ID, record: { date: '2025-01-06T08:00:00.000Z', instance_id: 7 } },
+      ]),
+    );
+    const magic = (offset: number) => Buffer.from(bytes.slice(offset, offset + 4)).toString();
+
+    expect(magic(0)).toBe('PAR1');
+    expect(magic(bytes.length - 4)).toBe('PAR1');
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TelraamClient } from '../src/telraamClient.js';
+
+const DEVICE_ID = '9000000001';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Stub fetch with a sequence of responses and count the requests
+ */
+function stubFetch(responses: (() => Response)[]) {
+  const calls = { count: 0 };
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => responses[Math.min(calls.count++, responses.length - 1)]()),
+  );
+  return calls;
+}
+
+describe('TelraamClient retries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('waits for the Retry-After seconds of a 429 before retrying', async () => {
+    const calls = stubFetch([
+      () => jsonResponse(429, { message: 'Too many requests' }, { 'Retry-After': '0' }),
+      () => jsonResponse(200, { camera: [{ instance_id: 1 }] }),
+    ]);
+    const client = new TelraamClient('https://telraam.test', 'key');
+
+    const instances = await client.fetchInstances(DEVICE_ID);
+
+    expect(instances).toHaveLength(1);
+    expect(calls.count).toBe(2);
+    expect(client.getRetryDecisions()).toMatchObject({ retryAfterWaits: 1, retryAfterTooLong: 0 });
+  });
+
+  it('accepts a Retry-After HTTP date', async () => {
+    stubFetch([
+      () => jsonResponse(503, {}, { 'Retry-After': new Date(Date.now() - 1_000).toUTCString() }),
+      () => jsonResponse(200, { camera: [] }),
+    ]);
+    const client = new TelraamClient('https://telraam.test', 'key');
+
+    await client.fetchInstances(DEVICE_ID);
+
+    expect(client.getRetryDecisions().retryAfterWaits).toBe(1);
+  });
+
+  it('fails without retrying when Retry-After asks for too long a wait', async () => {
+    const calls = stubFetch([
+      () => jsonResponse(429, { message: 'Too many requests' }, { 'Retry-After': '300' }),
+    ]);
+    const client = new TelraamClient('https://telraam.test', 'key');
+
+    await expect(client.fetchInstances(DEVICE_ID)).rejects.toMatchObject({
+      statusCode: 429,
+      retryAfterMs: 300_000,
+    });
+    expect(calls.count).toBe(1);
+    expect(client.getRetryDecisions().retryAfterTooLong).toBe(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const calls = stubFetch([() => jsonResponse(403, { message: 'Forbidden' })]);
+    const client = new TelraamClient('https://telraam.test', 'key', { retryBudget: 5 });
+
+    await expect(client.fetchInstances(DEVICE_ID)).rejects.toThrow('Forbidden');
+    expect(calls.count).toBe(1);
+    expect(client.getRetryDecisions()).toMatchObject({ retryBudget: 5, circuitState: 'closed' });
+  });
+});
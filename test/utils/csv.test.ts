@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsvRow, parseCsv } from '../../src/utils/csv.js';
+
+describe('parseCsv', () => {
+  it('keys records by the trimmed header row', () => {
+    expect(parseCsv(' start , car\n2024-06-01T07:00:00Z,12\n')).toEqual([
+      { start: '2024-06-01T07:00:00Z', car: '12' },
+    ]);
+  });
+
+  it('handles quotes, escaped quotes, embedded separators and line breaks', () => {
+    expect(parseCsv('name,note\r\n"Main St, north","said ""hi""\nthen left"\r\n')).toEqual([
+      { name: 'Main St, north', note: 'said "hi"\nthen left' },
+    ]);
+  });
+
+  it('skips empty rows, fills missing fields and accepts another separator', () => {
+    expect(parseCsv('a;b;c\n1;2\n;;\n', ';')).toEqual([{ a: '1', b: '2', c: '' }]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('quotes fields with separators, quotes or line breaks and leaves missing values empty', () => {
+    expect(formatCsvRow(['a,b', 'say "hi"', 'two\nlines', 1.5, null, undefined])).toBe(
+      '"a,b","say ""hi""","two\nlines",1.5,,',
+    );
+    expect(formatCsvRow(['a,b', 'c;d'], ';')).toBe('a,b;"c;d"');
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateIncrementalRange,
+  extractMonth,
+  formatDateTimeForAPI,
+  formatDuration,
+  getIsoWeek,
+  getIsoWeekStart,
+  getLocalDate,
+  getLocalDayRange,
+  getLocalWeekdayHour,
+  isValidISODate,
+  parseLocalDateTime,
+  resolveHighWaterMark,
+  shiftMonth,
+  splitDateRange,
+} from '../../src/utils/datetime.js';
+
+const RANGE_OPTIONS = { overlapHours: 6, fallbackDays: 7, maxDays: 90 };
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('formatDateTimeForAPI', () => {
+  it('formats dates without milliseconds', () => {
+    expect(formatDateTimeForAPI(new Date('2024-12-06T10:30:00.123Z'))).toBe('2024-12-06 10:30:00Z');
+  });
+});
+
+describe('extractMonth', () => {
+  it('returns the month of an ISO timestamp', () => {
+    expect(extractMonth('2024-12-06T10:30:00.000Z')).toBe('2024-12');
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses milliseconds below one second and seconds above', () => {
+    expect(formatDuration(532)).toBe('532ms');
+    expect(formatDuration(5432)).toBe('5.43s');
+  });
+});
+
+describe('isValidISODate', () => {
+  it('accepts only full ISO timestamps', () => {
+    expect(isValidISODate('2024-12-06T10:30:00.000Z')).toBe(true);
+    expect(isValidISODate('2024-12-06')).toBe(false);
+    expect(isValidISODate('not a date')).toBe(false);
+  });
+});
+
+describe('getLocalWeekdayHour', () => {
+  it('returns the weekday and hour in the time zone', () => {
+    const date = new Date('2024-12-06T23:30:00Z');
+
+    expect(getLocalWeekdayHour(date, 'Europe/Berlin')).toEqual({ weekday: 'sat', hour: 0 });
+    expect(getLocalWeekdayHour(date, 'UTC')).toEqual({ weekday: 'fri', hour: 23 });
+  });
+});
+
+describe('calculateIncrementalRange', () => {
+  it('starts the overlap before the hour after the mark and ends now', () => {
+    const reference = new Date('2024-12-06T10:30:00Z');
+    const range = calculateIncrementalRange('2024-12-05T22:00:00.000Z', RANGE_OPTIONS, reference);
+
+    expect(range.start.toISOString()).toBe('2024-12-05T17:00:00.000Z');
+    expect(range.end).toEqual(reference);
+  });
+
+  it('caps the range at the maximum number of days', () => {
+    const reference = new Date('2024-12-06T10:30:00Z');
+    const range = calculateIncrementalRange('2024-01-01T05:00:00.000Z', RANGE_OPTIONS, reference);
+
+    expect(range.start.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2024-03-31T00:00:00.000Z');
+  });
+
+  it('falls back to the configured days without a valid mark', () => {
+    for (const mark of [undefined, 'not a date']) {
+      const range = calculateIncrementalRange(mark, RANGE_OPTIONS);
+      const days = (range.end.getTime() - range.start.getTime()) / (24 * HOUR_MS);
+      expect(Math.round(days)).toBe(7);
+    }
+  });
+});
+
+describe('resolveHighWaterMark', () => {
+  it('advances the mark past a capped window that only returned stored data', () => {
+    // Device stopped reporting on 2026-05-01 and came back on 2026-10-10
+    const requestedAt = new Date('2026-10-10T08:30:00Z');
+    const mark = '2026-05-01T12:00:00.000Z';
+
+    const first = calculateIncrementalRange(mark, RANGE_OPTIONS, requestedAt);
+    expect(first.end < requestedAt).toBe(true);
+    // The overlap re-fetches the hour the mark points at, nothing newer exists
+    const advanced = resolveHighWaterMark(mark, mark, first, requestedAt);
+    expect(advanced).toBe('2026-07-30T06:00:00.000Z');
+
+    const second = calculateIncrementalRange(advanced, RANGE_OPTIONS, requestedAt);
+    expect(second.end).toEqual(requestedAt);
+  });
+
+  it('advances the mark past a capped window without data', () => {
+    const requestedAt = new Date('2026-10-10T08:30:00Z');
+    const range = calculateIncrementalRange('2026-05-01T12:00:00.000Z', RANGE_OPTIONS, requestedAt);
+
+    expect(resolveHighWaterMark('2026-05-01T12:00:00.000Z', undefined, range, requestedAt)).toBe(
+      '2026-07-30T06:00:00.000Z',
+    );
+  });
+
+  it('catches up to the latest data once the window reaches now', () => {
+    const requestedAt = new Date('2026-10-10T08:30:00Z');
+    const range = calculateIncrementalRange('2026-10-01T00:00:00.000Z', RANGE_OPTIONS, requestedAt);
+
+    expect(range.end).toEqual(requestedAt);
+    expect(
+      resolveHighWaterMark(
+        '2026-10-01T00:00:00.000Z',
+        '2026-10-09T17:00:00.000Z',
+        range,
+        requestedAt,
+      ),
+    ).toBe('2026-10-09T17:00:00.000Z');
+  });
+
+  it('never moves past the last hour that had ended', () => {
+    const requestedAt = new Date('2026-10-10T08:30:00Z');
+    const range = calculateIncrementalRange('2026-10-10T00:00:00.000Z', RANGE_OPTIONS, requestedAt);
+
+    expect(
+      resolveHighWaterMark(
+        '2026-10-10T00:00:00.000Z',
+        '2026-10-10T08:00:00.000Z',
+        range,
+        requestedAt,
+      ),
+    ).toBe('2026-10-10T07:00:00.000Z');
+  });
+
+  it('keeps the mark when an uncapped window returns nothing new', () => {
+    const requestedAt = new Date('2026-10-10T08:30:00Z');
+    const mark = '2026-10-09T12:00:00.000Z';
+    const range = calculateIncrementalRange(mark, RANGE_OPTIONS, requestedAt);
+
+    expect(resolveHighWaterMark(mark, undefined, range, requestedAt)).toBe(mark);
+    expect(resolveHighWaterMark(mark, '2026-10-09T10:00:00.000Z', range, requestedAt)).toBe(mark);
+  });
+});
+
+describe('splitDateRange', () => {
+  it('splits a range into consecutive windows of at most the given length', () => {
+    const windows = splitDateRange(
+      { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-05-01T00:00:00Z') },
+      90,
+    );
+
+    expect(windows.map(({ start, end }) => [start.toISOString(), end.toISOString()])).toEqual([
+      ['2024-01-01T00:00:00.000Z', '2024-03-31T00:00:00.000Z'],
+      ['2024-03-31T00:00:00.000Z', '2024-05-01T00:00:00.000Z'],
+    ]);
+  });
+
+  it('returns no windows for an empty range', () => {
+    const date = new Date('2024-01-01T00:00:00Z');
+    expect(splitDateRange({ start: date, end: date }, 90)).toEqual([]);
+  });
+});
+
+describe('parseLocalDateTime', () => {
+  it('reads times without an offset as wall-clock time in the zone', () => {
+    expect(parseLocalDateTime('2024-06-01 08:00', 'Europe/Brussels')?.toISOString()).toBe(
+      '2024-06-01T06:00:00.000Z',
+    );
+    expect(parseLocalDateTime('2024-01-15', 'Europe/Brussels')?.toISOString()).toBe(
+      '2024-01-14T23:00:00.000Z',
+    );
+  });
+
+  it('keeps an explicit offset', () => {
+    expect(parseLocalDateTime('2024-06-01T08:00:00+02:00', 'UTC')?.toISOString()).toBe(
+      '2024-06-01T06:00:00.000Z',
+    );
+  });
+
+  it('moves times skipped by the spring DST change forward', () => {
+    expect(parseLocalDateTime('2025-03-30 02:30', 'Europe/Berlin')?.toISOString()).toBe(
+      '2025-03-30T01:30:00.000Z',
+    );
+  });
+
+  it('rejects unparseable values', () => {
+    expect(parseLocalDateTime('01.06.2024 08:00', 'UTC')).toBeNull();
+  });
+});
+
+describe('local days', () => {
+  it('cuts calendar days in the time zone', () => {
+    expect(getLocalDate(new Date('2024-12-06T22:59:59Z'), 'Europe/Berlin')).toBe('2024-12-06');
+    expect(getLocalDate(new Date('2024-12-06T23:00:00Z'), 'Europe/Berlin')).toBe('2024-12-07');
+    expect(getLocalDate(new Date('2024-12-06T23:00:00Z'), 'UTC')).toBe('2024-12-06');
+  });
+
+  it('makes the spring DST day 23 hours long', () => {
+    const { start, end } = getLocalDayRange('2025-03-30', 'Europe/Berlin');
+
+    expect(start.toISOString()).toBe('2025-03-29T23:00:00.000Z');
+    expect(end.toISOString()).toBe('2025-03-30T22:00:00.000Z');
+    expect((end.getTime() - start.getTime()) / HOUR_MS).toBe(23);
+  });
+
+  it('makes the autumn DST day 25 hours long', () => {
+    const { start, end } = getLocalDayRange('2025-10-26', 'Europe/Berlin');
+
+    expect(start.toISOString()).toBe('2025-10-25T22:00:00.000Z');
+    expect(end.toISOString()).toBe('2025-10-26T23:00:00.000Z');
+    expect((end.getTime() - start.getTime()) / HOUR_MS).toBe(25);
+  });
+
+  it('keeps UTC days 24 hours long', () => {
+    const { start, end } = getLocalDayRange('2025-03-30', 'UTC');
+
+    expect(start.toISOString()).toBe('2025-03-30T00:00:00.000Z');
+    expect((end.getTime() - start.getTime()) / HOUR_MS).toBe(24);
+  });
+
+  it('moves wall-clock times skipped by DST forward and resolves repeated ones to the second', () => {
+    expect(parseLocalDateTime('2025-03-30 02:30', 'Europe/Berlin')?.toISOString()).toBe(
+      '2025-03-30T01:30:00.000Z',
+    );
+    expect(parseLocalDateTime('2025-10-26 02:30', 'Europe/Berlin')?.toISOString()).toBe(
+      '2025-10-26T01:30:00.000Z',
+    );
+  });
+});
+
+describe('shiftMonth', () => {
+  it('moves across year boundaries in both directions', () => {
+    expect(shiftMonth('2025-01', -1)).toBe('2024-12');
+    expect(shiftMonth('2024-12', 1)).toBe('2025-01');
+    expect(shiftMonth('2025-03', 0)).toBe('2025-03');
+  });
+});
+
+describe('ISO weeks', () => {
+  it.each([
+    ['2024-12-30', '2025-W01'],
+    ['2025-01-01', '2025-W01'],
+    ['2021-01-03', '2020-W53'],
+    ['2026-12-31', '2026-W53'],
+    ['2025-06-16', '2025-W25'],
+  ])('puts %s in %s', (day, week) => {
+    expect(getIsoWeek(day)).toBe(week);
+  });
+
+  it.each([
+    ['2025-W01', '2024-12-30'],
+    ['2020-W53', '2020-12-28'],
+    ['2026-W01', '2025-12-29'],
+  ])('starts %s on %s', (week, monday) => {
+    expect(getIsoWeekStart(week)).toBe(monday);
+    expect(getIsoWeek(monday)).toBe(week);
+  });
+});
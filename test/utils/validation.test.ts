@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { DeviceConfig } from '../../src/types.js';
+import { validateDeviceRegistry, validateDevices } from '../../src/utils/validation.js';
+
+const DEVICE: DeviceConfig = { id: '9000000001', name: 'Test street', location: 'Karlsruhe' };
+
+describe('validateDeviceRegistry', () => {
+  it('accepts a registry with valid devices and optional fields', () => {
+    const result = validateDeviceRegistry({
+      version: 1,
+      devices: [
+        DEVICE,
+        {
+          id: '9000000002',
+          name: 'Other street',
+          location: 'Karlsruhe',
+          enabled: false,
+          daysToFetch: 14,
+          timezone: 'Europe/Berlin',
+          coordinates: { lat: 49.0, lon: 8.4 },
+          speedLimit: 30,
+          tags: ['south'],
+        },
+      ],
+    });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('rejects an unsupported version', () => {
+    expect(validateDeviceRegistry({ version: 2, devices: [DEVICE] }).errors).toEqual([
+      'Unsupported registry version 2 (expected 1)',
+    ]);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateDeviceRegistry([DEVICE]).valid).toBe(false);
+    expect(validateDeviceRegistry(null).valid).toBe(false);
+  });
+});
+
+describe('validateDevices', () => {
+  it('names each invalid entry by index and id', () => {
+    const result = validateDevices([
+      DEVICE,
+      { ...DEVICE, name: '' },
+      { id: 'abc', name: 'Bad id', location: 'Karlsruhe' },
+      { ...DEVICE, id: '9000000003', timezone: 'Mars/Olympus', speedLimit: -5 },
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'Device at index 1 (9000000001): duplicate id (already used at index 0)',
+      'Device at index 1 (9000000001): name is required',
+      'Device at index 2 (abc): id must be a numeric segment identifier string',
+      'Device at index 3 (9000000003): timezone must be an IANA time zone such as Europe/Berlin',
+      'Device at index 3 (9000000003): speedLimit must be a positive number (km/h)',
+    ]);
+  });
+
+  it('checks coordinates, days to fetch and tags', () => {
+    const result = validateDevices([
+      {
+        ...DEVICE,
+        daysToFetch: 120,
+        coordinates: { lat: 95, lon: 8.4 },
+        tags: ['ok', ''],
+      },
+    ]);
+
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[1]).toBe(
+      'Device at index 0 (9000000001): coordinates.lat must be a number between -90 and 90',
+    );
+  });
+
+  it('requires both direction labels', () => {
+    const result = validateDevices([
+      { ...DEVICE, directionLabels: { lft: 'into town', rgt: '' } },
+    ] as DeviceConfig[]);
+
+    expect(result.errors).toEqual([
+      'Device at index 0 (9000000001): directionLabels must have non-empty "lft" and "rgt" strings',
+    ]);
+  });
+
+  it('checks count file sources and allows non-numeric ids for them', () => {
+    const result = validateDevices([
+      { ...DEVICE, id: 'loop-north', source: { type: 'inductive-loop', path: './counts/north' } },
+      {
+        ...DEVICE,
+        id: 'manual_1',
+        source: { type: 'manual', path: '', intervalMinutes: 0 },
+        quarterHour: true,
+      },
+      { ...DEVICE, id: 'loop south', source: { type: 'inductive-loop', path: './counts' } },
+    ]);
+
+    expect(result.errors).toEqual([
+      'Device at index 1 (manual_1): source.path is required for manual sources',
+      'Device at index 1 (manual_1): source.intervalMinutes must be an integer between 1 and 1440',
+      'Device at index 1 (manual_1): quarterHour requires the telraam source',
+      'Device at index 2 (loop south): id may only contain letters, digits, "_" and "-"',
+    ]);
+  });
+
+  it('requires at least one device', () => {
+    expect(validateDevices([]).valid).toBe(false);
+  });
+});